@@ -1,10 +1,12 @@
-import type { Page } from "playwright";
+import type { Locator, Page } from "playwright";
 import { log, style, symbols } from "../../utils/terminal";
 import { optionalEnv } from "../../utils/env";
 import { existsSync, readFileSync, writeFileSync } from "fs";
 import path from "path";
-import { getCurrentApp } from "../../core/config";
+import { getMaskSelectors } from "../../core/config";
 import { getAppDir } from "../../core/runs";
+import { takeScreenshot } from "../../core/stabilize";
+import { interactionFilename } from "../../utils/paths";
 
 /**
  * Registration flow for cariloop-auth.
@@ -32,13 +34,16 @@ const TEST_USER_POOL = [
 
 const REGISTRATION_PASSWORD = "Ca.123123";
 
+/** The registration flow only runs for the auth app */
+const APP_NAME = "auth";
+
 interface UserPoolState {
   consumed: string[];
   lastConsumedAt?: string;
 }
 
 function getPoolFilePath(): string {
-  return path.join(getAppDir(getCurrentApp()), "user-pool.json");
+  return path.join(getAppDir(APP_NAME), "user-pool.json");
 }
 
 function loadPoolState(): UserPoolState {
@@ -73,6 +78,20 @@ function markUserConsumed(email: string): void {
   }
 }
 
+/**
+ * Build a registration screenshot filename (e.g., "register__empty-form@mobile.png")
+ */
+function registerFilename(step: string, viewport?: string): string {
+  return interactionFilename("/register", step, viewport);
+}
+
+/**
+ * Locators for the app's configured mask selectors
+ */
+function maskLocators(page: Page): Locator[] {
+  return getMaskSelectors(APP_NAME).map((sel) => page.locator(sel));
+}
+
 export type RegistrationMode = "screenshot-only" | "full-flow" | "disabled";
 
 export function getRegistrationMode(): RegistrationMode {
@@ -105,6 +124,7 @@ export async function captureRegistrationFlow(
   page: Page,
   baseUrl: string,
   outputDir: string,
+  viewport?: string,
 ): Promise<{ screenshots: string[]; userConsumed: string | null }> {
   const mode = getRegistrationMode();
   const screenshots: string[] = [];
@@ -127,7 +147,7 @@ export async function captureRegistrationFlow(
   });
   await page.waitForTimeout(2500);
 
-  const introScreenshots = await captureIntroSlides(page, outputDir);
+  const introScreenshots = await captureIntroSlides(page, outputDir, viewport);
   screenshots.push(...introScreenshots);
 
   // ── Phase 2: Set introductionSeen and navigate to registration form ──
@@ -140,13 +160,13 @@ export async function captureRegistrationFlow(
   await page.waitForTimeout(2500);
 
   if (mode === "screenshot-only") {
-    const formScreenshots = await captureScreenshotOnly(page, outputDir);
+    const formScreenshots = await captureScreenshotOnly(page, outputDir, viewport);
     screenshots.push(...formScreenshots.screenshots);
     return { screenshots, userConsumed: null };
   }
 
   // full-flow mode
-  const fullResult = await captureFullFlow(page, baseUrl, outputDir);
+  const fullResult = await captureFullFlow(page, baseUrl, outputDir, viewport);
   screenshots.push(...fullResult.screenshots);
   return { screenshots, userConsumed: fullResult.userConsumed };
 }
@@ -173,6 +193,7 @@ export async function captureRegistrationFlow(
 async function captureIntroSlides(
   page: Page,
   outputDir: string,
+  viewport?: string,
 ): Promise<string[]> {
   const screenshots: string[] = [];
 
@@ -199,11 +220,11 @@ async function captureIntroSlides(
 
   for (let i = 0; i < SLIDE_NAMES.length; i++) {
     const slideName = SLIDE_NAMES[i]!;
-    const filename = `register__intro-${String(i).padStart(2, "0")}-${slideName}.png`;
+    const filename = registerFilename(`intro-${String(i).padStart(2, "0")}-${slideName}`, viewport);
     const filepath = path.join(outputDir, filename);
 
     await page.waitForTimeout(500);
-    await page.screenshot({ path: filepath, fullPage: true });
+    await takeScreenshot(page, { path: filepath, fullPage: true, mask: maskLocators(page) });
     screenshots.push(filepath);
     log.fileSaved(filename);
 
@@ -231,9 +252,9 @@ async function captureIntroSlides(
   try {
     const skipLocator = page.locator("button.skip-introduction:visible");
     if (await skipLocator.count() > 0) {
-      const skipFilename = "register__intro-skip-button.png";
+      const skipFilename = registerFilename("intro-skip-button", viewport);
       const skipPath = path.join(outputDir, skipFilename);
-      await page.screenshot({ path: skipPath, fullPage: true });
+      await takeScreenshot(page, { path: skipPath, fullPage: true, mask: maskLocators(page) });
       screenshots.push(skipPath);
       log.fileSaved(skipFilename);
     }
@@ -248,14 +269,16 @@ async function captureIntroSlides(
 async function captureScreenshotOnly(
   page: Page,
   outputDir: string,
+  viewport?: string,
 ): Promise<{ screenshots: string[]; userConsumed: null }> {
   const screenshots: string[] = [];
 
   // Step 1: Empty form screenshot (introductionSeen is already set at this point)
-  const emptyPath = path.join(outputDir, "register__empty-form.png");
-  await page.screenshot({ path: emptyPath, fullPage: true });
+  const emptyFilename = registerFilename("empty-form", viewport);
+  const emptyPath = path.join(outputDir, emptyFilename);
+  await takeScreenshot(page, { path: emptyPath, fullPage: true, mask: maskLocators(page) });
   screenshots.push(emptyPath);
-  log.fileSaved("register__empty-form.png");
+  log.fileSaved(emptyFilename);
 
   // Step 2: Fill all fields
   try {
@@ -279,11 +302,12 @@ async function captureScreenshotOnly(
   }
 
   // Step 4: Filled form screenshot (before submit)
-  const filledPath = path.join(outputDir, "register__filled-form.png");
+  const filledFilename = registerFilename("filled-form", viewport);
+  const filledPath = path.join(outputDir, filledFilename);
   await page.waitForTimeout(500);
-  await page.screenshot({ path: filledPath, fullPage: true });
+  await takeScreenshot(page, { path: filledPath, fullPage: true, mask: maskLocators(page) });
   screenshots.push(filledPath);
-  log.fileSaved("register__filled-form.png");
+  log.fileSaved(filledFilename);
 
   // Step 5: Trigger validation by submitting empty form (reload first)
   await page.evaluate(() => localStorage.setItem("cariloop:introductionSeen", "true"));
@@ -301,10 +325,11 @@ async function captureScreenshotOnly(
     // Validation click might fail
   }
 
-  const validationPath = path.join(outputDir, "register__validation-errors.png");
-  await page.screenshot({ path: validationPath, fullPage: true });
+  const validationFilename = registerFilename("validation-errors", viewport);
+  const validationPath = path.join(outputDir, validationFilename);
+  await takeScreenshot(page, { path: validationPath, fullPage: true, mask: maskLocators(page) });
   screenshots.push(validationPath);
-  log.fileSaved("register__validation-errors.png");
+  log.fileSaved(validationFilename);
 
   log.success(`Registration form screenshots captured (${screenshots.length} images, no user consumed)`);
   return { screenshots, userConsumed: null };
@@ -348,6 +373,7 @@ async function captureFullFlow(
   page: Page,
   baseUrl: string,
   outputDir: string,
+  viewport?: string,
 ): Promise<{ screenshots: string[]; userConsumed: string | null }> {
   const screenshots: string[] = [];
 
@@ -364,10 +390,11 @@ async function captureFullFlow(
   console.log(`  ${symbols.bullet} Remaining after this: ${style.count((poolInfo.available - 1).toString())}/${poolInfo.total}\n`);
 
   // ── Step 1: Capture empty form ──
-  const emptyPath = path.join(outputDir, "register__step-01-empty-form.png");
-  await page.screenshot({ path: emptyPath, fullPage: true });
+  const emptyFilename = registerFilename("step-01-empty-form", viewport);
+  const emptyPath = path.join(outputDir, emptyFilename);
+  await takeScreenshot(page, { path: emptyPath, fullPage: true, mask: maskLocators(page) });
   screenshots.push(emptyPath);
-  log.fileSaved("register__step-01-empty-form.png");
+  log.fileSaved(emptyFilename);
 
   // ── Step 2: Fill the form with real test user data ──
   try {
@@ -399,11 +426,12 @@ async function captureFullFlow(
   }
 
   // ── Step 3: Capture filled form before submit ──
-  const filledPath = path.join(outputDir, "register__step-02-filled-form.png");
+  const filledFilename = registerFilename("step-02-filled-form", viewport);
+  const filledPath = path.join(outputDir, filledFilename);
   await page.waitForTimeout(500);
-  await page.screenshot({ path: filledPath, fullPage: true });
+  await takeScreenshot(page, { path: filledPath, fullPage: true, mask: maskLocators(page) });
   screenshots.push(filledPath);
-  log.fileSaved("register__step-02-filled-form.png");
+  log.fileSaved(filledFilename);
 
   // ── Step 4: Submit the form ──
   log.action("Submitting registration form...");
@@ -430,12 +458,12 @@ async function captureFullFlow(
       if (!isVisible) continue;
 
       const paddedNum = String(stepNumber).padStart(2, "0");
-      const filename = `register__step-${paddedNum}-${step.name}.png`;
+      const filename = registerFilename(`step-${paddedNum}-${step.name}`, viewport);
       const filepath = path.join(outputDir, filename);
 
       log.step(`Detected step: ${step.description}`);
       await page.waitForTimeout(500);
-      await page.screenshot({ path: filepath, fullPage: true });
+      await takeScreenshot(page, { path: filepath, fullPage: true, mask: maskLocators(page) });
       screenshots.push(filepath);
       log.fileSaved(filename);
       stepNumber++;
@@ -448,9 +476,9 @@ async function captureFullFlow(
           if (submitBtn && await submitBtn.isVisible()) {
             await submitBtn.click();
             await page.waitForTimeout(500);
-            const validFilename = `register__step-${paddedNum}-${step.name}-validation.png`;
+            const validFilename = registerFilename(`step-${paddedNum}-${step.name}-validation`, viewport);
             const validPath = path.join(outputDir, validFilename);
-            await page.screenshot({ path: validPath, fullPage: true });
+            await takeScreenshot(page, { path: validPath, fullPage: true, mask: maskLocators(page) });
             screenshots.push(validPath);
             log.fileSaved(validFilename);
           }
@@ -468,9 +496,9 @@ async function captureFullFlow(
   const currentUrl = page.url();
   if (currentUrl.includes("/register/complete") || currentUrl.includes("/register/not-ready")) {
     const paddedNum = String(stepNumber).padStart(2, "0");
-    const finalFilename = `register__step-${paddedNum}-final-state.png`;
+    const finalFilename = registerFilename(`step-${paddedNum}-final-state`, viewport);
     const finalPath = path.join(outputDir, finalFilename);
-    await page.screenshot({ path: finalPath, fullPage: true });
+    await takeScreenshot(page, { path: finalPath, fullPage: true, mask: maskLocators(page) });
     screenshots.push(finalPath);
     log.fileSaved(finalFilename);
   }
@@ -0,0 +1,685 @@
+#!/usr/bin/env bun
+/**
+ * UI Police — Non-interactive CLI
+ *
+ * Every step of the pipeline as a subcommand with flags instead of prompts,
+ * for CI jobs and scripts. The exit code tells the job whether it passed.
+ *
+ * Usage:
+ *   bun run cli pipeline --app auth                          # capture → compare → report
+ *   bun run cli capture --app auth --envs develop --resume
+ *   bun run cli capture --app auth --retry-failed
+ *   bun run cli compare --app auth --runs develop:260217-001,local:260217-002   # base first
+ *   bun run cli report --app auth --diffs develop-vs-local --formats html,junit
+ *   bun run cli runs --app auth --json
+ *   bun run cli runs tag --app auth develop:260217-001 release-1.4
+ *   bun run cli prune --app auth --dry-run
+ *   bun run cli baseline approve --app auth develop:260217-002 --reviewer jane --note "New header"
+ *   bun run cli baseline compare --app auth --envs develop
+ *   bun run cli scripts run --app auth my-login-flow
+ *
+ * Exit codes:
+ *   0  passed
+ *   1  regressions — a result at severity "fail" (added/removed screenshots
+ *      included, except never-approved ones in baseline compares), a failed
+ *      interaction, environment capture or script
+ *   2  usage or runtime error
+ */
+
+import {
+  APP_LIST,
+  environments,
+  getAppConfig,
+  getBrowsers,
+  getCompareSettings,
+  getResultSeverity,
+  getReportFormats,
+  parseReportFormats,
+  getReportImageMode,
+  parseReportImageMode,
+  parseBrowserName,
+  projectConfig,
+  getRetention,
+  DEFAULT_BROWSER,
+  type BrowserName,
+  type ReportFormat,
+  type ReportImageMode,
+} from "../core/config";
+import { captureAll } from "../core/capture";
+import { compareScreenshots, compareRuns, compareAgainstBaseline, compareBaseline, type ComparisonResult } from "../core/compare";
+import { loadBaseline, approveScreenshots, rejectScreenshots } from "../core/baseline";
+import { listDiffManifests, loadDiffResults } from "../core/diff-manifest";
+import { generateReport, generateMainIndex } from "../core/report";
+import { summarizeResults } from "../core/report-formats";
+import { loadProgress, deleteProgress } from "../core/progress";
+import { loadLog, getOutstandingFailures, type InteractionLog } from "../core/logger";
+import { listRuns, getAppDir, setRunTags } from "../core/runs";
+import { pruneRuns } from "../core/retention";
+import { listScripts, executeAllScripts, executeSelectedScripts } from "../core/recorder";
+import { notifyWebhooks, flushWebhooks } from "../core/webhooks";
+import { printComparisonSummary, formatBytes, log, style, symbols } from "../utils/terminal";
+
+// ============================================
+// HELPERS
+// ============================================
+
+const COMMANDS = ["capture", "compare", "report", "pipeline", "runs", "prune", "baseline", "scripts"] as const;
+type Command = (typeof COMMANDS)[number];
+
+/** Flags that take no value */
+const BOOLEAN_FLAGS = ["resume", "retry-failed", "json", "dry-run"];
+
+/** Recent decisions shown by `baseline list` */
+const BASELINE_HISTORY_LIMIT = 10;
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+/** Thrown for bad arguments or missing state — exits with EXIT_ERROR */
+class UsageError extends Error {}
+
+interface CliOptions {
+  app: string;
+  /** Environments to capture/compare — all configured ones when --envs is absent */
+  envs?: string[];
+  resume: boolean;
+  retryFailed: boolean;
+  formats: ReportFormat[];
+  images: ReportImageMode;
+  json: boolean;
+}
+
+/** What a command hands back: exit code plus the --json payload */
+interface CommandResult {
+  exitCode: number;
+  output: Record<string, unknown>;
+}
+
+function printUsage(): void {
+  console.log(`\n  🚔 UI Police CLI — v${projectConfig.version}`);
+  console.log(`  ${"─".repeat(40)}`);
+  console.log(`  Run the pipeline without prompts (CI, scripts).\n`);
+  console.log(`  ${style.dim("Usage:")}`);
+  console.log(`    bun run cli pipeline --app <app> [--envs a,b] [--resume | --retry-failed] [--formats list] [--images mode]`);
+  console.log(`    bun run cli capture  --app <app> [--envs a,b] [--resume | --retry-failed]`);
+  console.log(`    bun run cli compare  --app <app> [--envs a,b | --runs env:runId,env:runId]`);
+  console.log(`    bun run cli report   --app <app> --diffs <label,...> [--formats list] [--images mode]`);
+  console.log(`    bun run cli runs     [--app <app>] [--envs a,b]`);
+  console.log(`    bun run cli runs tag --app <app> <env:runId> [tag,...]  # no tags = untag`);
+  console.log(`    bun run cli prune    [--app <app>] [--dry-run]      # apply the retention rules`);
+  console.log(`    bun run cli baseline list    --app <app> [--envs a,b] [--browser <name>]`);
+  console.log(`    bun run cli baseline approve --app <app> <env:runId> [files...] [--reviewer <name>] [--note <text>]`);
+  console.log(`    bun run cli baseline reject  --app <app> <env:runId> [files...] [--reviewer <name>] [--note <text>]`);
+  console.log(`    bun run cli baseline compare --app <app> [--envs a,b | <env:runId>] [--formats list] [--images mode]`);
+  console.log(`    bun run cli scripts  --app <app>               # list recorded scripts`);
+  console.log(`    bun run cli scripts run --app <app> [name...]  # run them (default: all)\n`);
+  console.log(`  ${style.dim("Options:")}`);
+  console.log(`    --json       Print the outcome as JSON on stdout (logs go to stderr)`);
+  console.log(`    --dry-run    prune: list what would be deleted without deleting anything`);
+  console.log(`    --reviewer   baseline approve/reject: who decided (default: $USER); without files the whole run is decided`);
+  console.log(`    --formats    Report formats: html, json, junit, markdown (default: report.formats)`);
+  console.log(`    --images     linked (assets/ + thumbnails) or embedded (single-file HTML) (default: report.images)`);
+  console.log(`    --runs       compare: base run first, then the run compared against it (e.g. develop:001,develop:002)\n`);
+  console.log(`  ${style.dim("Exit codes:")}`);
+  console.log(`    0 passed · 1 fail-severity diffs, added/removed screenshots or failed interactions · 2 error\n`);
+  console.log(`  ${style.dim("Available apps:")} ${APP_LIST.join(", ")}`);
+  console.log(`  ${style.dim("Available envs:")} ${environments.map((e) => e.name).join(", ")}\n`);
+}
+
+/** Split argv into positionals, `--flag value` options and boolean flags */
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+    } else if (BOOLEAN_FLAGS.includes(arg.slice(2))) {
+      flags[arg.slice(2)] = "true";
+    } else {
+      flags[arg.slice(2)] = args[i + 1] ?? "";
+      i++;
+    }
+  }
+  return { positional, flags };
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function parseOptions(flags: Record<string, string>, appRequired: boolean): CliOptions {
+  const app = flags.app ?? "";
+  if (app && !APP_LIST.includes(app)) {
+    throw new UsageError(`Unknown app: "${app}". Available: ${APP_LIST.join(", ")}`);
+  }
+  if (!app && appRequired) {
+    throw new UsageError(`Missing --app. Available: ${APP_LIST.join(", ")}`);
+  }
+
+  let envs: string[] | undefined;
+  if (flags.envs !== undefined) {
+    envs = splitList(flags.envs);
+    const unknown = envs.filter((e) => !environments.some((env) => env.name === e));
+    if (envs.length === 0 || unknown.length > 0) {
+      throw new UsageError(`Unknown environment: "${unknown.join(", ")}". Available: ${environments.map((e) => e.name).join(", ")}`);
+    }
+  }
+
+  if (flags.resume && flags["retry-failed"]) {
+    throw new UsageError("Use either --resume or --retry-failed, not both");
+  }
+
+  let formats = getReportFormats();
+  let images = getReportImageMode();
+  try {
+    if (flags.formats !== undefined) formats = parseReportFormats(flags.formats);
+    if (flags.images !== undefined) images = parseReportImageMode(flags.images);
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+
+  return {
+    app,
+    envs,
+    resume: flags.resume === "true",
+    retryFailed: flags["retry-failed"] === "true",
+    formats,
+    images,
+    json: flags.json === "true",
+  };
+}
+
+/** "develop:260217-001" → ["develop", "260217-001"] */
+function parseRunRef(ref: string): [string, string] {
+  const [env, runId] = ref.split(":");
+  if (!env || !runId) throw new UsageError(`Invalid run "${ref}". Expected env:runId (e.g., develop:260217-001)`);
+  if (!environments.some((e) => e.name === env)) {
+    throw new UsageError(`Unknown environment: "${env}". Available: ${environments.map((e) => e.name).join(", ")}`);
+  }
+  return [env, runId];
+}
+
+/** Diff labels written since `since` (ISO 8601) — the comparisons this command made */
+function diffLabelsSince(app: string, since: string): string[] {
+  return listDiffManifests(app)
+    .filter((m) => m.comparedAt >= since)
+    .map((m) => m.label)
+    .reverse();
+}
+
+/** Same summary the interactive CLI prints after a run */
+function printResults(app: string, results: ComparisonResult[], reportPath: string): void {
+  const summary = summarizeResults(results);
+  const ssimScores = results.flatMap((r) => (r.status === "compared" && r.ssim !== undefined ? [r.ssim] : []));
+  const avgSsim = ssimScores.length > 0
+    ? ssimScores.reduce((sum, v) => sum + v, 0) / ssimScores.length
+    : undefined;
+  const severity = getResultSeverity(summary.avgDiff, avgSsim, getCompareSettings(app));
+  printComparisonSummary(
+    summary.total - summary.added - summary.removed - summary.error,
+    summary.avgDiff,
+    reportPath,
+    severity,
+    avgSsim,
+    summary.fail,
+    { added: summary.added, removed: summary.removed, errors: summary.error },
+  );
+}
+
+function printInteractions(app: string, interactionLog: InteractionLog): void {
+  const { success } = interactionLog.summary;
+  const failed = getOutstandingFailures(interactionLog).length;
+  console.log(`\n  ${style.info("Interactions:")} ${style.success(`${symbols.check} ${success}`)} success, ${style.error(`${symbols.cross} ${failed}`)} failed`);
+  if (failed > 0) {
+    console.log(`  ${style.muted(`See: ${getAppDir(app)}/failure-report.md for details`)}`);
+  }
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+/**
+ * Fresh capture by default; --resume continues the saved progress and
+ * --retry-failed re-runs interactions that failed last time
+ */
+async function runCapture(opts: CliOptions): Promise<CommandResult> {
+  let result: Awaited<ReturnType<typeof captureAll>>;
+
+  if (opts.resume || opts.retryFailed) {
+    const progress = loadProgress(opts.app);
+    if (!progress) throw new UsageError(`No saved progress for ${opts.app} — run a fresh capture first`);
+    const existingLog = loadLog(opts.app);
+    if (opts.retryFailed && getOutstandingFailures(existingLog).length === 0) {
+      throw new UsageError(`No failed interactions to retry for ${opts.app}`);
+    }
+    log.step(opts.resume ? "Resuming screenshot capture..." : "Retrying failed interactions...");
+    result = await captureAll(opts.app, progress, existingLog.summary.total > 0 ? existingLog : undefined, undefined, opts.envs);
+  } else {
+    deleteProgress(opts.app);
+    log.step("Capturing screenshots...");
+    result = await captureAll(opts.app, undefined, undefined, undefined, opts.envs);
+  }
+
+  const expected = (opts.envs?.length ?? environments.length) * getBrowsers().length;
+  const captured = Object.keys(result.runIds).length;
+  printInteractions(opts.app, result.log);
+  if (captured < expected) {
+    log.error(`${expected - captured} of ${expected} environment capture(s) failed`);
+  }
+
+  // The log keeps every attempt — only interactions still failing after a retry count
+  const failedInteractions = getOutstandingFailures(result.log).length;
+  const failed = captured < expected || failedInteractions > 0;
+  return {
+    exitCode: failed ? EXIT_FAILED : EXIT_PASSED,
+    output: {
+      pages: result.pages.length,
+      runIds: result.runIds,
+      interactions: { ...result.log.summary, outstanding: failedInteractions },
+    },
+  };
+}
+
+/**
+ * Latest completed runs of each env pair, or the two runs given with --runs
+ */
+async function runCompare(opts: CliOptions, flags: Record<string, string>): Promise<CommandResult> {
+  const startedAt = new Date().toISOString();
+  let results: ComparisonResult[];
+
+  if (flags.runs !== undefined) {
+    const refs = splitList(flags.runs);
+    if (refs.length !== 2) throw new UsageError("--runs takes exactly two runs: env:runId,env:runId");
+    const [env1, run1] = parseRunRef(refs[0]!);
+    const [env2, run2] = parseRunRef(refs[1]!);
+    log.step(`Comparing ${env1} (${run1}) vs ${env2} (${run2})...`);
+    results = await compareRuns(opts.app, env1, run1, env2, run2);
+  } else {
+    log.step("Comparing latest runs...");
+    results = await compareScreenshots(opts.app, [], opts.envs);
+  }
+
+  if (results.length === 0) throw new UsageError("Nothing compared — capture at least two environments first");
+
+  const summary = summarizeResults(results);
+  const diffs = diffLabelsSince(opts.app, startedAt);
+  log.success(`Compared ${summary.total} screenshot(s): ${summary.pass} pass, ${summary.warn} warn, ${summary.fail} fail`);
+  console.log(`  ${style.muted(`Diffs: ${diffs.join(", ")} — build a report with: bun run cli report --app ${opts.app} --diffs ${diffs.join(",")}`)}`);
+
+  return {
+    exitCode: summary.fail > 0 ? EXIT_FAILED : EXIT_PASSED,
+    output: { diffs, summary, results },
+  };
+}
+
+/**
+ * Rebuild reports from recorded diff manifests — no comparing
+ */
+function runReport(opts: CliOptions, flags: Record<string, string>): CommandResult {
+  const diffs = splitList(flags.diffs);
+  if (diffs.length === 0) {
+    const available = listDiffManifests(opts.app).map((m) => m.label);
+    throw new UsageError(`Missing --diffs. Recorded for ${opts.app}: ${available.join(", ") || "(none)"}`);
+  }
+
+  let results: ComparisonResult[];
+  try {
+    results = loadDiffResults(opts.app, diffs);
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+
+  const reportPath = generateReport(opts.app, results, opts.formats, opts.images);
+  generateMainIndex();
+  printResults(opts.app, results, reportPath);
+
+  const summary = summarizeResults(results);
+  return {
+    exitCode: summary.fail > 0 ? EXIT_FAILED : EXIT_PASSED,
+    output: { diffs, formats: opts.formats, images: opts.images, reportPath, summary },
+  };
+}
+
+/**
+ * capture → compare → report, failing on either regressions or failed interactions.
+ * Sends pipeline.completed (or pipeline.failed on an error) to the webhooks.
+ */
+async function runPipeline(opts: CliOptions): Promise<CommandResult> {
+  const startedAt = new Date().toISOString();
+  let capture: CommandResult | null = null;
+  try {
+    capture = await runCapture(opts);
+
+    log.step("Comparing screenshots...");
+    const results = await compareScreenshots(opts.app, [], opts.envs);
+    if (results.length === 0) throw new UsageError("Nothing compared — no two environments finished capturing");
+
+    log.step("Generating report...");
+    const reportPath = generateReport(opts.app, results, opts.formats, opts.images);
+    generateMainIndex();
+    printResults(opts.app, results, reportPath);
+
+    const summary = summarizeResults(results);
+    const failed = capture.exitCode !== EXIT_PASSED || summary.fail > 0;
+    notifyWebhooks("pipeline.completed", {
+      app: opts.app,
+      envs: opts.envs ?? environments.map((e) => e.name),
+      runIds: capture.output.runIds as Record<string, string>,
+      detail: failed ? "Regressions found" : "Passed",
+      results,
+      interactionLog: loadLog(opts.app),
+      reportPath,
+    });
+
+    return {
+      exitCode: failed ? EXIT_FAILED : EXIT_PASSED,
+      output: {
+        ...capture.output,
+        diffs: diffLabelsSince(opts.app, startedAt),
+        formats: opts.formats,
+        images: opts.images,
+        reportPath,
+        summary,
+      },
+    };
+  } catch (err) {
+    notifyWebhooks("pipeline.failed", {
+      app: opts.app,
+      envs: opts.envs ?? environments.map((e) => e.name),
+      runIds: capture?.output.runIds as Record<string, string> | undefined,
+      detail: err instanceof Error ? err.message : String(err),
+      interactionLog: capture ? loadLog(opts.app) : undefined,
+    });
+    throw err;
+  }
+}
+
+/**
+ * List runs, or `runs tag <env:runId> [tags]` to set a run's tags
+ */
+function runRuns(opts: CliOptions, args: string[]): CommandResult {
+  const [action, ref, tagList] = args;
+  if (action !== undefined) {
+    if (action !== "tag") throw new UsageError(`Unknown runs action: "${action}". Available: tag`);
+    if (!opts.app) throw new UsageError(`Missing --app. Available: ${APP_LIST.join(", ")}`);
+    if (!ref) throw new UsageError("Missing run. Usage: runs tag --app <app> <env:runId> [tag,...]");
+    const [env, runId] = parseRunRef(ref);
+    const tags = setRunTags(opts.app, env, runId, splitList(tagList));
+    if (!tags) throw new UsageError(`Run not found: ${opts.app}/${env}/${runId}`);
+    log.success(tags.length > 0 ? `Tagged ${env}:${runId} — ${tags.join(", ")}` : `Removed the tags of ${env}:${runId}`);
+    return { exitCode: EXIT_PASSED, output: { env, runId, tags } };
+  }
+
+  const runs = listRuns(opts.app || undefined)
+    .filter((r) => !opts.envs || opts.envs.includes(r.environment));
+
+  log.header(`Runs${opts.app ? `: ${opts.app}` : ""}`);
+  if (runs.length === 0) console.log(`  ${style.muted("No runs yet.")}`);
+  for (const r of runs) {
+    const status = r.status === "completed" ? style.success(r.status)
+      : r.status === "running" ? style.warning(r.status)
+      : style.error(r.status);
+    const tags = r.tags?.length ? ` ${style.info(r.tags.join(", "))}` : "";
+    console.log(`    ${symbols.bullet} ${style.highlight(r.runId)} ${r.app}/${r.environment} ${style.muted(r.browser)} ${status}${tags} ${style.muted(r.timestamp)}`);
+  }
+  console.log("");
+
+  return { exitCode: EXIT_PASSED, output: { runs } };
+}
+
+/**
+ * Delete the runs the retention rules don't keep, plus orphaned diff folders,
+ * stale compare cache entries and job log archives. --dry-run only lists them.
+ */
+function runPrune(opts: CliOptions, flags: Record<string, string>): CommandResult {
+  const dryRun = flags["dry-run"] === "true";
+  const policy = getRetention();
+  const result = pruneRuns(opts.app || undefined, dryRun, policy);
+
+  log.header(`${dryRun ? "Prune preview" : "Prune"}${opts.app ? `: ${opts.app}` : ""}`);
+  console.log(`  ${style.muted(`Keeping the last ${policy.keepLast} completed run(s) per env and browser, runs from the last ${policy.keepDays} day(s), failed/cancelled runs for ${policy.failedGraceDays} day(s), compare cache for ${policy.cacheDays} day(s) and job logs for ${policy.jobDays} day(s)`)}\n`);
+  for (const r of result.runs) {
+    console.log(`    ${symbols.cross} ${style.highlight(r.runId)} ${r.app}/${r.environment} ${style.muted(r.browser)} ${r.reason} ${style.muted(`${r.timestamp} · ${formatBytes(r.bytes)}`)}`);
+  }
+  for (const d of result.diffs) {
+    console.log(`    ${symbols.cross} ${style.highlight(d.label)} ${d.app}/diffs ${style.muted(`${d.reason} · ${formatBytes(d.bytes)}`)}`);
+  }
+  for (const c of result.cache) {
+    console.log(`    ${symbols.cross} ${c.ids.length} cache entries ${c.app}/cache/compare ${style.muted(formatBytes(c.bytes))}`);
+  }
+  for (const j of result.jobs) {
+    console.log(`    ${symbols.cross} ${j.ids.length} job log(s) ${j.app}/jobs ${style.muted(formatBytes(j.bytes))}`);
+  }
+  const cacheEntries = result.cache.reduce((sum, c) => sum + c.ids.length, 0);
+  const jobLogs = result.jobs.reduce((sum, j) => sum + j.ids.length, 0);
+  if (result.runs.length === 0 && result.diffs.length === 0 && cacheEntries === 0 && jobLogs === 0) {
+    console.log(`  ${style.muted("Nothing to prune.")}`);
+  }
+
+  const summary = `${result.runs.length} run(s), ${result.diffs.length} diff folder(s), ${cacheEntries} cache entries and ${jobLogs} job log(s), ${formatBytes(result.bytes)} — ${result.kept.length} run(s) kept`;
+  console.log("");
+  if (dryRun) log.info(`Would delete ${summary}`);
+  else log.success(`Deleted ${summary}`);
+
+  const { app: _app, ...output } = result;
+  return { exitCode: EXIT_PASSED, output };
+}
+
+function printBaseline(app: string, env: string, browser: BrowserName): void {
+  const baseline = loadBaseline(app, env, browser);
+  const entries = Object.values(baseline.entries);
+  const title = browser === DEFAULT_BROWSER ? `${app}/${env}` : `${app}/${env} (${browser})`;
+
+  log.header(`Baseline: ${title}`);
+  if (entries.length === 0) {
+    console.log(`  ${style.muted("No approved screenshots yet.")}\n`);
+    return;
+  }
+
+  console.log(`  ${style.dim(`${entries.length} approved screenshot(s), updated ${baseline.updatedAt}`)}\n`);
+  for (const entry of entries.sort((a, b) => a.file.localeCompare(b.file))) {
+    const note = entry.note ? ` ${style.muted(`"${entry.note}"`)}` : "";
+    console.log(`    ${symbols.bullet} ${style.path(entry.file)} ${style.muted(`from ${entry.sourceRunId} by ${entry.approvedBy}`)}${note}`);
+  }
+
+  const recent = baseline.history.slice(-BASELINE_HISTORY_LIMIT).reverse();
+  console.log(`\n  ${style.dim("Recent decisions:")}`);
+  for (const d of recent) {
+    const action = d.action === "approved" ? style.success(d.action) : style.error(d.action);
+    const note = d.note ? ` ${style.muted(`"${d.note}"`)}` : "";
+    console.log(`    ${d.timestamp} ${action} ${style.path(d.file)} ${style.muted(`(${d.runId}) by ${d.reviewer}`)}${note}`);
+  }
+  console.log("");
+}
+
+/**
+ * Review screenshots into the approved baseline: list, approve, reject,
+ * or compare runs against it. Screenshots not approved yet come back from
+ * compare as "added" warnings, so only removed or changed ones fail.
+ */
+async function runBaseline(opts: CliOptions, args: string[], flags: Record<string, string>): Promise<CommandResult> {
+  const [action, ref, ...files] = args;
+  const envs = opts.envs ?? environments.map((e) => e.name);
+
+  switch (action) {
+    case "list": {
+      let browsers = getBrowsers();
+      try {
+        if (flags.browser) browsers = [parseBrowserName(flags.browser)];
+      } catch (err: any) {
+        throw new UsageError(err.message);
+      }
+      const baselines = envs.flatMap((env) => browsers.map((browser) => {
+        printBaseline(opts.app, env, browser);
+        return loadBaseline(opts.app, env, browser);
+      }));
+      return { exitCode: EXIT_PASSED, output: { baselines } };
+    }
+
+    case "approve":
+    case "reject": {
+      if (!ref) throw new UsageError(`Missing run. Usage: baseline ${action} --app <app> <env:runId> [files...]`);
+      const [env, runId] = parseRunRef(ref);
+      const reviewer = flags.reviewer || process.env.USER;
+      if (!reviewer) throw new UsageError("Missing reviewer. Pass --reviewer <name>.");
+
+      try {
+        if (action === "approve") {
+          const entries = approveScreenshots(opts.app, env, runId, reviewer, flags.note, files);
+          log.success(`Approved ${entries.length} screenshot(s) from ${env} (${runId}) into the baseline`);
+          return { exitCode: EXIT_PASSED, output: { env, runId, approved: entries } };
+        }
+        const decisions = rejectScreenshots(opts.app, env, runId, reviewer, flags.note, files);
+        log.success(`Rejected ${decisions.length} screenshot(s) from ${env} (${runId})`);
+        return { exitCode: EXIT_PASSED, output: { env, runId, rejected: decisions } };
+      } catch (err: any) {
+        throw new UsageError(err.message);
+      }
+    }
+
+    case "compare": {
+      const startedAt = new Date().toISOString();
+      const results: ComparisonResult[] = [];
+      if (ref) {
+        const [env, runId] = parseRunRef(ref);
+        results.push(...await compareAgainstBaseline(opts.app, env, runId));
+      } else {
+        for (const env of envs) results.push(...await compareBaseline(opts.app, env));
+      }
+      if (results.length === 0) throw new UsageError("Nothing compared — approve screenshots into the baseline first");
+
+      const reportPath = generateReport(opts.app, results, opts.formats, opts.images);
+      generateMainIndex();
+      printResults(opts.app, results, reportPath);
+
+      const summary = summarizeResults(results);
+      if (summary.added > 0) {
+        log.info(`${summary.added} screenshot(s) not in the baseline yet — approve them with: bun run cli baseline approve --app ${opts.app} <env:runId> <files...>`);
+      }
+      return {
+        exitCode: summary.fail > 0 ? EXIT_FAILED : EXIT_PASSED,
+        output: { diffs: diffLabelsSince(opts.app, startedAt), formats: opts.formats, images: opts.images, reportPath, summary },
+      };
+    }
+
+    default:
+      throw new UsageError(`Unknown baseline action: "${action ?? ""}". Available: list, approve, reject, compare`);
+  }
+}
+
+async function runScripts(opts: CliOptions, args: string[]): Promise<CommandResult> {
+  const [action, ...names] = args;
+  const scripts = listScripts(opts.app);
+
+  if (action === undefined) {
+    log.header(`Scripts: ${opts.app}`);
+    if (scripts.length === 0) console.log(`  ${style.muted("No recorded scripts.")}`);
+    for (const s of scripts) {
+      console.log(`    ${symbols.bullet} ${style.highlight(s.name)} — ${s.description}`);
+    }
+    console.log("");
+    return { exitCode: EXIT_PASSED, output: { scripts } };
+  }
+
+  if (action !== "run") throw new UsageError(`Unknown scripts action: "${action}". Available: run`);
+  const unknown = names.filter((n) => !scripts.some((s) => s.name === n));
+  if (unknown.length > 0) throw new UsageError(`Unknown script(s): ${unknown.join(", ")}`);
+  if (scripts.length === 0) throw new UsageError(`No recorded scripts for ${opts.app}`);
+
+  const total = names.length > 0 ? names.length : scripts.length;
+  const executed = names.length > 0
+    ? await executeSelectedScripts(opts.app, names)
+    : await executeAllScripts(opts.app);
+  if (executed < total) log.error(`${total - executed} of ${total} script(s) failed`);
+
+  return {
+    exitCode: executed < total ? EXIT_FAILED : EXIT_PASSED,
+    output: { executed, failed: total - executed },
+  };
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+async function main(): Promise<number> {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const [command, ...rest] = positional;
+
+  // --json keeps stdout for the payload; progress logs move to stderr
+  if (flags.json) console.log = console.error;
+
+  if (process.argv.includes("--help") || process.argv.includes("-h") || !command) {
+    printUsage();
+    return command ? EXIT_PASSED : EXIT_ERROR;
+  }
+
+  if (!COMMANDS.includes(command as Command)) {
+    throw new UsageError(`Unknown command: "${command}". Available: ${COMMANDS.join(", ")}`);
+  }
+
+  const opts = parseOptions(flags, command !== "runs" && command !== "prune");
+
+  if (opts.app) {
+    log.info(`${getAppConfig(opts.app).displayName}${opts.envs ? ` — ${opts.envs.join(", ")}` : ""}`);
+  }
+
+  let result: CommandResult;
+  switch (command as Command) {
+    case "capture":
+      result = await runCapture(opts);
+      break;
+    case "compare":
+      result = await runCompare(opts, flags);
+      break;
+    case "report":
+      result = runReport(opts, flags);
+      break;
+    case "pipeline":
+      result = await runPipeline(opts);
+      break;
+    case "runs":
+      result = runRuns(opts, rest);
+      break;
+    case "prune":
+      result = runPrune(opts, flags);
+      break;
+    case "baseline":
+      result = await runBaseline(opts, rest, flags);
+      break;
+    case "scripts":
+      result = await runScripts(opts, rest);
+      break;
+  }
+
+  if (opts.json) writeJson({
+    command,
+    app: opts.app || undefined,
+    passed: result.exitCode === EXIT_PASSED,
+    exitCode: result.exitCode,
+    ...result.output,
+  });
+  return result.exitCode;
+}
+
+function writeJson(data: unknown): void {
+  process.stdout.write(JSON.stringify(data, null, 2) + "\n");
+}
+
+// Webhook deliveries (and their retries) finish before the process exits
+main()
+  .then(async (code) => {
+    await flushWebhooks();
+    process.exit(code);
+  })
+  .catch(async (err) => {
+    log.error(err instanceof UsageError ? err.message : `Fatal error: ${err}`);
+    if (process.argv.includes("--json")) {
+      writeJson({ passed: false, exitCode: EXIT_ERROR, error: err instanceof Error ? err.message : String(err) });
+    }
+    await flushWebhooks();
+    process.exit(EXIT_ERROR);
+  });
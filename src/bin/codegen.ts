@@ -16,7 +16,6 @@
 import {
   APP_LIST,
   environments,
-  setCurrentApp,
   getAppConfig,
   projectConfig,
 } from "../core/config";
@@ -88,8 +87,6 @@ async function main() {
     process.exit(1);
   }
 
-  setCurrentApp(appName);
-
   // Interactive env selection
   if (!envName) {
     if (environments.length === 1) {
@@ -1,10 +1,10 @@
 import type { Page } from "playwright";
-import { getCredentials, getCurrentAppConfig, timeouts, retries, useSameCredentials } from "./config";
+import { getCredentials, getAppConfig, timeouts, retries, useSameCredentials } from "./config";
 import { log, style } from "../utils/terminal";
 
-async function attemptLogin(page: Page, baseUrl: string, envName: string): Promise<void> {
+async function attemptLogin(page: Page, appName: string, baseUrl: string, envName: string): Promise<void> {
   const loginUrl = `${baseUrl}/login`;
-  const appConfig = getCurrentAppConfig();
+  const appConfig = getAppConfig(appName);
   const credentials = getCredentials(envName);
   
   log.action(`Navigating to ${style.url(loginUrl)}`);
@@ -58,7 +58,7 @@ async function attemptLogin(page: Page, baseUrl: string, envName: string): Promi
   }
 }
 
-export async function login(page: Page, baseUrl: string, envName: string = "dev"): Promise<void> {
+export async function login(page: Page, appName: string, baseUrl: string, envName: string = "dev"): Promise<void> {
   const maxAttempts = 1 + retries.login;
   let lastError: unknown;
 
@@ -68,7 +68,7 @@ export async function login(page: Page, baseUrl: string, envName: string = "dev"
         log.warning(`Login retry ${attempt}/${maxAttempts}...`);
         await page.waitForTimeout(2000);
       }
-      await attemptLogin(page, baseUrl, envName);
+      await attemptLogin(page, appName, baseUrl, envName);
       return;
     } catch (err) {
       lastError = err;
@@ -0,0 +1,225 @@
+import { PNG } from "pngjs";
+
+/**
+ * Shift-tolerant alignment — lines up horizontal bands of rows between two
+ * screenshots before they are diffed, so one inserted table row doesn't
+ * turn everything below it into a difference.
+ *
+ * Rows are hashed and matched with a patience diff (common prefix/suffix,
+ * then rows unique to both sides as anchors, recursively). Unmatched rows
+ * present on only one side become inserted/removed bands; unmatched rows on
+ * both sides are a changed band and are compared pixel by pixel.
+ */
+
+export interface Band {
+  /** First row of the band, in the coordinates of the image that has it */
+  y: number;
+  height: number;
+}
+
+export interface BandAlignment {
+  /** Both images re-laid out on a shared row axis (same size) */
+  aligned1: PNG;
+  aligned2: PNG;
+  /** Bands only in the second image, in its coordinates */
+  inserted: Band[];
+  /** Bands only in the first image, in its coordinates */
+  removed: Band[];
+  /** Inserted/removed bands in aligned coordinates (for tinting the diff) */
+  insertedRows: Band[];
+  removedRows: Band[];
+}
+
+/** Diff image tint for inserted (green) and removed (blue) bands */
+const INSERTED_TINT: [number, number, number] = [34, 197, 94];
+const REMOVED_TINT: [number, number, number] = [59, 130, 246];
+
+/** Row source in the aligned layout: -1 means the row doesn't exist on that side */
+interface RowPair {
+  a: number;
+  b: number;
+}
+
+/** FNV-1a over each row's bytes */
+function hashRows(img: PNG): Uint32Array {
+  const rowBytes = img.width * 4;
+  const hashes = new Uint32Array(img.height);
+  for (let y = 0; y < img.height; y++) {
+    let h = 0x811c9dc5;
+    const start = y * rowBytes;
+    for (let i = start; i < start + rowBytes; i++) {
+      h ^= img.data[i]!;
+      h = Math.imul(h, 0x01000193);
+    }
+    hashes[y] = h >>> 0;
+  }
+  return hashes;
+}
+
+/** Longest increasing subsequence of anchor pairs by their b index */
+function longestIncreasing(pairs: Array<[number, number]>): Array<[number, number]> {
+  const tails: number[] = [];
+  const prev = new Array<number>(pairs.length).fill(-1);
+  for (let i = 0; i < pairs.length; i++) {
+    const b = pairs[i]![1];
+    let lo = 0, hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]!]![1] < b) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1]!;
+    tails[lo] = i;
+  }
+  const out: Array<[number, number]> = [];
+  for (let i = tails.length > 0 ? tails[tails.length - 1]! : -1; i !== -1; i = prev[i]!) {
+    out.push(pairs[i]!);
+  }
+  return out.reverse();
+}
+
+/**
+ * Patience diff over row hashes — appends row pairs to `out` in order
+ */
+function alignRows(a: Uint32Array, b: Uint32Array, a0: number, a1: number, b0: number, b1: number, out: RowPair[]): void {
+  // Common prefix
+  while (a0 < a1 && b0 < b1 && a[a0] === b[b0]) out.push({ a: a0++, b: b0++ });
+
+  // Common suffix (emitted after the middle)
+  let suffix = 0;
+  while (a1 - suffix > a0 && b1 - suffix > b0 && a[a1 - suffix - 1] === b[b1 - suffix - 1]) suffix++;
+  const aEnd = a1 - suffix;
+  const bEnd = b1 - suffix;
+
+  if (a0 < aEnd && b0 < bEnd) {
+    // Anchors: rows that occur exactly once on each side
+    const countA = new Map<number, number>();
+    const countB = new Map<number, number>();
+    const posB = new Map<number, number>();
+    for (let i = a0; i < aEnd; i++) countA.set(a[i]!, (countA.get(a[i]!) ?? 0) + 1);
+    for (let i = b0; i < bEnd; i++) {
+      countB.set(b[i]!, (countB.get(b[i]!) ?? 0) + 1);
+      posB.set(b[i]!, i);
+    }
+    const candidates: Array<[number, number]> = [];
+    for (let i = a0; i < aEnd; i++) {
+      const h = a[i]!;
+      if (countA.get(h) === 1 && countB.get(h) === 1) candidates.push([i, posB.get(h)!]);
+    }
+    const anchors = longestIncreasing(candidates);
+
+    if (anchors.length === 0) {
+      emitGap(a0, aEnd, b0, bEnd, out);
+    } else {
+      let pa = a0, pb = b0;
+      for (const [ia, ib] of anchors) {
+        alignRows(a, b, pa, ia, pb, ib, out);
+        out.push({ a: ia, b: ib });
+        pa = ia + 1;
+        pb = ib + 1;
+      }
+      alignRows(a, b, pa, aEnd, pb, bEnd, out);
+    }
+  } else {
+    emitGap(a0, aEnd, b0, bEnd, out);
+  }
+
+  for (let i = 0; i < suffix; i++) out.push({ a: aEnd + i, b: bEnd + i });
+}
+
+/**
+ * Unmatched rows — paired top-aligned when both sides have rows (a changed
+ * band), otherwise one-sided (an inserted or removed band)
+ */
+function emitGap(a0: number, a1: number, b0: number, b1: number, out: RowPair[]): void {
+  const rows = Math.max(a1 - a0, b1 - b0);
+  const oneSided = a1 === a0 || b1 === b0;
+  for (let i = 0; i < rows; i++) {
+    const a = a0 + i < a1 ? a0 + i : -1;
+    const b = b0 + i < b1 ? b0 + i : -1;
+    // A changed band taller on one side is padded with white on the other
+    out.push(oneSided ? { a, b } : { a: a === -1 ? -2 : a, b: b === -1 ? -2 : b });
+  }
+}
+
+/** Merge consecutive row indices into bands */
+function toBands(rows: number[]): Band[] {
+  const bands: Band[] = [];
+  for (const y of rows) {
+    const last = bands[bands.length - 1];
+    if (last && last.y + last.height === y) last.height++;
+    else bands.push({ y, height: 1 });
+  }
+  return bands;
+}
+
+function copyRow(src: PNG, srcY: number, dst: PNG, dstY: number): void {
+  const rowBytes = src.width * 4;
+  src.data.copy(dst.data, dstY * rowBytes, srcY * rowBytes, (srcY + 1) * rowBytes);
+}
+
+/**
+ * Align two images of equal width on a shared row axis.
+ * Rows only one side has are copied to the other, so pixelmatch sees them
+ * as unchanged — they are reported as inserted/removed bands instead.
+ */
+export function alignBands(img1: PNG, img2: PNG): BandAlignment {
+  const pairs: RowPair[] = [];
+  alignRows(hashRows(img1), hashRows(img2), 0, img1.height, 0, img2.height, pairs);
+
+  const width = img1.width;
+  const height = pairs.length;
+  const aligned1 = new PNG({ width, height });
+  const aligned2 = new PNG({ width, height });
+  aligned1.data.fill(255);
+  aligned2.data.fill(255);
+
+  const inserted: number[] = [];
+  const removed: number[] = [];
+  const insertedRows: number[] = [];
+  const removedRows: number[] = [];
+
+  pairs.forEach(({ a, b }, y) => {
+    if (a >= 0) copyRow(img1, a, aligned1, y);
+    if (b >= 0) copyRow(img2, b, aligned2, y);
+    if (a === -1) {
+      copyRow(img2, b, aligned1, y);
+      inserted.push(b);
+      insertedRows.push(y);
+    } else if (b === -1) {
+      copyRow(img1, a, aligned2, y);
+      removed.push(a);
+      removedRows.push(y);
+    }
+  });
+
+  return {
+    aligned1,
+    aligned2,
+    inserted: toBands(inserted),
+    removed: toBands(removed),
+    insertedRows: toBands(insertedRows),
+    removedRows: toBands(removedRows),
+  };
+}
+
+/**
+ * Tint inserted (green) and removed (blue) bands in a diff image
+ */
+export function tintBands(diff: PNG, alignment: BandAlignment): void {
+  const tint = (bands: Band[], color: [number, number, number]) => {
+    for (const band of bands) {
+      for (let y = band.y; y < band.y + band.height; y++) {
+        for (let x = 0; x < diff.width; x++) {
+          const idx = (y * diff.width + x) * 4;
+          diff.data[idx] = (diff.data[idx]! + color[0]) >> 1;
+          diff.data[idx + 1] = (diff.data[idx + 1]! + color[1]) >> 1;
+          diff.data[idx + 2] = (diff.data[idx + 2]! + color[2]) >> 1;
+          diff.data[idx + 3] = 255;
+        }
+      }
+    }
+  };
+  tint(alignment.insertedRows, INSERTED_TINT);
+  tint(alignment.removedRows, REMOVED_TINT);
+}
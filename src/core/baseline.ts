@@ -0,0 +1,208 @@
+/**
+ * Baseline store — approved screenshots that later runs are compared against.
+ *
+ * Directory structure:
+ *   captures/
+ *     {app}/
+ *       baselines/
+ *         develop/                  ← chromium baseline for develop
+ *           baseline.json
+ *           login.png
+ *           login@mobile.png        ← viewports kept apart by filename
+ *         develop-webkit/           ← other browsers get a suffix
+ *
+ * Key behaviour:
+ *   - Approving copies the screenshot (and its landmarks) out of the run,
+ *     so baselines survive deleting the run they came from.
+ *   - Rejecting only records the decision; the baseline is left untouched.
+ *   - Every decision is appended to `history` with reviewer, timestamp and note.
+ */
+
+import fs from "fs";
+import path from "path";
+import { DEFAULT_BROWSER, resolvePagePath } from "./config";
+import { getAppDir, getRunDir, loadRunManifest, hashScreenshot } from "./runs";
+import { parseFilename } from "../utils/paths";
+import type {
+  BaselineDecision,
+  BaselineEntry,
+  BaselineManifest,
+  BrowserName,
+} from "../types/config";
+
+// ============================================
+// PATHS
+// ============================================
+
+/** captures/{app}/baselines/{env}[-{browser}] */
+export function getBaselineDir(app: string, env: string, browser: BrowserName = DEFAULT_BROWSER): string {
+  const folder = browser === DEFAULT_BROWSER ? env : `${env}-${browser}`;
+  return path.join(getAppDir(app), "baselines", folder);
+}
+
+function getBaselineManifestPath(app: string, env: string, browser: BrowserName): string {
+  return path.join(getBaselineDir(app, env, browser), "baseline.json");
+}
+
+// ============================================
+// MANIFEST
+// ============================================
+
+function createEmptyBaseline(app: string, env: string, browser: BrowserName): BaselineManifest {
+  return { app, environment: env, browser, updatedAt: "", entries: {}, history: [] };
+}
+
+export function loadBaseline(
+  app: string,
+  env: string,
+  browser: BrowserName = DEFAULT_BROWSER,
+): BaselineManifest {
+  const file = getBaselineManifestPath(app, env, browser);
+  if (!fs.existsSync(file)) return createEmptyBaseline(app, env, browser);
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as BaselineManifest;
+  } catch {
+    return createEmptyBaseline(app, env, browser);
+  }
+}
+
+function saveBaseline(manifest: BaselineManifest): void {
+  const dir = getBaselineDir(manifest.app, manifest.environment, manifest.browser);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    getBaselineManifestPath(manifest.app, manifest.environment, manifest.browser),
+    JSON.stringify(manifest, null, 2),
+    "utf-8",
+  );
+}
+
+/**
+ * Whether any screenshot has been approved for app+env+browser
+ */
+export function hasBaseline(app: string, env: string, browser: BrowserName = DEFAULT_BROWSER): boolean {
+  return Object.keys(loadBaseline(app, env, browser).entries).length > 0;
+}
+
+/**
+ * Every baseline stored for an app (one per env and browser)
+ */
+export function listBaselines(app: string): BaselineManifest[] {
+  const dir = path.join(getAppDir(app), "baselines");
+  if (!fs.existsSync(dir)) return [];
+  const baselines: BaselineManifest[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name, "baseline.json");
+    if (!entry.isDirectory() || !fs.existsSync(file)) continue;
+    try {
+      baselines.push(JSON.parse(fs.readFileSync(file, "utf-8")) as BaselineManifest);
+    } catch {
+      // Unreadable baseline — nothing to list
+    }
+  }
+  return baselines;
+}
+
+// ============================================
+// APPROVE / REJECT
+// ============================================
+
+/**
+ * Resolve the run's browser and the requested files (every screenshot in the
+ * run directory when `files` is omitted). Throws when the run or a file doesn't exist.
+ */
+function resolveRunFiles(
+  app: string,
+  env: string,
+  runId: string,
+  files?: string[],
+): { browser: BrowserName; files: string[]; pages: Map<string, string> } {
+  const run = loadRunManifest(app, env, runId);
+  if (!run) throw new Error(`Run not found: ${app}/${env}/${runId}`);
+
+  // Read the directory rather than the manifest — scripted flows save shots without registering them
+  const runDir = getRunDir(app, env, runId);
+  const captured = new Set(fs.readdirSync(runDir).filter((f) => f.endsWith(".png")));
+  const selected = files && files.length > 0 ? files : [...captured].sort();
+  for (const file of selected) {
+    if (!captured.has(file)) throw new Error(`Screenshot not in run ${runId}: ${file}`);
+  }
+  const pages = new Map(run.screenshots.map((s) => [s.file, s.page]));
+  return { browser: run.browser ?? DEFAULT_BROWSER, files: selected, pages };
+}
+
+/**
+ * Approve screenshots from a run into the baseline (all of them when
+ * `files` is omitted). Returns the new baseline entries.
+ */
+export function approveScreenshots(
+  app: string,
+  env: string,
+  runId: string,
+  reviewer: string,
+  note?: string,
+  files?: string[],
+): BaselineEntry[] {
+  const { browser, files: selected, pages } = resolveRunFiles(app, env, runId, files);
+  const baseline = loadBaseline(app, env, browser);
+  const baselineDir = getBaselineDir(app, env, browser);
+  const runDir = getRunDir(app, env, runId);
+  if (!fs.existsSync(baselineDir)) fs.mkdirSync(baselineDir, { recursive: true });
+
+  const timestamp = new Date().toISOString();
+  const approved: BaselineEntry[] = [];
+
+  for (const file of selected) {
+    fs.copyFileSync(path.join(runDir, file), path.join(baselineDir, file));
+
+    // Keep landmarks alongside so baseline diffs still get named regions
+    const landmarksFile = file.replace(/\.png$/, ".landmarks.json");
+    const landmarksSource = path.join(runDir, landmarksFile);
+    const landmarksTarget = path.join(baselineDir, landmarksFile);
+    if (fs.existsSync(landmarksSource)) fs.copyFileSync(landmarksSource, landmarksTarget);
+    else if (fs.existsSync(landmarksTarget)) fs.rmSync(landmarksTarget);
+
+    const { interactionId, viewport } = parseFilename(file);
+    const entry: BaselineEntry = {
+      file,
+      page: resolvePagePath(app, file, pages.get(file)),
+      interactionId,
+      viewport,
+      sourceRunId: runId,
+      hash: hashScreenshot(path.join(baselineDir, file)),
+      approvedBy: reviewer,
+      approvedAt: timestamp,
+      note,
+    };
+    baseline.entries[file] = entry;
+    baseline.history.push({ action: "approved", file, runId, reviewer, timestamp, note });
+    approved.push(entry);
+  }
+
+  baseline.updatedAt = timestamp;
+  saveBaseline(baseline);
+  return approved;
+}
+
+/**
+ * Record a rejection for screenshots from a run. The baseline images are
+ * left as they are — the decision is kept in the history for audit.
+ */
+export function rejectScreenshots(
+  app: string,
+  env: string,
+  runId: string,
+  reviewer: string,
+  note?: string,
+  files?: string[],
+): BaselineDecision[] {
+  const { browser, files: selected } = resolveRunFiles(app, env, runId, files);
+  const baseline = loadBaseline(app, env, browser);
+  const timestamp = new Date().toISOString();
+
+  const decisions = selected.map((file): BaselineDecision => (
+    { action: "rejected", file, runId, reviewer, timestamp, note }
+  ));
+  baseline.history.push(...decisions);
+  saveBaseline(baseline);
+  return decisions;
+}
@@ -1,16 +1,23 @@
-import { chromium, type Page } from "playwright";
+import { chromium, firefox, webkit, type BrowserType, type Page } from "playwright";
 import { existsSync, mkdirSync } from "fs";
 import path from "path";
 import {
   environments,
-  getViewport,
+  DEFAULT_APP,
+  getViewports,
   getViewportString,
-  getCurrentApp,
-  getCurrentAppConfig,
+  getViewportTag,
+  getAppConfig,
+  getBrowsers,
+  envBrowserKey,
+  getMaskSelectors,
   captureOptions,
   timeouts,
   projectConfig,
+  type BrowserName,
   type EnvConfig,
+  type ResolvedViewport,
+  type RunTrigger,
 } from "./config";
 import { login } from "./auth";
 import { discoverPages } from "./discover";
@@ -24,6 +31,7 @@ import {
   saveProgress,
   isInteractionCaptured,
   markInteractionCaptured,
+  pageKey,
 } from "./progress";
 import {
   getAllInteractions,
@@ -52,6 +60,8 @@ import { log, style, symbols } from "../utils/terminal";
 import { pathToFilename, interactionFilename } from "../utils/paths";
 import { captureRegistrationFlow, getRegistrationMode, getAvailableTestUsers } from "../apps/auth/registration-flow";
 import { hasScripts, executeAllScripts } from "./recorder";
+import { stabilizeContext, takeScreenshot } from "./stabilize";
+import { notifyWebhooks } from "./webhooks";
 
 /**
  * Capture interactions on the current page (menus, buttons, hover states)
@@ -63,18 +73,23 @@ async function captureInteractions(
   outputDir: string,
   manifest: ProgressManifest,
   envName: string,
+  browser: BrowserName,
   appName: string,
   runId: string,
-  interactionLog: InteractionLog
+  interactionLog: InteractionLog,
+  viewport: ResolvedViewport,
 ): Promise<void> {
-  const interactions = getAllInteractions();
-  
+  const interactions = getAllInteractions(appName);
+  const envKey = envBrowserKey(envName, browser);
+  const viewportTag = getViewportTag(viewport);
+  const progressKey = pageKey(pagePath, viewportTag);
+
   for (const interaction of interactions) {
     if (!shouldRunOnPage(interaction, pagePath)) continue;
-    if (isInteractionCaptured(manifest, envName, pagePath, interaction.id)) continue;
-    if (hasSucceeded(interactionLog, envName, pagePath, interaction.id)) continue;
+    if (isInteractionCaptured(manifest, envKey, progressKey, interaction.id)) continue;
+    if (hasSucceeded(interactionLog, envKey, pagePath, interaction.id, viewportTag)) continue;
 
-    const filename = interactionFilename(pagePath, interaction.id);
+    const filename = interactionFilename(pagePath, interaction.id, viewportTag);
     const filepath = path.join(outputDir, filename);
     const startTime = Date.now();
 
@@ -90,8 +105,8 @@ async function captureInteractions(
         });
         await page.waitForTimeout(timeouts.settleDelay);
       } catch {
-        logInteraction(interactionLog, {
-          environment: envName, pagePath,
+        logInteraction(appName, interactionLog, {
+          environment: envKey, pagePath, viewport: viewportTag,
           interactionId: interaction.id, description: interaction.description,
           status: "skipped", error: "Could not navigate to page",
           duration: Date.now() - startTime,
@@ -105,29 +120,35 @@ async function captureInteractions(
     
     if (result.success) {
       try {
-        await page.screenshot({ path: filepath, fullPage: captureOptions.fullPage });
-        markInteractionCaptured(manifest, envName, pagePath, interaction.id);
+        await takeScreenshot(page, {
+          path: filepath,
+          fullPage: captureOptions.fullPage,
+          mask: getMaskSelectors(appName, interaction).map((sel) => page.locator(sel)),
+        });
+        markInteractionCaptured(manifest, envKey, progressKey, interaction.id);
         log.fileSaved(filename);
 
-        registerScreenshot(appName, runId, envName, {
-          id: nextScreenshotId(appName, runId, envName),
+        registerScreenshot(appName, envName, runId, {
+          id: nextScreenshotId(appName, envName, runId),
           page: pagePath,
           file: filename,
-          viewport: getViewportString(),
+          viewport: getViewportString(viewport),
+          viewportName: viewportTag,
+          browser,
           interactionId: interaction.id,
           description: interaction.description,
         });
         
-        logInteraction(interactionLog, {
-          environment: envName, pagePath,
+        logInteraction(appName, interactionLog, {
+          environment: envKey, pagePath, viewport: viewportTag,
           interactionId: interaction.id, description: interaction.description,
           status: "success", screenshotPath: filepath,
           duration: Date.now() - startTime,
         });
       } catch (err) {
         console.log(`      ${style.error(`${symbols.cross} Screenshot failed:`)} ${err}`);
-        logInteraction(interactionLog, {
-          environment: envName, pagePath,
+        logInteraction(appName, interactionLog, {
+          environment: envKey, pagePath, viewport: viewportTag,
           interactionId: interaction.id, description: interaction.description,
           status: "failed", error: `Screenshot failed: ${err}`,
           duration: Date.now() - startTime,
@@ -139,8 +160,8 @@ async function captureInteractions(
         // Silent skip
       } else {
         console.log(`      ${style.error(`${symbols.cross} Failed:`)} ${result.error?.substring(0, 80)}...`);
-        logInteraction(interactionLog, {
-          environment: envName, pagePath,
+        logInteraction(appName, interactionLog, {
+          environment: envKey, pagePath, viewport: viewportTag,
           interactionId: interaction.id, description: interaction.description,
           status: "failed", error: result.error,
           duration: Date.now() - startTime,
@@ -158,24 +179,30 @@ async function capturePages(
   outputDir: string,
   manifest: ProgressManifest,
   envName: string,
+  browser: BrowserName,
   appName: string,
   runId: string,
   interactionLog: InteractionLog,
+  viewport: ResolvedViewport,
   captureInteractionsEnabled: boolean = true,
   shouldStop?: () => boolean,
 ): Promise<void> {
+  const viewportTag = getViewportTag(viewport);
+  const envKey = envBrowserKey(envName, browser);
+
   for (const pagePath of pages) {
     if (shouldStop?.()) {
-      log.warning(`Stop requested — halting page capture for ${envName}`);
+      log.warning(`Stop requested — halting page capture for ${envKey}`);
       return;
     }
-    const alreadyCaptured = isPageCaptured(manifest, envName, pagePath);
+    const progressKey = pageKey(pagePath, viewportTag);
+    const alreadyCaptured = isPageCaptured(manifest, envKey, progressKey);
     
     if (!alreadyCaptured) {
       const url = `${baseUrl}${pagePath}`;
-      const filename = pathToFilename(pagePath);
+      const filename = pathToFilename(pagePath, viewportTag);
       const filepath = path.join(outputDir, filename);
-      const appConfig = getCurrentAppConfig();
+      const appConfig = getAppConfig(appName);
 
       // For auth app: set introductionSeen so /register shows the form
       if (!appConfig.requiresAuth && pagePath === "/register") {
@@ -197,22 +224,28 @@ async function capturePages(
           // Content may still be loading, take screenshot anyway
         }
         await page.waitForTimeout(timeouts.settleDelay);
-        await page.screenshot({ path: filepath, fullPage: captureOptions.fullPage });
-        markPageCaptured(manifest, envName, pagePath);
+        await takeScreenshot(page, {
+          path: filepath,
+          fullPage: captureOptions.fullPage,
+          mask: getMaskSelectors(appName).map((sel) => page.locator(sel)),
+        });
+        markPageCaptured(manifest, envKey, progressKey);
         log.fileSaved(filename);
 
-        registerScreenshot(appName, runId, envName, {
-          id: nextScreenshotId(appName, runId, envName),
+        registerScreenshot(appName, envName, runId, {
+          id: nextScreenshotId(appName, envName, runId),
           page: pagePath,
           file: filename,
-          viewport: getViewportString(),
+          viewport: getViewportString(viewport),
+          viewportName: viewportTag,
+          browser,
         });
       } catch (err) {
         console.log(`    ${style.error(`${symbols.cross} Failed to capture:`)} ${err}`);
         continue;
       }
     } else {
-      console.log(`  ${style.muted(`${symbols.arrow} Skipping ${pagePath} (already captured)`)}`);
+      console.log(`  ${style.muted(`${symbols.arrow} Skipping ${progressKey} (already captured)`)}`);
       if (captureInteractionsEnabled) {
         try {
           await page.goto(`${baseUrl}${pagePath}`, {
@@ -227,48 +260,56 @@ async function capturePages(
     }
 
     if (captureInteractionsEnabled) {
-      await captureInteractions(page, pagePath, baseUrl, outputDir, manifest, envName, appName, runId, interactionLog);
+      await captureInteractions(page, pagePath, baseUrl, outputDir, manifest, envName, browser, appName, runId, interactionLog, viewport);
     }
     console.log("");
   }
 }
 
+const browserTypes: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
 /**
- * Capture a single environment — gets or resumes a run, then captures pages.
+ * Capture a single environment in one browser — gets or resumes a run, then captures pages.
  * Returns { pages, runId }.
  */
 async function captureEnvironment(
   env: EnvConfig,
+  browserName: BrowserName,
   appName: string,
   manifest: ProgressManifest,
   interactionLog: InteractionLog,
   shouldStop?: () => boolean,
+  trigger: RunTrigger = "manual",
 ): Promise<{ pages: string[]; runId: string }> {
-  const appConfig = getCurrentAppConfig();
+  const appConfig = getAppConfig(appName);
 
-  // Get or resume a run for this app+env
-  const run = getOrCreateRun(appName, env.name, env.baseUrl, projectConfig.version);
+  // Get or resume a run for this app+env+browser
+  const run = getOrCreateRun(appName, env.name, env.baseUrl, projectConfig.version, browserName, trigger);
   const outputDir = getRunDir(appName, env.name, run.runId);
+  const envKey = envBrowserKey(env.name, browserName);
 
   if (run.resumed) {
-    log.header(`Resuming run ${run.runId} — ${env.name}`);
+    log.header(`Resuming run ${run.runId} — ${env.name} (${browserName})`);
   } else {
-    log.header(`New run ${run.runId} — ${env.name}`);
+    log.header(`New run ${run.runId} — ${env.name} (${browserName})`);
   }
   console.log(`  ${style.url(env.baseUrl)}\n`);
 
-  if (isEnvironmentComplete(manifest, env.name)) {
-    log.warning(`Skipping environment: ${env.name} (already complete)`);
+  if (isEnvironmentComplete(manifest, envKey)) {
+    log.warning(`Skipping environment: ${envKey} (already complete)`);
     completeRun(appName, env.name, run.runId, run.startTime, "completed");
     return { pages: manifest.discoveredPages, runId: run.runId };
   }
 
   if (!existsSync(outputDir)) mkdirSync(outputDir, { recursive: true });
 
-  const viewport = getViewport();
+  const viewports = getViewports();
   const headless = captureOptions.headless ?? true;
-  const browser = await chromium.launch({ headless });
-  const context = await browser.newContext({ viewport });
+  const browser = await browserTypes[browserName].launch({ headless });
+  const [firstViewport] = viewports;
+  const context = await browser.newContext({
+    viewport: { width: firstViewport!.width, height: firstViewport!.height },
+  });
   const page = await context.newPage();
 
   try {
@@ -286,43 +327,63 @@ async function captureEnvironment(
         // Page may not have the ready selector, continue anyway
       }
     } else {
-      await login(page, env.baseUrl, env.name);
+      await login(page, appName, env.baseUrl, env.name);
     }
 
+    await stabilizeContext(context);
+
     // Reuse already-discovered pages, or discover fresh
     let pages: string[];
     if (manifest.discoveredPages.length > 0) {
       pages = manifest.discoveredPages;
       log.step(`Using ${style.count(pages.length.toString())} previously discovered pages`);
     } else {
-      pages = await discoverPages(page);
+      pages = await discoverPages(page, appName);
       manifest.discoveredPages = pages;
-      saveProgress(manifest);
+      saveProgress(appName, manifest);
     }
 
-    await capturePages(page, pages, env.baseUrl, outputDir, manifest, env.name, appName, run.runId, interactionLog, true, shouldStop);
+    for (const viewport of viewports) {
+      if (shouldStop?.()) break;
+      if (viewports.length > 1) {
+        log.subheader(`Viewport ${viewport.name} (${getViewportString(viewport)})`);
+        await page.setViewportSize({ width: viewport.width, height: viewport.height });
+      }
 
-    // Run registration flow for auth app if enabled
-    if (!appConfig.requiresAuth && appConfig.name === "auth") {
-      const regMode = getRegistrationMode();
-      if (regMode !== "disabled") {
-        const poolInfo = getAvailableTestUsers();
-        if (regMode === "full-flow") {
-          console.log(`  ${style.info(`Test user pool: ${poolInfo.available}/${poolInfo.total} available`)}\n`);
-        }
-        try {
-          await captureRegistrationFlow(page, env.baseUrl, outputDir);
-        } catch (err) {
-          log.error(`Registration flow failed: ${err}`);
+      await capturePages(page, pages, env.baseUrl, outputDir, manifest, env.name, browserName, appName, run.runId, interactionLog, viewport, true, shouldStop);
+
+      // Run registration flow for auth app if enabled
+      if (!appConfig.requiresAuth && appConfig.name === "auth") {
+        const regMode = getRegistrationMode();
+        // Full-flow consumes a test user, so only run it for the first viewport
+        const runRegistration = regMode === "screenshot-only" || (regMode === "full-flow" && viewport === firstViewport);
+        if (runRegistration) {
+          const poolInfo = getAvailableTestUsers();
+          if (regMode === "full-flow") {
+            console.log(`  ${style.info(`Test user pool: ${poolInfo.available}/${poolInfo.total} available`)}\n`);
+          }
+          try {
+            await captureRegistrationFlow(page, env.baseUrl, outputDir, getViewportTag(viewport));
+          } catch (err) {
+            log.error(`Registration flow failed: ${err}`);
+          }
         }
       }
     }
 
-    markEnvironmentComplete(manifest, env.name);
+    markEnvironmentComplete(manifest, envKey);
     completeRun(appName, env.name, run.runId, run.startTime, "completed");
+    notifyWebhooks("run.completed", {
+      app: appName, envs: [env.name], runIds: { [envKey]: run.runId }, trigger, interactionLog,
+      detail: `${pages.length} pages captured (${browserName})`,
+    });
     return { pages, runId: run.runId };
   } catch (err) {
     completeRun(appName, env.name, run.runId, run.startTime, "failed");
+    notifyWebhooks("run.failed", {
+      app: appName, envs: [env.name], runIds: { [envKey]: run.runId }, trigger, interactionLog,
+      detail: String(err),
+    });
     throw err;
   } finally {
     await browser.close();
@@ -330,38 +391,48 @@ async function captureEnvironment(
 }
 
 /**
- * Main entry point — captures each environment with its own run.
+ * Main entry point — captures each environment × browser of an app with its own run.
  * Incomplete runs are automatically resumed instead of duplicated.
+ * `envNames` limits the capture to those environments (default: all);
+ * `trigger` is recorded on new runs.
  */
 export async function captureAll(
+  appName: string,
   manifest?: ProgressManifest,
   interactionLog?: InteractionLog,
   shouldStop?: () => boolean,
+  envNames?: string[],
+  trigger: RunTrigger = "manual",
 ): Promise<{ pages: string[]; manifest: ProgressManifest; log: InteractionLog; runIds: Record<string, string> }> {
-  const m = manifest ?? createFreshManifest();
+  const m = manifest ?? createFreshManifest(appName);
   const l = interactionLog ?? createFreshLog();
-  const appName = getCurrentApp();
   let discoveredPages: string[] = m.discoveredPages;
   const runIds: Record<string, string> = {};
 
-  const envNames = environments.map((e) => e.name);
+  const targets = envNames ? environments.filter((e) => envNames.includes(e.name)) : environments;
+  const browsers = getBrowsers();
   log.header(`Capturing ${appName}`);
-  console.log(`  ${style.muted(`Environments: ${envNames.join(", ")}`)}\n`);
+  console.log(`  ${style.muted(`Environments: ${targets.map((e) => e.name).join(", ")}`)}`);
+  console.log(`  ${style.muted(`Browsers: ${browsers.join(", ")}`)}\n`);
 
-  for (const env of environments) {
+  for (const env of targets) {
     if (shouldStop?.()) {
       log.warning("Stop requested — halting capture between environments");
       break;
     }
-    try {
-      const result = await captureEnvironment(env, appName, m, l, shouldStop);
-      runIds[env.name] = result.runId;
-      if (discoveredPages.length === 0) {
-        discoveredPages = result.pages;
+    for (const browser of browsers) {
+      if (shouldStop?.()) break;
+      const envKey = envBrowserKey(env.name, browser);
+      try {
+        const result = await captureEnvironment(env, browser, appName, m, l, shouldStop, trigger);
+        runIds[envKey] = result.runId;
+        if (discoveredPages.length === 0) {
+          discoveredPages = result.pages;
+        }
+      } catch (err) {
+        log.error(`Failed to capture environment ${envKey}: ${err}`);
+        console.log("  Continuing to next environment...\n");
       }
-    } catch (err) {
-      log.error(`Failed to capture environment ${env.name}: ${err}`);
-      console.log("  Continuing to next environment...\n");
     }
   }
 
@@ -376,7 +447,7 @@ export async function captureAll(
 
   printLogSummary(l);
   if (l.summary.failed > 0) {
-    const reportPath = saveFailureReport(l);
+    const reportPath = saveFailureReport(appName, l);
     log.fileSaved(reportPath, "Failure report");
   }
 
@@ -385,7 +456,7 @@ export async function captureAll(
 
 // Allow running standalone
 if (import.meta.main) {
-  captureAll()
+  captureAll(process.argv[2] ?? DEFAULT_APP)
     .then(({ pages, log: l, runIds }) => {
       const ids = Object.entries(runIds).map(([e, id]) => `${e}:${id}`).join(", ");
       log.success(`Done! ${pages.length} pages captured. Runs: ${ids}`);
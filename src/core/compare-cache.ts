@@ -0,0 +1,178 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { getAppDir, hashScreenshot } from "./runs";
+import { loadLandmarks } from "./landmarks";
+import { readPngSize, type DiffJob, type DiffOutcome } from "./diff";
+import type { BaselineManifest, RunManifest } from "../types/config";
+
+/**
+ * Compare cache — diff outcomes keyed by the content hashes of both
+ * screenshots plus everything else that shapes the diff (settings, masks,
+ * landmarks). Re-running compare or report on unchanged screenshots
+ * restores the stored outcome and diff images instead of decoding again.
+ *
+ * Directory structure:
+ *   captures/
+ *     {app}/
+ *       cache/
+ *         compare/
+ *           {key}.json        ← DiffOutcome (metrics, regions, bands)
+ *           {key}.png         ← diff image
+ *           {key}.ssim.png    ← SSIM heatmap (when SSIM was enabled)
+ */
+
+/** Bump when diff.ts output changes so stale entries stop matching */
+const CACHE_VERSION = 1;
+
+/** Settings that don't change the diff itself (severity is computed afterwards) */
+const IGNORED_SETTINGS = [
+  "warnThreshold", "failThreshold", "ssimWarnBelow", "ssimFailBelow",
+  "envPairing", "referenceEnv", "workers",
+] as const;
+
+/** Cached outcome — image paths are stored next to it, not inside */
+type CachedOutcome = Omit<DiffOutcome, "filename" | "diffScreenshot" | "ssimHeatmap"> & {
+  hasHeatmap: boolean;
+};
+
+/** captures/{app}/cache/compare */
+export function getCacheDir(app: string): string {
+  return path.join(getAppDir(app), "cache", "compare");
+}
+
+// ============================================
+// HASHES
+// ============================================
+
+/**
+ * Hashes recorded for a directory's screenshots — from its run-manifest.json
+ * or baseline.json. Files missing here are hashed on demand.
+ */
+export function loadKnownHashes(dir: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  try {
+    const runManifest = path.join(dir, "run-manifest.json");
+    const baselineManifest = path.join(dir, "baseline.json");
+    if (fs.existsSync(runManifest)) {
+      const run = JSON.parse(fs.readFileSync(runManifest, "utf-8")) as RunManifest;
+      for (const entry of run.screenshots) if (entry.hash) hashes.set(entry.file, entry.hash);
+    } else if (fs.existsSync(baselineManifest)) {
+      const baseline = JSON.parse(fs.readFileSync(baselineManifest, "utf-8")) as BaselineManifest;
+      for (const entry of Object.values(baseline.entries)) if (entry.hash) hashes.set(entry.file, entry.hash);
+    }
+  } catch {
+    // Unreadable manifest — every file gets hashed instead
+  }
+  return hashes;
+}
+
+/**
+ * Hash of `dir/file`, preferring the one recorded at capture time
+ */
+export function getScreenshotHash(dir: string, file: string, known: Map<string, string>): string {
+  return known.get(file) ?? hashScreenshot(path.join(dir, file));
+}
+
+/**
+ * Cache key for a job — both content hashes, the diff-relevant settings,
+ * mask rectangles and the landmarks used to name regions
+ */
+export function getCacheKey(hash1: string, hash2: string, job: DiffJob): string {
+  const settings: Record<string, unknown> = { ...job.settings };
+  for (const key of IGNORED_SETTINGS) delete settings[key];
+
+  const landmarks = loadLandmarks(job.path1);
+  return createHash("sha256")
+    .update(JSON.stringify({
+      version: CACHE_VERSION,
+      hash1,
+      hash2,
+      settings,
+      maskRects: job.maskRects,
+      landmarks: landmarks.length > 0 ? landmarks : loadLandmarks(job.path2),
+    }))
+    .digest("hex");
+}
+
+// ============================================
+// SHORT-CIRCUIT
+// ============================================
+
+/**
+ * Outcome for byte-identical screenshots: 0% diff without decoding either
+ * image. No diff image is written — reports show the pair as identical.
+ */
+export function identicalOutcome(job: DiffJob): DiffOutcome {
+  const { width, height } = readPngSize(job.path1);
+  // A diff image from an earlier, changed comparison no longer applies
+  fs.rmSync(path.join(job.diffDir, job.filename), { force: true });
+
+  return {
+    filename: job.filename,
+    diffPixels: 0,
+    totalPixels: width * height,
+    imageWidth: width,
+    imageHeight: height,
+    diffPercentage: 0,
+    regions: [],
+    ssim: job.settings.ssim || job.settings.metric === "ssim" ? 1 : undefined,
+    diffScreenshot: "",
+  };
+}
+
+// ============================================
+// READ / WRITE
+// ============================================
+
+/**
+ * Restore a cached outcome for `job`, copying its diff image (and heatmap)
+ * into the job's diff directory. Returns null on a miss.
+ */
+export function loadCachedOutcome(app: string, key: string, job: DiffJob): DiffOutcome | null {
+  const base = path.join(getCacheDir(app), key);
+  if (!fs.existsSync(`${base}.json`) || !fs.existsSync(`${base}.png`)) return null;
+
+  let cached: CachedOutcome;
+  try {
+    cached = JSON.parse(fs.readFileSync(`${base}.json`, "utf-8")) as CachedOutcome;
+  } catch {
+    return null;
+  }
+  if (cached.hasHeatmap && !fs.existsSync(`${base}.ssim.png`)) return null;
+
+  if (!fs.existsSync(job.diffDir)) fs.mkdirSync(job.diffDir, { recursive: true });
+  const diffScreenshot = path.join(job.diffDir, job.filename);
+  fs.copyFileSync(`${base}.png`, diffScreenshot);
+
+  let ssimHeatmap: string | undefined;
+  if (cached.hasHeatmap) {
+    const heatmapDir = path.join(job.diffDir, "ssim");
+    if (!fs.existsSync(heatmapDir)) fs.mkdirSync(heatmapDir, { recursive: true });
+    ssimHeatmap = path.join(heatmapDir, job.filename);
+    fs.copyFileSync(`${base}.ssim.png`, ssimHeatmap);
+  }
+
+  // Mark the entry as used — retention expires entries by this time
+  const now = new Date();
+  fs.utimesSync(`${base}.json`, now, now);
+
+  const { hasHeatmap: _hasHeatmap, ...metrics } = cached;
+  return { ...metrics, filename: job.filename, diffScreenshot, ssimHeatmap };
+}
+
+/**
+ * Store a freshly computed outcome and its images under `key`
+ */
+export function saveCachedOutcome(app: string, key: string, outcome: DiffOutcome): void {
+  const dir = getCacheDir(app);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const base = path.join(dir, key);
+
+  const { filename: _filename, diffScreenshot, ssimHeatmap, ...metrics } = outcome;
+  fs.copyFileSync(diffScreenshot, `${base}.png`);
+  if (ssimHeatmap) fs.copyFileSync(ssimHeatmap, `${base}.ssim.png`);
+
+  const cached: CachedOutcome = { ...metrics, hasHeatmap: ssimHeatmap !== undefined };
+  fs.writeFileSync(`${base}.json`, JSON.stringify(cached), "utf-8");
+}
@@ -0,0 +1,19 @@
+/**
+ * Compare worker — thread entry point for the pool in core/worker-pool.ts.
+ * Receives one DiffJob per message and answers with its DiffOutcome.
+ */
+
+import { diffScreenshots, type DiffJob } from "./diff";
+import type { WorkerReply } from "./worker-pool";
+
+declare const self: Worker;
+
+self.onmessage = (event: MessageEvent<DiffJob>) => {
+  let reply: WorkerReply;
+  try {
+    reply = { ok: true, result: diffScreenshots(event.data) };
+  } catch (err) {
+    reply = { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(reply);
+};
@@ -1,28 +1,92 @@
 import fs from "fs";
 import path from "path";
-import { PNG } from "pngjs";
-import pixelmatch from "pixelmatch";
-import { environments, getCurrentApp } from "./config";
+import {
+  environments,
+  DEFAULT_APP,
+  getBrowsers,
+  getAppConfig,
+  getMaskRegions,
+  getCompareSettings,
+  getPageCompareOverrides,
+  resolvePagePath,
+  getResultSeverity,
+  getEnvPairs,
+  DEFAULT_BROWSER,
+  type BrowserName,
+  type DiffSeverity,
+} from "./config";
 import {
   getRunDir,
   getDiffPairDir,
   getLatestCompletedRun,
   loadRunManifest,
 } from "./runs";
-import { log, style, symbols } from "../utils/terminal";
-import { parseFilename, pageSlug } from "../utils/paths";
+import { log, style, symbols, severityStyle } from "../utils/terminal";
+import { parseFilename } from "../utils/paths";
+import type { BaselineManifest, RunManifest } from "../types/config";
+import type { DiffRegion } from "./regions";
+import type { Band } from "./bands";
+import { readPngSize, type DiffJob, type DiffOutcome } from "./diff";
+import { runInWorkers } from "./worker-pool";
+import {
+  loadKnownHashes,
+  getScreenshotHash,
+  getCacheKey,
+  identicalOutcome,
+  loadCachedOutcome,
+  saveCachedOutcome,
+} from "./compare-cache";
+import { broadcastProgress } from "./log-stream";
+import { getBaselineDir, hasBaseline, loadBaseline } from "./baseline";
+import { saveDiffManifest, type DiffSource } from "./diff-manifest";
+import { recordComparison } from "./history";
+
+/** Worker thread entry that runs diffScreenshots() for the pool */
+const COMPARE_WORKER_URL = new URL("./compare-worker.ts", import.meta.url);
+
+/**
+ * "compared" — both sides have the screenshot;
+ * "added" — only the second side has it (new page/interaction);
+ * "removed" — only the first side has it (page/interaction disappeared);
+ * "error" — both sides have it but the pair couldn't be diffed (corrupt PNG, out of memory).
+ */
+export type ResultStatus = "compared" | "added" | "removed" | "error";
 
 export interface ComparisonResult {
   pagePath: string;
   filename: string;
+  /**
+   * Added/removed results have one screenshot, no diff image and fail —
+   * error results have both screenshots, no diff image and always fail —
+   * except in baseline comparisons, where a screenshot that was never
+   * approved is "added" at severity "warn" until someone approves it
+   */
+  status: ResultStatus;
   diffPixels: number;
   totalPixels: number;
+  /** Compared image size (the larger of the two screenshots) */
+  imageWidth: number;
+  imageHeight: number;
   diffPercentage: number;
-  /** Path to the first source screenshot */
+  /** Bands only in the second/first screenshot — set when `compare.alignment` is "bands" */
+  insertedBands?: Band[];
+  removedBands?: Band[];
+  /** Connected regions of changed pixels, numbered top-to-bottom */
+  regions: DiffRegion[];
+  /** Structural similarity, 0–1 (1 = identical) — only when SSIM is enabled */
+  ssim?: number;
+  /** pass/warn/fail by the configured metric against this page's thresholds */
+  severity: DiffSeverity;
+  /** Path to the first source screenshot ("" for added results) */
   env1Screenshot: string;
-  /** Path to the second source screenshot */
+  /** Path to the second source screenshot ("" for removed results) */
   env2Screenshot: string;
+  /** Path to the diff image ("" for added/removed/error results and byte-identical pairs) */
   diffScreenshot: string;
+  /** Why the pair couldn't be diffed — only on "error" results */
+  error?: string;
+  /** Path to the SSIM heatmap — only when SSIM is enabled */
+  ssimHeatmap?: string;
   /** Labels for display */
   env1Label: string;
   env2Label: string;
@@ -30,35 +94,32 @@ export interface ComparisonResult {
   interactionId?: string;
   /** Human-readable description for interactions */
   description?: string;
+  /** Viewport tag when captured as part of a viewport matrix (e.g., "mobile") */
+  viewport?: string;
+  /** Browser engine of each side (differs for cross-browser comparisons) */
+  env1Browser?: BrowserName;
+  env2Browser?: BrowserName;
+  /** Environment of each side — set for cross-env comparisons (drives the report's grid view) */
+  env1Name?: string;
+  env2Name?: string;
+  /** Run whose screenshot can be approved into the baseline from the report */
+  candidate?: BaselineCandidate;
 }
 
-function readPng(filepath: string): PNG {
-  const buffer = fs.readFileSync(filepath);
-  return PNG.sync.read(buffer);
-}
-
-function resizeToMatch(img: PNG, targetWidth: number, targetHeight: number): PNG {
-  if (img.width === targetWidth && img.height === targetHeight) return img;
-
-  const resized = new PNG({ width: targetWidth, height: targetHeight });
-  resized.data.fill(255);
-  for (let y = 0; y < Math.min(img.height, targetHeight); y++) {
-    for (let x = 0; x < Math.min(img.width, targetWidth); x++) {
-      const srcIdx = (y * img.width + x) * 4;
-      const dstIdx = (y * targetWidth + x) * 4;
-      resized.data[dstIdx] = img.data[srcIdx]!;
-      resized.data[dstIdx + 1] = img.data[srcIdx + 1]!;
-      resized.data[dstIdx + 2] = img.data[srcIdx + 2]!;
-      resized.data[dstIdx + 3] = img.data[srcIdx + 3]!;
-    }
-  }
-  return resized;
+/**
+ * The app/env/run a compared screenshot was captured in — the side a
+ * reviewer approves or rejects.
+ */
+export interface BaselineCandidate {
+  app: string;
+  env: string;
+  runId: string;
 }
 
-function getDiffStyle(pct: number): (text: string) => string {
-  if (pct < 1) return style.success;
-  if (pct < 5) return style.warning;
-  return style.error;
+/** "2 bands inserted (48px)" */
+function describeBands(bands: Band[], verb: string): string {
+  const px = bands.reduce((sum, b) => sum + b.height, 0);
+  return `${bands.length} band${bands.length === 1 ? "" : "s"} ${verb}${px > 0 ? ` (${px}px)` : ""}`;
 }
 
 function listPngs(dir: string): string[] {
@@ -66,38 +127,116 @@ function listPngs(dir: string): string[] {
   return fs.readdirSync(dir).filter((f) => f.endsWith(".png"));
 }
 
+/**
+ * Page paths recorded for a directory's screenshots — from its
+ * run-manifest.json or baseline.json
+ */
+function loadRecordedPages(dir: string): Map<string, string> {
+  const pages = new Map<string, string>();
+  try {
+    const runManifest = path.join(dir, "run-manifest.json");
+    const baselineManifest = path.join(dir, "baseline.json");
+    if (fs.existsSync(runManifest)) {
+      const run = JSON.parse(fs.readFileSync(runManifest, "utf-8")) as RunManifest;
+      for (const entry of run.screenshots) pages.set(entry.file, entry.page);
+    } else if (fs.existsSync(baselineManifest)) {
+      const baseline = JSON.parse(fs.readFileSync(baselineManifest, "utf-8")) as BaselineManifest;
+      for (const entry of Object.values(baseline.entries)) pages.set(entry.file, entry.page);
+    }
+  } catch {
+    // Unreadable manifest — pages are resolved from the config and filename
+  }
+  return pages;
+}
+
+/**
+ * Warn about mask regions and per-page compare overrides keyed by a page path
+ * none of the compared screenshots belong to — usually a typo or a page that
+ * is no longer captured
+ */
+function warnUnmatchedPages(app: string, comparedPages: Set<string>): void {
+  for (const pagePath of Object.keys(getAppConfig(app).maskRegions)) {
+    if (!comparedPages.has(pagePath)) log.warning(`Mask regions for ${pagePath} match no compared screenshot`);
+  }
+  for (const pagePath of Object.keys(getPageCompareOverrides(app))) {
+    if (!comparedPages.has(pagePath)) log.warning(`Compare settings for ${pagePath} match no compared screenshot`);
+  }
+}
+
 /**
  * Core comparison engine — compares two directories of screenshots,
  * writing diff images to the specified output directory.
+ * Byte-identical pairs and pairs found in the compare cache are reused;
+ * the rest are diffed on a pool of `compare.workers` worker threads.
+ * Progress is logged and broadcast as each one finishes.
+ * Screenshots only on one side get severity "fail", or `addedSeverity`
+ * when only the second side has them. Pairs that can't be diffed come
+ * back as "error" results at severity "fail".
  */
-function compareDirs(
+async function compareDirs(
+  app: string,
   dir1: string,
   dir2: string,
   diffDir: string,
   label1: string,
   label2: string,
-): ComparisonResult[] {
+  browser1: BrowserName = DEFAULT_BROWSER,
+  browser2: BrowserName = DEFAULT_BROWSER,
+  candidate?: BaselineCandidate,
+  addedSeverity: DiffSeverity = "fail",
+): Promise<ComparisonResult[]> {
   if (!fs.existsSync(diffDir)) fs.mkdirSync(diffDir, { recursive: true });
 
   const files1 = listPngs(dir1);
   const files2 = listPngs(dir2);
 
-  // Build slug → filename maps (filenames are identical slug.png in both dirs)
+  // Build slug → filename maps (filenames are identical slug.png in both dirs).
+  // Viewport tags are part of the filename, so only same-viewport shots pair up.
   const set1 = new Set(files1);
   const set2 = new Set(files2);
   const allFiles = new Set([...files1, ...files2]);
 
-  const results: ComparisonResult[] = [];
+  // Slugs are lossy — take page paths from the manifests where recorded
+  const pages1 = loadRecordedPages(dir1);
+  const pages2 = loadRecordedPages(dir2);
+  const pageOf = (filename: string) => resolvePagePath(app, filename, pages2.get(filename) ?? pages1.get(filename));
 
   log.header(`Comparing: ${label1} vs ${label2}`);
   console.log(`  ${style.muted(`Files to compare: ${allFiles.size}`)}\n`);
 
+  const jobs: DiffJob[] = [];
+  const results: ComparisonResult[] = [];
   for (const filename of [...allFiles].sort()) {
     if (!set1.has(filename) || !set2.has(filename)) {
-      if (!filename.includes("__")) {
-        const missing = !set1.has(filename) ? label1 : label2;
-        log.warning(`Skipping ${filename}: missing in ${missing}`);
-      }
+      const status: ResultStatus = set1.has(filename) ? "removed" : "added";
+      const present = path.join(status === "removed" ? dir1 : dir2, filename);
+      const { width, height } = readPngSize(present);
+      const { interactionId, viewport } = parseFilename(filename);
+      const pagePath = pageOf(filename);
+      results.push({
+        pagePath,
+        filename,
+        status,
+        diffPixels: width * height,
+        totalPixels: width * height,
+        imageWidth: width,
+        imageHeight: height,
+        diffPercentage: 100,
+        regions: [],
+        severity: status === "added" ? addedSeverity : "fail",
+        env1Screenshot: status === "removed" ? present : "",
+        env2Screenshot: status === "added" ? present : "",
+        diffScreenshot: "",
+        env1Label: label1,
+        env2Label: label2,
+        interactionId,
+        description: interactionId ? `Interaction: ${interactionId}` : undefined,
+        viewport,
+        env1Browser: browser1,
+        env2Browser: browser2,
+        candidate: status === "added" ? candidate : undefined,
+      });
+      log.warning(`${status === "added" ? "Added" : "Removed"}: ${filename} (only in ${status === "added" ? label2 : label1})`);
       continue;
     }
 
@@ -105,130 +244,419 @@ function compareDirs(
     const path2 = path.join(dir2, filename);
     if (!fs.existsSync(path1) || !fs.existsSync(path2)) continue;
 
-    const parsed = parseFilename(filename);
-    const { pagePath, interactionId } = parsed;
-
-    if (interactionId) {
-      console.log(`  ${symbols.tee} ${style.path(pagePath)} ${style.muted(`[${interactionId}]`)}`);
-    } else {
-      console.log(`  ${symbols.tee} ${style.path(pagePath)}`);
-    }
-
-    let img1 = readPng(path1);
-    let img2 = readPng(path2);
-
-    const maxWidth = Math.max(img1.width, img2.width);
-    const maxHeight = Math.max(img1.height, img2.height);
-    img1 = resizeToMatch(img1, maxWidth, maxHeight);
-    img2 = resizeToMatch(img2, maxWidth, maxHeight);
+    const pagePath = pageOf(filename);
+    jobs.push({
+      filename,
+      path1,
+      path2,
+      diffDir,
+      settings: getCompareSettings(app, pagePath),
+      maskRects: getMaskRegions(app, pagePath),
+    });
+  }
 
-    const diff = new PNG({ width: maxWidth, height: maxHeight });
-    const diffPixels = pixelmatch(
-      img1.data,
-      img2.data,
-      diff.data,
-      maxWidth,
-      maxHeight,
-      { threshold: 0.1, diffColor: [255, 0, 0] }
-    );
+  warnUnmatchedPages(app, new Set([...allFiles].map(pageOf)));
 
-    const totalPixels = maxWidth * maxHeight;
-    const diffPercentage = (diffPixels / totalPixels) * 100;
+  // Unchanged pairs skip the workers: identical bytes are 0% outright,
+  // previously diffed hash pairs come back from the compare cache
+  const hashes1 = loadKnownHashes(dir1);
+  const hashes2 = loadKnownHashes(dir2);
+  const pending: Array<{ job: DiffJob; key: string }> = [];
+  let done = 0;
+  let reused = 0;
 
-    const diffPath = path.join(diffDir, filename);
-    fs.writeFileSync(diffPath, PNG.sync.write(diff));
+  const record = (job: DiffJob, outcome: DiffOutcome, source?: "cached" | "identical") => {
+    done++;
+    const { interactionId, viewport } = parseFilename(outcome.filename);
+    const pagePath = pageOf(outcome.filename);
+    const severity = getResultSeverity(outcome.diffPercentage, outcome.ssim, job.settings);
 
+    const { filename: _filename, ...metrics } = outcome;
     results.push({
+      ...metrics,
       pagePath,
-      filename,
-      diffPixels,
-      totalPixels,
-      diffPercentage,
-      env1Screenshot: path1,
-      env2Screenshot: path2,
-      diffScreenshot: diffPath,
+      filename: outcome.filename,
+      status: "compared",
+      severity,
+      env1Screenshot: job.path1,
+      env2Screenshot: job.path2,
       env1Label: label1,
       env2Label: label2,
       interactionId,
       description: interactionId ? `Interaction: ${interactionId}` : undefined,
+      viewport,
+      env1Browser: browser1,
+      env2Browser: browser2,
+      candidate,
     });
 
-    const diffStyleFn = getDiffStyle(diffPercentage);
-    console.log(`    ${diffStyleFn(`${diffPercentage.toFixed(2)}%`)} ${style.muted(`(${diffPixels}/${totalPixels} px)`)}`);
+    const viewportNote = viewport ? ` ${style.muted(`@${viewport}`)}` : "";
+    const interactionNote = interactionId ? ` ${style.muted(`[${interactionId}]`)}` : "";
+    const sourceNote = source ? ` ${style.muted(`(${source})`)}` : "";
+    console.log(`  ${symbols.tee} ${style.muted(`[${done}/${jobs.length}]`)} ${style.path(pagePath)}${viewportNote}${interactionNote}${sourceNote}`);
+
+    const diffStyleFn = severityStyle(severity);
+    const ssimNote = outcome.ssim !== undefined ? ` ${style.muted("SSIM")} ${outcome.ssim.toFixed(4)}` : "";
+    console.log(`    ${diffStyleFn(`${outcome.diffPercentage.toFixed(2)}%`)} ${style.muted(`(${outcome.diffPixels}/${outcome.totalPixels} px)`)}${ssimNote}`);
+    const inserted = outcome.insertedBands ?? [];
+    const removed = outcome.removedBands ?? [];
+    if (inserted.length > 0 || removed.length > 0) {
+      console.log(`    ${style.muted(`Shifted content: ${describeBands(inserted, "inserted")}, ${describeBands(removed, "removed")}`)}`);
+    }
+    if (outcome.regions.length > 0) {
+      const names = outcome.regions.map((r) => r.label).join(", ");
+      console.log(`    ${style.muted(`${outcome.regions.length} region${outcome.regions.length > 1 ? "s" : ""} changed: ${names}`)}`);
+    }
+
+    broadcastProgress({ phase: "comparing", done, total: jobs.length, detail: outcome.filename });
+  };
+
+  for (const job of jobs) {
+    const hash1 = getScreenshotHash(dir1, job.filename, hashes1);
+    const hash2 = getScreenshotHash(dir2, job.filename, hashes2);
+    if (hash1 === hash2) {
+      reused++;
+      record(job, identicalOutcome(job), "identical");
+      continue;
+    }
+    const key = getCacheKey(hash1, hash2, job);
+    const cached = loadCachedOutcome(app, key, job);
+    if (cached) {
+      reused++;
+      record(job, cached, "cached");
+    } else {
+      pending.push({ job, key });
+    }
+  }
+
+  if (reused > 0) {
+    console.log(`  ${style.muted(`${reused} unchanged pair${reused === 1 ? "" : "s"} reused, ${pending.length} to diff`)}`);
   }
 
-  return results;
+  const poolSize = getCompareSettings(app).workers;
+  await runInWorkers<DiffJob, DiffOutcome>(
+    COMPARE_WORKER_URL,
+    pending.map((p) => p.job),
+    poolSize,
+    (outcome) => {
+      const { job, key } = pending.find((p) => p.job.filename === outcome.filename)!;
+      saveCachedOutcome(app, key, outcome);
+      record(job, outcome);
+    },
+    // A pair that can't be diffed (corrupt PNG, out of memory) fails on its own, not the whole comparison
+    (job, error) => {
+      done++;
+      const { interactionId, viewport } = parseFilename(job.filename);
+      results.push({
+        pagePath: pageOf(job.filename),
+        filename: job.filename,
+        status: "error",
+        diffPixels: 0,
+        totalPixels: 0,
+        imageWidth: 0,
+        imageHeight: 0,
+        diffPercentage: 100,
+        regions: [],
+        severity: "fail",
+        env1Screenshot: job.path1,
+        env2Screenshot: job.path2,
+        diffScreenshot: "",
+        error,
+        env1Label: label1,
+        env2Label: label2,
+        interactionId,
+        description: interactionId ? `Interaction: ${interactionId}` : undefined,
+        viewport,
+        env1Browser: browser1,
+        env2Browser: browser2,
+      });
+      log.error(`Could not diff ${job.filename}: ${error}`);
+      broadcastProgress({ phase: "comparing", done, total: jobs.length, detail: job.filename });
+    },
+  );
+
+  // Workers finish out of order — keep reports and summaries stable
+  return results.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+/** Browser a run was captured with (legacy runs default to chromium) */
+function runBrowser(app: string, env: string, runId: string): BrowserName {
+  return loadRunManifest(app, env, runId)?.browser ?? DEFAULT_BROWSER;
+}
+
+/** Display label for a run — the browser is only spelled out when it isn't the default */
+function runLabel(env: string, runId: string, browser: BrowserName): string {
+  return browser === DEFAULT_BROWSER ? `${env} (${runId})` : `${env} (${runId}, ${browser})`;
+}
+
+/** Manifest entry for a run side of a comparison */
+function runSource(app: string, env: string, runId: string, label: string): DiffSource {
+  const run = loadRunManifest(app, env, runId);
+  return { label, env, runId, browser: run?.browser ?? DEFAULT_BROWSER, capturedAt: run?.timestamp };
+}
+
+/** Diff folder suffix — keeps per-browser diffs apart without renaming chromium's */
+function browserSuffix(browser: BrowserName): string {
+  return browser === DEFAULT_BROWSER ? "" : `-${browser}`;
 }
 
 // ============================================
 // PUBLIC API
 // ============================================
 
+// Each comparison below writes diff-manifest.json next to its diff images
+// (see diff-manifest.ts) so reports can be rebuilt without comparing again.
+
 /**
  * Cross-environment comparison using the latest completed run of each env.
  * e.g., captures/auth/develop/260217-001/ vs captures/auth/local/260217-001/
- * Diffs go to captures/auth/diffs/develop-vs-local/
+ * Diffs go to captures/auth/diffs/develop-vs-local/ (develop-vs-local-webkit/ for WebKit runs)
  */
-export function compareCrossEnv(
+export async function compareCrossEnv(
   app: string,
   env1: string,
   env1RunId: string,
   env2: string,
   env2RunId: string,
-): ComparisonResult[] {
+): Promise<ComparisonResult[]> {
   const dir1 = getRunDir(app, env1, env1RunId);
   const dir2 = getRunDir(app, env2, env2RunId);
-  const diffLabel = `${env1}-vs-${env2}`;
+  const browser1 = runBrowser(app, env1, env1RunId);
+  const browser2 = runBrowser(app, env2, env2RunId);
+  const diffLabel = browser1 === browser2
+    ? `${env1}-vs-${env2}${browserSuffix(browser1)}`
+    : `${env1}-${browser1}-vs-${env2}-${browser2}`;
   const diffDir = getDiffPairDir(app, diffLabel);
 
-  return compareDirs(dir1, dir2, diffDir, `${env1} (${env1RunId})`, `${env2} (${env2RunId})`);
+  const label1 = runLabel(env1, env1RunId, browser1);
+  const label2 = runLabel(env2, env2RunId, browser2);
+  const results = (await compareDirs(
+    app, dir1, dir2, diffDir,
+    label1, label2,
+    browser1, browser2,
+    { app, env: env2, runId: env2RunId },
+  )).map((r) => ({ ...r, env1Name: env1, env2Name: env2 }));
+
+  recordComparison(saveDiffManifest(app, diffLabel, [
+    runSource(app, env1, env1RunId, label1),
+    runSource(app, env2, env2RunId, label2),
+  ], results));
+  return results;
 }
 
 /**
- * Cross-run comparison for the same environment.
- * e.g., captures/auth/develop/260217-002/ vs captures/auth/develop/260217-001/
- * Diffs go to captures/auth/diffs/develop-260217-002-vs-001/
+ * Cross-run comparison for the same environment — the previous run is the
+ * first side, so pages only in the current run are "added".
+ * e.g., captures/auth/develop/260217-001/ vs captures/auth/develop/260217-002/
+ * Diffs go to captures/auth/diffs/develop-260217-001-vs-260217-002/
  */
-export function compareCrossRun(
+export async function compareCrossRun(
   app: string,
   env: string,
   currentRunId: string,
   previousRunId: string,
-): ComparisonResult[] {
-  const dir1 = getRunDir(app, env, currentRunId);
-  const dir2 = getRunDir(app, env, previousRunId);
-  const diffLabel = `${env}-${currentRunId}-vs-${previousRunId}`;
+): Promise<ComparisonResult[]> {
+  const dir1 = getRunDir(app, env, previousRunId);
+  const dir2 = getRunDir(app, env, currentRunId);
+  const browser1 = runBrowser(app, env, previousRunId);
+  const browser2 = runBrowser(app, env, currentRunId);
+  const diffLabel = `${env}-${previousRunId}-vs-${currentRunId}`;
+  const diffDir = getDiffPairDir(app, diffLabel);
+
+  const label1 = runLabel(env, previousRunId, browser1);
+  const label2 = runLabel(env, currentRunId, browser2);
+  const results = await compareDirs(
+    app, dir1, dir2, diffDir,
+    label1, label2,
+    browser1, browser2,
+    { app, env, runId: currentRunId },
+  );
+
+  recordComparison(saveDiffManifest(app, diffLabel, [
+    runSource(app, env, previousRunId, label1),
+    runSource(app, env, currentRunId, label2),
+  ], results));
+  return results;
+}
+
+/**
+ * Cross-browser comparison for the same environment — two runs captured
+ * with different engines, e.g. develop/260217-001 (chromium) vs develop/260217-002 (webkit).
+ * Diffs go to captures/auth/diffs/develop-chromium-vs-webkit/
+ */
+export async function compareCrossBrowser(
+  app: string,
+  env: string,
+  run1Id: string,
+  run2Id: string,
+): Promise<ComparisonResult[]> {
+  const dir1 = getRunDir(app, env, run1Id);
+  const dir2 = getRunDir(app, env, run2Id);
+  const browser1 = runBrowser(app, env, run1Id);
+  const browser2 = runBrowser(app, env, run2Id);
+  const diffLabel = `${env}-${browser1}-vs-${browser2}`;
+  const diffDir = getDiffPairDir(app, diffLabel);
+
+  const label1 = `${env} ${browser1} (${run1Id})`;
+  const label2 = `${env} ${browser2} (${run2Id})`;
+  const results = await compareDirs(
+    app, dir1, dir2, diffDir,
+    label1, label2,
+    browser1, browser2,
+    { app, env, runId: run2Id },
+  );
+
+  recordComparison(saveDiffManifest(app, diffLabel, [
+    runSource(app, env, run1Id, label1),
+    runSource(app, env, run2Id, label2),
+  ], results));
+  return results;
+}
+
+/**
+ * Baseline comparison — the approved baseline vs a run of the same env and browser.
+ * e.g., captures/auth/baselines/develop/ vs captures/auth/develop/260217-002/
+ * Diffs go to captures/auth/diffs/develop-baseline-vs-260217-002/
+ *
+ * Screenshots the baseline doesn't have yet (new pages, or a baseline that
+ * was only partly approved) come back "added" at severity "warn": they need
+ * a review, not a fix. Baseline screenshots missing from the run still fail.
+ */
+export async function compareAgainstBaseline(
+  app: string,
+  env: string,
+  runId: string,
+): Promise<ComparisonResult[]> {
+  const browser = runBrowser(app, env, runId);
+  const dir1 = getBaselineDir(app, env, browser);
+  const dir2 = getRunDir(app, env, runId);
+  const diffLabel = `${env}-baseline-vs-${runId}${browserSuffix(browser)}`;
   const diffDir = getDiffPairDir(app, diffLabel);
 
-  return compareDirs(dir1, dir2, diffDir, `${env} (${currentRunId})`, `${env} (${previousRunId})`);
+  const baselineLabel = browser === DEFAULT_BROWSER ? `${env} (baseline)` : `${env} (baseline, ${browser})`;
+  const candidateLabel = runLabel(env, runId, browser);
+  const results = await compareDirs(
+    app, dir1, dir2, diffDir,
+    baselineLabel, candidateLabel,
+    browser, browser,
+    { app, env, runId },
+    "warn",
+  );
+
+  const baseline = loadBaseline(app, env, browser);
+  recordComparison(saveDiffManifest(app, diffLabel, [
+    { label: baselineLabel, env, baseline: true, browser, capturedAt: baseline.updatedAt || undefined },
+    runSource(app, env, runId, candidateLabel),
+  ], results));
+  return results;
+}
+
+/**
+ * Two specific runs — cross-env when the environments differ, cross-browser
+ * when the same env was captured with different engines, cross-run otherwise.
+ * In every case run1 is the base (first/"before") side and run2 the one
+ * compared against it — the approval candidate, where added screenshots live.
+ */
+export async function compareRuns(
+  app: string,
+  env1: string,
+  run1Id: string,
+  env2: string,
+  run2Id: string,
+): Promise<ComparisonResult[]> {
+  if (env1 !== env2) return compareCrossEnv(app, env1, run1Id, env2, run2Id);
+  if (runBrowser(app, env1, run1Id) !== runBrowser(app, env2, run2Id)) {
+    return compareCrossBrowser(app, env1, run1Id, run2Id);
+  }
+  return compareCrossRun(app, env1, run2Id, run1Id);
 }
 
 /**
  * Default comparison — latest completed run per env, cross-env diff.
+ * With more than two environments every pair from `getEnvPairs()` is diffed
+ * (reference vs each other env, or all pairs — see `compare.envPairing`).
+ * Shots are paired by browser: chromium vs chromium, webkit vs webkit, etc.
+ * `envNames` keeps only the pairs whose two environments are both listed.
  * This is what the main flow calls.
  */
-export function compareScreenshots(pages: string[]): ComparisonResult[] {
-  const appName = getCurrentApp();
-  const [env1, env2] = environments;
-  if (!env1 || !env2) {
+export async function compareScreenshots(appName: string, pages: string[], envNames?: string[]): Promise<ComparisonResult[]> {
+  const pairs = getEnvPairs(appName).filter(([env1, env2]) =>
+    !envNames || (envNames.includes(env1) && envNames.includes(env2))
+  );
+  if (pairs.length === 0) {
     log.error("Need at least 2 environments configured for comparison");
     return [];
   }
 
-  const run1 = getLatestCompletedRun(appName, env1.name);
-  const run2 = getLatestCompletedRun(appName, env2.name);
+  const results: ComparisonResult[] = [];
+  for (const browser of getBrowsers()) {
+    for (const [env1, env2] of pairs) {
+      const run1 = getLatestCompletedRun(appName, env1, browser);
+      const run2 = getLatestCompletedRun(appName, env2, browser);
+
+      if (!run1 || !run2) {
+        const missing = !run1 ? env1 : env2;
+        log.error(`No completed ${browser} runs found for ${appName}/${missing}. Run capture first.`);
+        continue;
+      }
+
+      results.push(...await compareCrossEnv(appName, env1, run1.runId, env2, run2.runId));
+    }
+  }
+  return results;
+}
 
-  if (!run1 || !run2) {
-    const missing = !run1 ? env1.name : env2.name;
-    log.error(`No completed runs found for ${appName}/${missing}. Run capture first.`);
+/**
+ * Same-environment engine comparison — latest completed run of the first
+ * configured browser vs every other configured browser.
+ */
+export async function compareBrowsers(appName: string, envName: string = environments[0]?.name ?? ""): Promise<ComparisonResult[]> {
+  const [reference, ...others] = getBrowsers();
+  if (!reference || others.length === 0) {
+    log.error("Need at least 2 browsers in capture.browsers for a cross-browser comparison");
     return [];
   }
 
-  return compareCrossEnv(appName, env1.name, run1.runId, env2.name, run2.runId);
+  const refRun = getLatestCompletedRun(appName, envName, reference);
+  if (!refRun) {
+    log.error(`No completed ${reference} runs found for ${appName}/${envName}. Run capture first.`);
+    return [];
+  }
+
+  const results: ComparisonResult[] = [];
+  for (const browser of others) {
+    const run = getLatestCompletedRun(appName, envName, browser);
+    if (!run) {
+      log.error(`No completed ${browser} runs found for ${appName}/${envName}. Run capture first.`);
+      continue;
+    }
+    results.push(...await compareCrossBrowser(appName, envName, refRun.runId, run.runId));
+  }
+  return results;
+}
+
+/**
+ * Latest completed run of each configured browser vs its baseline.
+ */
+export async function compareBaseline(appName: string, envName: string = environments[0]?.name ?? ""): Promise<ComparisonResult[]> {
+  const results: ComparisonResult[] = [];
+  for (const browser of getBrowsers()) {
+    if (!hasBaseline(appName, envName, browser)) {
+      log.error(`No ${browser} baseline for ${appName}/${envName}. Approve screenshots first.`);
+      continue;
+    }
+    const run = getLatestCompletedRun(appName, envName, browser);
+    if (!run) {
+      log.error(`No completed ${browser} runs found for ${appName}/${envName}. Run capture first.`);
+      continue;
+    }
+    results.push(...await compareAgainstBaseline(appName, envName, run.runId));
+  }
+  return results;
 }
 
 // Allow running standalone
 if (import.meta.main) {
-  const results = compareScreenshots([]);
+  const results = await compareScreenshots(process.argv[2] ?? DEFAULT_APP, []);
   log.success(`Compared ${results.length} items.`);
 }
@@ -7,12 +7,31 @@
 
 import projectConfig from "../../ui-police.config";
 import { requireEnv } from "../utils/env";
+import { sanitizeForFilename, pageSlug, parseFilename } from "../utils/paths";
+import { availableParallelism } from "os";
 import type {
   AppConfig,
   AppDefinition,
+  BrowserName,
+  CompareMetric,
+  CompareSettings,
+  DiffSeverity,
   EnvironmentDefinition,
+  EnvPairing,
+  Interaction,
+  JobsConfig,
+  MaskRect,
+  PipelineTasks,
+  ReportFormat,
+  ReportImageMode,
+  ResolvedViewport,
+  RetentionConfig,
+  RunTrigger,
+  ScheduleDefinition,
   ViewportPreset,
   ViewportCustom,
+  WebhookDefinition,
+  WebhookEvent,
 } from "../types/config";
 
 // ============================================
@@ -39,27 +58,105 @@ export const VIEWPORT_PRESETS: Record<string, { width: number; height: number }>
 };
 
 /**
- * Get viewport dimensions from the central config
+ * Resolve a preset or custom viewport definition to named dimensions
  */
-export function getViewport(): { width: number; height: number } {
-  const vp = projectConfig.capture.viewport;
-
+export function resolveViewport(vp: ViewportPreset | ViewportCustom): ResolvedViewport {
   // Custom dimensions
   if ("width" in vp && "height" in vp) {
-    return { width: (vp as ViewportCustom).width, height: (vp as ViewportCustom).height };
+    const custom = vp as ViewportCustom;
+    return {
+      name: custom.name ?? `${custom.width}x${custom.height}`,
+      width: custom.width,
+      height: custom.height,
+    };
   }
 
   // Preset
   const presetName = (vp as ViewportPreset).preset ?? "desktop-hd";
-  return VIEWPORT_PRESETS[presetName] ?? VIEWPORT_PRESETS["desktop-hd"]!;
+  const preset = VIEWPORT_PRESETS[presetName];
+  if (!preset) {
+    return { name: "desktop-hd", ...VIEWPORT_PRESETS["desktop-hd"]! };
+  }
+  return { name: presetName, ...preset };
+}
+
+/**
+ * Get viewport dimensions from the central config.
+ * With a viewport matrix, this is the first viewport in the list.
+ */
+export function getViewport(): { width: number; height: number } {
+  const { width, height } = getViewports()[0]!;
+  return { width, height };
 }
 
 /**
  * Get viewport as a display string (e.g., "1920x1080")
  */
-export function getViewportString(): string {
-  const { width, height } = getViewport();
-  return `${width}x${height}`;
+export function getViewportString(vp: { width: number; height: number } = getViewport()): string {
+  return `${vp.width}x${vp.height}`;
+}
+
+/**
+ * Whether the capture config defines a viewport matrix (`capture.viewports`)
+ */
+export function isViewportMatrix(): boolean {
+  return (projectConfig.capture.viewports?.length ?? 0) > 0;
+}
+
+/**
+ * Get every viewport to capture in a run — the matrix if configured,
+ * otherwise the single `capture.viewport`.
+ */
+export function getViewports(): ResolvedViewport[] {
+  if (isViewportMatrix()) {
+    return projectConfig.capture.viewports!.map(resolveViewport);
+  }
+  return [resolveViewport(projectConfig.capture.viewport)];
+}
+
+/**
+ * Viewport tag used in screenshot filenames — only set for viewport matrices,
+ * so single-viewport runs keep their plain `{slug}.png` filenames.
+ */
+export function getViewportTag(vp: ResolvedViewport): string | undefined {
+  return isViewportMatrix() ? sanitizeForFilename(vp.name) : undefined;
+}
+
+// ============================================
+// BROWSER CONFIGURATION
+// ============================================
+
+/** Browser used when `capture.browsers` is not set (and for legacy runs) */
+export const DEFAULT_BROWSER: BrowserName = "chromium";
+
+/** Engines Playwright can capture with */
+export const BROWSER_NAMES: readonly BrowserName[] = ["chromium", "firefox", "webkit"];
+
+/**
+ * Check a browser name from a query string or CLI flag — throws on an unknown engine
+ */
+export function parseBrowserName(value: string): BrowserName {
+  if (!BROWSER_NAMES.includes(value as BrowserName)) {
+    throw new Error(`Unknown browser: "${value}". Available: ${BROWSER_NAMES.join(", ")}`);
+  }
+  return value as BrowserName;
+}
+
+/**
+ * Get every browser engine to capture with, in config order
+ */
+export function getBrowsers(): BrowserName[] {
+  const browsers = projectConfig.capture.browsers;
+  return browsers && browsers.length > 0 ? browsers : [DEFAULT_BROWSER];
+}
+
+/**
+ * Key for one environment × browser combination — plain env name for the
+ * default browser (e.g., "develop"), "{env}:{browser}" otherwise ("develop:webkit").
+ * Used for progress tracking and the `runIds` map returned by captureAll().
+ */
+export function envBrowserKey(envName: string, browser: BrowserName): string {
+  return browser === DEFAULT_BROWSER ? envName : `${envName}:${browser}`;
 }
 
 // ============================================
@@ -101,6 +198,14 @@ export function getCredentials(envName: string): { email: string; password: stri
   };
 }
 
+/**
+ * HMAC secret of a webhook, read from the .env variable named by `secretEnv`.
+ * Returns undefined for unsigned webhooks; throws when the variable is missing.
+ */
+export function getWebhookSecret(hook: WebhookDefinition): string | undefined {
+  return hook.secretEnv ? requireEnv(hook.secretEnv) : undefined;
+}
+
 // ============================================
 // TIMEOUTS & CAPTURE OPTIONS
 // ============================================
@@ -130,6 +235,9 @@ const _appRegistry = new Map<string, AppConfig>();
 /** Ordered list of app names (display order from config) */
 export const APP_LIST: string[] = projectConfig.apps.map((a) => a.name);
 
+/** App used when a caller doesn't name one (the first configured app) */
+export const DEFAULT_APP: string = APP_LIST[0] ?? "admin";
+
 /**
  * Load interactions for an app, if an interactions module exists.
  * Returns empty arrays if no interactions module is found.
@@ -166,6 +274,8 @@ function buildAppConfig(def: AppDefinition): AppConfig {
     requiresAuth: def.requiresAuth,
     fallbackPages: def.fallbackPages,
     options: def.options ?? {},
+    maskSelectors: def.maskSelectors ?? [],
+    maskRegions: def.maskRegions ?? {},
     interactionGroups: interactions.interactionGroups,
     getAllInteractions: interactions.getAllInteractions,
   };
@@ -200,45 +310,298 @@ export function getAllApps(): AppConfig[] {
 }
 
 // ============================================
-// CURRENT APP STATE
+// OUTPUT DIRECTORIES
+// ============================================
+
+export function getOutputDir(): string {
+  return "output";
+}
+
+export function getReportsDir(appName: string): string {
+  return `output/reports/cariloop-${appName}`;
+}
+
+// ============================================
+// REPORT FORMATS
 // ============================================
 
-let currentApp: string = APP_LIST[0] ?? "admin";
+export const REPORT_FORMATS: readonly ReportFormat[] = ["html", "json", "junit", "markdown"];
 
-export function setCurrentApp(app: string): void {
-  if (!_appRegistry.has(app)) {
-    throw new Error(`Unknown app: "${app}". Available: ${APP_LIST.join(", ")}`);
+/**
+ * Report formats from the project `report` section (default: html only)
+ */
+export function getReportFormats(): ReportFormat[] {
+  const formats = projectConfig.report?.formats;
+  return formats && formats.length > 0 ? formats : ["html"];
+}
+
+/**
+ * Parse a format list from the API or CLI ("html,junit" or ["html", "junit"]).
+ * Throws on unknown formats.
+ */
+export function parseReportFormats(value: string | string[]): ReportFormat[] {
+  const names = (Array.isArray(value) ? value : value.split(",")).map((f) => f.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!REPORT_FORMATS.includes(name as ReportFormat)) {
+      throw new Error(`Unknown report format: "${name}". Available: ${REPORT_FORMATS.join(", ")}`);
+    }
   }
-  currentApp = app;
+  if (names.length === 0) throw new Error(`No report formats given. Available: ${REPORT_FORMATS.join(", ")}`);
+  return [...new Set(names as ReportFormat[])];
+}
+
+export const REPORT_IMAGE_MODES: readonly ReportImageMode[] = ["linked", "embedded"];
+
+export const DEFAULT_THUMBNAIL_WIDTH = 480;
+
+/**
+ * How the HTML report includes screenshots, from `report.images` (default: linked)
+ */
+export function getReportImageMode(): ReportImageMode {
+  return projectConfig.report?.images ?? "linked";
 }
 
-export function getCurrentApp(): string {
-  return currentApp;
+/**
+ * Parse an image mode from the API or CLI. Throws on unknown modes.
+ */
+export function parseReportImageMode(value: string): ReportImageMode {
+  if (!REPORT_IMAGE_MODES.includes(value as ReportImageMode)) {
+    throw new Error(`Unknown report image mode: "${value}". Available: ${REPORT_IMAGE_MODES.join(", ")}`);
+  }
+  return value as ReportImageMode;
 }
 
-export function getCurrentAppConfig(): AppConfig {
-  return _appRegistry.get(currentApp)!;
+/**
+ * Thumbnail width for linked reports, from `report.thumbnailWidth`
+ */
+export function getThumbnailWidth(): number {
+  const width = projectConfig.report?.thumbnailWidth;
+  return width !== undefined && Number.isInteger(width) && width >= 16 ? width : DEFAULT_THUMBNAIL_WIDTH;
 }
 
 // ============================================
-// OUTPUT DIRECTORIES
+// SCHEDULES
 // ============================================
 
-export function getOutputDir(): string {
-  return "output";
+/** Steps a scheduled pipeline runs when its definition doesn't list any */
+export const DEFAULT_PIPELINE_TASKS: PipelineTasks = { capture: true, scripts: [], compare: true, report: true };
+
+/**
+ * Schedules from ui-police.config.ts — the server adds the ones created via the API
+ */
+export function getConfigSchedules(): ScheduleDefinition[] {
+  return projectConfig.schedules ?? [];
+}
+
+// ============================================
+// JOBS
+// ============================================
+
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+/**
+ * Jobs the dashboard server runs at the same time, from `jobs.concurrency`
+ */
+export function getJobConcurrency(): number {
+  const concurrency = projectConfig.jobs?.concurrency;
+  return concurrency !== undefined && Number.isInteger(concurrency) && concurrency >= 1
+    ? concurrency
+    : DEFAULT_JOB_CONCURRENCY;
 }
 
-export function getReportsDir(): string {
-  return `output/reports/cariloop-${currentApp}`;
+// ============================================
+// RETENTION
+// ============================================
+
+export const DEFAULT_RETENTION: RetentionConfig = { keepLast: 10, keepDays: 14, failedGraceDays: 2, cacheDays: 30, jobDays: 30 };
+
+/**
+ * Retention rules from the project `retention` section — invalid values fall
+ * back to the defaults, and at least the latest completed run is always kept
+ */
+export function getRetention(): RetentionConfig {
+  const retention = projectConfig.retention ?? {};
+  const days = (value: number | undefined, fallback: number) =>
+    value !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  return {
+    keepLast: retention.keepLast !== undefined && Number.isInteger(retention.keepLast) && retention.keepLast >= 1
+      ? retention.keepLast
+      : DEFAULT_RETENTION.keepLast,
+    keepDays: days(retention.keepDays, DEFAULT_RETENTION.keepDays),
+    failedGraceDays: days(retention.failedGraceDays, DEFAULT_RETENTION.failedGraceDays),
+    cacheDays: days(retention.cacheDays, DEFAULT_RETENTION.cacheDays),
+    jobDays: days(retention.jobDays, DEFAULT_RETENTION.jobDays),
+  };
+}
+
+// ============================================
+// WEBHOOKS
+// ============================================
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ["run.completed", "run.failed", "pipeline.completed", "pipeline.failed"];
+
+export const DEFAULT_WEBHOOK_RETRIES = 3;
+export const DEFAULT_WEBHOOK_BACKOFF_MS = 1000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Webhooks from ui-police.config.ts
+ */
+export function getWebhooks(): WebhookDefinition[] {
+  return projectConfig.webhooks ?? [];
+}
+
+/**
+ * Webhooks subscribed to `event` for `app`
+ */
+export function getWebhooksFor(event: WebhookEvent, app: string): WebhookDefinition[] {
+  return getWebhooks().filter(
+    (hook) => (!hook.events || hook.events.includes(event)) && (!hook.apps || hook.apps.includes(app)),
+  );
 }
 
 // ============================================
 // HELPERS
 // ============================================
 
-export function getFallbackPages(): string[] {
-  return getCurrentAppConfig().fallbackPages;
+export function getFallbackPages(appName: string): string[] {
+  return getAppConfig(appName).fallbackPages;
+}
+
+// ============================================
+// COMPARE SETTINGS
+// ============================================
+
+export const DEFAULT_COMPARE_SETTINGS: CompareSettings = {
+  threshold: 0.1,
+  includeAA: false,
+  alpha: 0.1,
+  diffColor: [255, 0, 0],
+  aaColor: [255, 255, 0],
+  warnThreshold: 1,
+  failThreshold: 5,
+  ssim: false,
+  metric: "pixel",
+  ssimWarnBelow: 0.98,
+  ssimFailBelow: 0.9,
+  regionMergeDistance: 16,
+  maxRegions: 20,
+  alignment: "none",
+  envPairing: "reference",
+  workers: Math.max(1, availableParallelism() - 1),
+};
+
+/** Per-page compare overrides of an app, keyed by page path */
+export function getPageCompareOverrides(appName: string): Record<string, Partial<CompareSettings>> {
+  return projectConfig.apps.find((a) => a.name === appName)?.compare?.pages ?? {};
+}
+
+/**
+ * Effective compare settings — defaults, then the project `compare` section,
+ * then the app's overrides, then the page's overrides.
+ */
+export function getCompareSettings(appName?: string, pagePath?: string): CompareSettings {
+  const appOverrides = appName ? projectConfig.apps.find((a) => a.name === appName)?.compare : undefined;
+  const { pages, ...appSettings } = appOverrides ?? {};
+  const pageSettings = pagePath ? pages?.[pagePath] : undefined;
+  return {
+    ...DEFAULT_COMPARE_SETTINGS,
+    ...projectConfig.compare,
+    ...appSettings,
+    ...pageSettings,
+  };
+}
+
+/**
+ * Environment pairs to diff for an app, in config order. With two
+ * environments both modes give the single pair [first, second].
+ */
+export function getEnvPairs(appName?: string): Array<[string, string]> {
+  const settings = getCompareSettings(appName);
+  const names = environments.map((e) => e.name);
+
+  if (settings.envPairing === "all-pairs") {
+    return names.flatMap((a, i) => names.slice(i + 1).map((b): [string, string] => [a, b]));
+  }
+
+  const reference = settings.referenceEnv && names.includes(settings.referenceEnv)
+    ? settings.referenceEnv
+    : names[0];
+  if (!reference) return [];
+  return names.filter((n) => n !== reference).map((n): [string, string] => [reference, n]);
+}
+
+/**
+ * Classify a diff percentage — shared by reports and terminal output so they always agree
+ */
+export function getDiffSeverity(pct: number, settings: CompareSettings = getCompareSettings()): DiffSeverity {
+  if (pct >= settings.failThreshold) return "fail";
+  if (pct >= settings.warnThreshold) return "warn";
+  return "pass";
+}
+
+/**
+ * Classify an SSIM score (1 = identical) against the SSIM cut-offs
+ */
+export function getSsimSeverity(ssim: number, settings: CompareSettings = getCompareSettings()): DiffSeverity {
+  if (ssim < settings.ssimFailBelow) return "fail";
+  if (ssim < settings.ssimWarnBelow) return "warn";
+  return "pass";
+}
+
+/**
+ * Severity by whichever metric the settings select
+ */
+export function getResultSeverity(pct: number, ssim: number | undefined, settings: CompareSettings): DiffSeverity {
+  if (settings.metric === "ssim" && ssim !== undefined) return getSsimSeverity(ssim, settings);
+  return getDiffSeverity(pct, settings);
+}
+
+// ============================================
+// MASKS
+// ============================================
+
+/**
+ * Selectors to mask in a screenshot of an app — app-wide selectors
+ * plus the interaction's own, if any.
+ */
+export function getMaskSelectors(appName: string, interaction?: Interaction): string[] {
+  return [...getAppConfig(appName).maskSelectors, ...(interaction?.maskSelectors ?? [])];
+}
+
+/**
+ * Rectangles to blank out before diffing a page of the given app.
+ * Interaction screenshots share their page's rectangles.
+ */
+export function getMaskRegions(appName: string, pagePath: string): MaskRect[] {
+  return getAppConfig(appName).maskRegions[pagePath] ?? [];
+}
+
+// ============================================
+// PAGE PATHS
+// ============================================
+
+/**
+ * Page paths named in an app's config — fallback pages, mask regions and
+ * per-page compare overrides
+ */
+export function getConfiguredPagePaths(appName: string): string[] {
+  const app = getAppConfig(appName);
+  return [...new Set([...app.fallbackPages, ...Object.keys(app.maskRegions), ...Object.keys(getPageCompareOverrides(appName))])];
+}
+
+/**
+ * Page path of a screenshot file. Slugs are lossy ("/admin/user-roles" and
+ * "/admin/user/roles" both become "admin-user-roles"), so the page recorded
+ * at capture time wins, then a configured path with the same slug, and only
+ * then the path parsed back from the filename.
+ */
+export function resolvePagePath(appName: string, filename: string, recorded?: string): string {
+  if (recorded) return recorded;
+  const { pagePath } = parseFilename(filename);
+  const slug = pageSlug(pagePath);
+  return getConfiguredPagePaths(appName).find((p) => pageSlug(p) === slug) ?? pagePath;
 }
 
 // Re-export types
-export type { AppConfig, EnvConfig as EnvironmentConfig };
+export type { AppConfig, BrowserName, CompareMetric, CompareSettings, DiffSeverity, EnvPairing, JobsConfig, MaskRect, PipelineTasks, ReportFormat, ReportImageMode, EnvConfig as EnvironmentConfig, ResolvedViewport, RetentionConfig, RunTrigger, ScheduleDefinition, WebhookDefinition, WebhookEvent };
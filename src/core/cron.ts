@@ -0,0 +1,121 @@
+/**
+ * Cron expressions — the five standard fields, evaluated in local time:
+ *
+ *   ┌ minute (0–59)
+ *   │ ┌ hour (0–23)
+ *   │ │ ┌ day of month (1–31)
+ *   │ │ │ ┌ month (1–12)
+ *   │ │ │ │ ┌ day of week (0–6, Sunday = 0; 7 also means Sunday)
+ *   0 2 * * 1-5
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). `@hourly`, `@daily`, `@weekly` and `@monthly` are
+ * shorthands. As in standard cron, when both day fields are restricted a
+ * day matching either one runs.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Day-of-month field was `*` */
+  anyDay: boolean;
+  /** Day-of-week field was `*` */
+  anyWeekday: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+/** [min, max] per field, in expression order */
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+/** Give up looking for the next run after this many years (e.g., "0 0 30 2 *") */
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, [min, max]: [number, number], expr: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [min, max];
+    } else if (range?.includes("-")) {
+      [start, end] = range.split("-").map(Number) as [number, number];
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron expression "${expr}": bad field "${field}" (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws with the offending field on invalid input.
+ */
+export function parseCron(expr: string): CronSchedule {
+  const fields = (SHORTHANDS[expr.trim()] ?? expr).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expr}": expected 5 fields (minute hour day month weekday)`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELD_RANGES[i]!, expr)) as [
+    Set<number>, Set<number>, Set<number>, Set<number>, Set<number>,
+  ];
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === "*", anyWeekday: fields[4] === "*" };
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.anyDay && cron.anyWeekday) return true;
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * First time strictly after `after` that the expression matches, to the minute.
+ * Returns null when nothing matches within the next few years.
+ */
+export function nextCronTime(cron: CronSchedule | string, after: Date = new Date()): Date | null {
+  const c = typeof cron === "string" ? parseCron(cron) : cron;
+  const t = new Date(after);
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match before stepping minutes
+  while (t <= limit) {
+    if (!c.months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(c, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!c.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+    } else if (!c.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import { getCompareSettings } from "./config";
+import { getDiffPairDir, getDiffsDir } from "./runs";
+import { summarizeResults, type ReportSummary } from "./report-formats";
+import type { ComparisonResult } from "./compare";
+import type { BrowserName, CompareSettings } from "../types/config";
+
+/**
+ * Diff manifest — the full result of one comparison, written as
+ * `diff-manifest.json` next to its diff images:
+ *
+ *   captures/{app}/diffs/{label}/
+ *     diff-manifest.json     ← sources, settings, per-file metrics
+ *     login.png
+ *     ssim/login.png
+ *
+ * Reports and the API rebuild from this file without comparing again.
+ */
+
+const MANIFEST_FILE = "diff-manifest.json";
+
+/**
+ * One side of a comparison — a run, or the approved baseline
+ */
+export interface DiffSource {
+  /** Display label (e.g., "develop (260217-001)") */
+  label: string;
+  env: string;
+  /** Source run — absent for the baseline side */
+  runId?: string;
+  baseline?: boolean;
+  browser: BrowserName;
+  /** When the run was captured (or the baseline last updated), ISO 8601 */
+  capturedAt?: string;
+}
+
+export interface DiffManifest {
+  /** Diff folder name (e.g., "develop-vs-local") */
+  label: string;
+  app: string;
+  /** When the comparison ran, ISO 8601 */
+  comparedAt: string;
+  sources: [DiffSource, DiffSource];
+  /** App-level compare settings in effect (pages may override them) */
+  settings: CompareSettings;
+  /** summarizeResults() of the results — added/removed/error results count as "fail" and are also tallied apart */
+  summary: ReportSummary;
+  results: ComparisonResult[];
+}
+
+/** Manifest without the per-file results — what listings return */
+export type DiffManifestSummary = Omit<DiffManifest, "results">;
+
+export function getDiffManifestPath(app: string, label: string): string {
+  return path.join(getDiffPairDir(app, label), MANIFEST_FILE);
+}
+
+/**
+ * Write diff-manifest.json for a finished comparison
+ */
+export function saveDiffManifest(
+  app: string,
+  label: string,
+  sources: [DiffSource, DiffSource],
+  results: ComparisonResult[],
+): DiffManifest {
+  const manifest: DiffManifest = {
+    label,
+    app,
+    comparedAt: new Date().toISOString(),
+    sources,
+    settings: getCompareSettings(app),
+    summary: summarizeResults(results),
+    results,
+  };
+
+  const dir = getDiffPairDir(app, label);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(getDiffManifestPath(app, label), JSON.stringify(manifest, null, 2), "utf-8");
+  return manifest;
+}
+
+export function loadDiffManifest(app: string, label: string): DiffManifest | null {
+  const file = getDiffManifestPath(app, label);
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as DiffManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every comparison recorded for an app, newest first
+ */
+export function listDiffManifests(app: string): DiffManifestSummary[] {
+  const diffsDir = getDiffsDir(app);
+  if (!fs.existsSync(diffsDir)) return [];
+
+  const summaries: DiffManifestSummary[] = [];
+  for (const entry of fs.readdirSync(diffsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const manifest = loadDiffManifest(app, entry.name);
+    if (!manifest) continue;
+    const { results: _results, ...summary } = manifest;
+    summaries.push(summary);
+  }
+  return summaries.sort((a, b) => b.comparedAt.localeCompare(a.comparedAt));
+}
+
+/**
+ * Results of one or more recorded comparisons, in label order.
+ * Throws when a label has no diff-manifest.json.
+ */
+export function loadDiffResults(app: string, labels: string[]): ComparisonResult[] {
+  return labels.flatMap((label) => {
+    const manifest = loadDiffManifest(app, label);
+    if (!manifest) throw new Error(`No diff manifest for ${app}/${label}`);
+    return manifest.results;
+  });
+}
@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+import { PNG } from "pngjs";
+import pixelmatch from "pixelmatch";
+import type { CompareSettings, MaskRect } from "../types/config";
+import { computeSsim, renderSsimHeatmap } from "./ssim";
+import { findDiffRegions, type DiffRegion } from "./regions";
+import { loadLandmarks } from "./landmarks";
+import { alignBands, tintBands, type Band, type BandAlignment } from "./bands";
+
+/**
+ * Single-screenshot diff — decode both PNGs, apply mask regions, optionally
+ * align bands, run pixelmatch, write the diff (and SSIM heatmap) and cluster
+ * the changed pixels into regions.
+ *
+ * Self-contained (no project config) so it can run inside a worker thread:
+ * the caller resolves settings and masks and passes them in the job.
+ */
+
+export interface DiffJob {
+  filename: string;
+  path1: string;
+  path2: string;
+  /** Where the diff image is written; SSIM heatmaps go to `{diffDir}/ssim/` */
+  diffDir: string;
+  settings: CompareSettings;
+  maskRects: MaskRect[];
+}
+
+export interface DiffOutcome {
+  filename: string;
+  diffPixels: number;
+  totalPixels: number;
+  imageWidth: number;
+  imageHeight: number;
+  diffPercentage: number;
+  insertedBands?: Band[];
+  removedBands?: Band[];
+  regions: DiffRegion[];
+  ssim?: number;
+  diffScreenshot: string;
+  ssimHeatmap?: string;
+}
+
+/** Width/height from the PNG IHDR chunk — no decoding */
+export function readPngSize(filepath: string): { width: number; height: number } {
+  const fd = fs.openSync(filepath, "r");
+  try {
+    const header = Buffer.alloc(24);
+    fs.readSync(fd, header, 0, 24, 0);
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readPng(filepath: string): PNG {
+  const buffer = fs.readFileSync(filepath);
+  return PNG.sync.read(buffer);
+}
+
+function resizeToMatch(img: PNG, targetWidth: number, targetHeight: number): PNG {
+  if (img.width === targetWidth && img.height === targetHeight) return img;
+
+  const resized = new PNG({ width: targetWidth, height: targetHeight });
+  resized.data.fill(255);
+  for (let y = 0; y < Math.min(img.height, targetHeight); y++) {
+    for (let x = 0; x < Math.min(img.width, targetWidth); x++) {
+      const srcIdx = (y * img.width + x) * 4;
+      const dstIdx = (y * targetWidth + x) * 4;
+      resized.data[dstIdx] = img.data[srcIdx]!;
+      resized.data[dstIdx + 1] = img.data[srcIdx + 1]!;
+      resized.data[dstIdx + 2] = img.data[srcIdx + 2]!;
+      resized.data[dstIdx + 3] = img.data[srcIdx + 3]!;
+    }
+  }
+  return resized;
+}
+
+/**
+ * Zero out masked rectangles in place (clipped to the image bounds).
+ * Applied to both sides, so masked areas never count as differences.
+ */
+function applyMaskRegions(img: PNG, rects: MaskRect[]): void {
+  for (const rect of rects) {
+    const x0 = Math.max(0, Math.floor(rect.x));
+    const y0 = Math.max(0, Math.floor(rect.y));
+    const x1 = Math.min(img.width, Math.ceil(rect.x + rect.width));
+    const y1 = Math.min(img.height, Math.ceil(rect.y + rect.height));
+    for (let y = y0; y < y1; y++) {
+      img.data.fill(0, (y * img.width + x0) * 4, (y * img.width + x1) * 4);
+    }
+  }
+}
+
+/**
+ * Diff one screenshot pair and write its diff image(s)
+ */
+export function diffScreenshots(job: DiffJob): DiffOutcome {
+  const { filename, path1, path2, diffDir, settings, maskRects } = job;
+  let img1 = readPng(path1);
+  let img2 = readPng(path2);
+
+  if (maskRects.length > 0) {
+    applyMaskRegions(img1, maskRects);
+    applyMaskRegions(img2, maskRects);
+  }
+
+  let alignment: BandAlignment | undefined;
+  const maxWidth = Math.max(img1.width, img2.width);
+  let maxHeight = Math.max(img1.height, img2.height);
+  if (settings.alignment === "bands") {
+    // Line up rows first; only the width needs padding
+    alignment = alignBands(
+      resizeToMatch(img1, maxWidth, img1.height),
+      resizeToMatch(img2, maxWidth, img2.height),
+    );
+    img1 = alignment.aligned1;
+    img2 = alignment.aligned2;
+    maxHeight = img1.height;
+  } else {
+    img1 = resizeToMatch(img1, maxWidth, maxHeight);
+    img2 = resizeToMatch(img2, maxWidth, maxHeight);
+  }
+
+  const diff = new PNG({ width: maxWidth, height: maxHeight });
+  const diffPixels = pixelmatch(
+    img1.data,
+    img2.data,
+    diff.data,
+    maxWidth,
+    maxHeight,
+    {
+      threshold: settings.threshold,
+      includeAA: settings.includeAA,
+      alpha: settings.alpha,
+      aaColor: settings.aaColor,
+      diffColor: settings.diffColor,
+      diffColorAlt: settings.diffColorAlt,
+    }
+  );
+  if (alignment) tintBands(diff, alignment);
+
+  const totalPixels = maxWidth * maxHeight;
+  const diffPercentage = (diffPixels / totalPixels) * 100;
+
+  if (!fs.existsSync(diffDir)) fs.mkdirSync(diffDir, { recursive: true });
+  const diffScreenshot = path.join(diffDir, filename);
+  fs.writeFileSync(diffScreenshot, PNG.sync.write(diff));
+
+  // SSIM heatmaps live in a subfolder so they never pair up as screenshots
+  let ssim: number | undefined;
+  let ssimHeatmap: string | undefined;
+  if (settings.ssim || settings.metric === "ssim") {
+    const ssimResult = computeSsim(img1, img2);
+    ssim = ssimResult.ssim;
+    const heatmapDir = path.join(diffDir, "ssim");
+    if (!fs.existsSync(heatmapDir)) fs.mkdirSync(heatmapDir, { recursive: true });
+    ssimHeatmap = path.join(heatmapDir, filename);
+    fs.writeFileSync(ssimHeatmap, PNG.sync.write(renderSsimHeatmap(img1, ssimResult)));
+  }
+
+  const landmarks = loadLandmarks(path1);
+  const regions = diffPixels > 0
+    ? findDiffRegions(diff, settings, landmarks.length > 0 ? landmarks : loadLandmarks(path2))
+    : [];
+
+  return {
+    filename,
+    diffPixels,
+    totalPixels,
+    imageWidth: maxWidth,
+    imageHeight: maxHeight,
+    diffPercentage,
+    insertedBands: alignment?.inserted,
+    removedBands: alignment?.removed,
+    regions,
+    ssim,
+    diffScreenshot,
+    ssimHeatmap,
+  };
+}
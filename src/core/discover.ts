@@ -1,9 +1,9 @@
 import type { Page } from "playwright";
-import { getCurrentAppConfig, getFallbackPages } from "./config";
+import { getAppConfig, getFallbackPages } from "./config";
 import { log, style } from "../utils/terminal";
 
-export async function discoverPages(page: Page): Promise<string[]> {
-  const appConfig = getCurrentAppConfig();
+export async function discoverPages(page: Page, appName: string): Promise<string[]> {
+  const appConfig = getAppConfig(appName);
   const pathPrefix = appConfig.pathPrefix;
   
   log.action(`Scanning sidebar/nav for ${style.highlight(appConfig.displayName)} links...`);
@@ -45,7 +45,7 @@ export async function discoverPages(page: Page): Promise<string[]> {
   // from a single page. Always merge discovered links with the full fallback list
   // so every configured page gets captured.
   if (!appConfig.requiresAuth) {
-    const fallback = getFallbackPages();
+    const fallback = getFallbackPages(appName);
     const merged = [...new Set([...unique, ...fallback])].sort();
     log.success(`Discovered ${unique.length} links, merged with ${fallback.length} fallback pages → ${merged.length} total`);
     log.tree(merged);
@@ -55,7 +55,7 @@ export async function discoverPages(page: Page): Promise<string[]> {
 
   if (unique.length === 0) {
     log.warning(`No links found, using fallback list`);
-    const fallback = getFallbackPages();
+    const fallback = getFallbackPages(appName);
     log.tree(fallback);
     console.log("");
     return fallback;
@@ -0,0 +1,302 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_BROWSER, type DiffSeverity } from "./config";
+import { getAppDir } from "./runs";
+import { listDiffManifests, loadDiffManifest, type DiffManifest, type DiffSource } from "./diff-manifest";
+import type { ComparisonResult, ResultStatus } from "./compare";
+
+/**
+ * History index — per-page metrics of every comparison an app has run, so
+ * diff percentages can be followed over time. Diff folders are overwritten
+ * on the next comparison with the same label; this index keeps the numbers.
+ *
+ *   captures/
+ *     {app}/
+ *       history.json     ← { comparisons: [...] }, oldest first
+ *
+ * Comparisons are grouped into tracks by what was compared, ignoring run
+ * IDs: every "develop vs local" comparison is one track, every baseline
+ * check of develop another. Pages are followed within a track.
+ *
+ * An app without history.json is seeded from its existing diff manifests.
+ */
+
+/** One screenshot's outcome in one comparison */
+export interface HistoryPoint {
+  /** Stable per screenshot within a track — filename plus browser when not chromium */
+  key: string;
+  pagePath: string;
+  interactionId?: string;
+  viewport?: string;
+  status: ResultStatus;
+  diffPercentage: number;
+  ssim?: number;
+  severity: DiffSeverity;
+}
+
+/** One comparison in the index */
+export interface HistoryEntry {
+  /** Diff folder it was written to */
+  label: string;
+  comparedAt: string;
+  /** "develop vs local", "develop baseline vs develop", "develop chromium vs develop webkit" */
+  track: string;
+  /** Source run IDs (absent for a baseline side) */
+  runIds: Array<string | null>;
+  summary: DiffManifest["summary"];
+  /** Mean diff of the compared pairs */
+  avgDiff: number;
+  pages: HistoryPoint[];
+}
+
+export type TrendFlag = "flaky" | "regression";
+
+/** An app's comparisons on one track, oldest first */
+export interface TrackTrend {
+  track: string;
+  points: Array<{ comparedAt: string; label: string; avgDiff: number; warn: number; fail: number; total: number }>;
+}
+
+/** One screenshot on one track, oldest first */
+export interface PageTrend {
+  track: string;
+  key: string;
+  pagePath: string;
+  interactionId?: string;
+  viewport?: string;
+  points: Array<{ comparedAt: string; label: string; diffPercentage: number; severity: DiffSeverity }>;
+  /** Comparisons in the window where the page was above the warn threshold */
+  changes: number;
+  /** Pass ↔ warn/fail switches between consecutive comparisons in the window */
+  flips: number;
+  /**
+   * "flaky" — keeps switching between pass and changed, or stays changed by
+   * a varying amount; "regression" — passed before, changed in the latest
+   * comparisons and stayed changed
+   */
+  flag?: TrendFlag;
+}
+
+export interface AppTrends {
+  app: string;
+  comparisons: number;
+  tracks: TrackTrend[];
+  /** Flagged pages first, then by latest diff */
+  pages: PageTrend[];
+}
+
+interface HistoryStore {
+  comparisons: HistoryEntry[];
+}
+
+/** Comparisons kept per app */
+const HISTORY_LIMIT = 500;
+
+/** Latest comparisons per track that trends and flags look at */
+export const TREND_WINDOW = 20;
+
+/** Switches between pass and changed within the window that make a page flaky */
+const FLAKY_FLIPS = 3;
+
+/** Changed comparisons whose diffs spread by more than this share of their mean are flaky too */
+const FLAKY_SPREAD = 0.5;
+
+/** Latest comparisons that must all be changed for a regression */
+const REGRESSION_RUNS = 2;
+
+// ============================================
+// STORE
+// ============================================
+
+function getHistoryPath(app: string): string {
+  return path.join(getAppDir(app), "history.json");
+}
+
+function saveStore(app: string, store: HistoryStore): void {
+  const dir = getAppDir(app);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(getHistoryPath(app), JSON.stringify(store), "utf-8");
+}
+
+function loadStore(app: string): HistoryStore {
+  const file = getHistoryPath(app);
+  if (fs.existsSync(file)) {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8")) as HistoryStore;
+    } catch {
+      // Corrupted index — rebuild it below
+    }
+  }
+  return rebuildHistory(app);
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+function sideName(source: DiffSource): string {
+  const browser = source.browser !== DEFAULT_BROWSER ? ` ${source.browser}` : "";
+  return `${source.env}${source.baseline ? " baseline" : ""}${browser}`;
+}
+
+/** "develop vs local" — what a comparison compared, without run IDs */
+export function getTrack(sources: [DiffSource, DiffSource]): string {
+  const [a, b] = sources;
+  // Cross-browser pairs name both engines even when one is chromium
+  if (a.browser !== b.browser && !a.baseline && !b.baseline) {
+    return `${a.env} ${a.browser} vs ${b.env} ${b.browser}`;
+  }
+  return `${sideName(a)} vs ${sideName(b)}`;
+}
+
+function pointKey(r: ComparisonResult): string {
+  const b1 = r.env1Browser ?? DEFAULT_BROWSER;
+  const b2 = r.env2Browser ?? DEFAULT_BROWSER;
+  return b1 === b2 && b1 === DEFAULT_BROWSER ? r.filename : `${r.filename}#${b1 === b2 ? b1 : `${b1}-${b2}`}`;
+}
+
+function toEntry(manifest: DiffManifest): HistoryEntry {
+  const compared = manifest.results.filter((r) => r.status === "compared");
+  return {
+    label: manifest.label,
+    comparedAt: manifest.comparedAt,
+    track: getTrack(manifest.sources),
+    runIds: manifest.sources.map((s) => s.runId ?? null),
+    summary: manifest.summary,
+    avgDiff: compared.length > 0 ? compared.reduce((sum, r) => sum + r.diffPercentage, 0) / compared.length : 0,
+    pages: manifest.results.map((r) => ({
+      key: pointKey(r),
+      pagePath: r.pagePath,
+      interactionId: r.interactionId,
+      viewport: r.viewport,
+      status: r.status,
+      diffPercentage: r.diffPercentage,
+      ssim: r.ssim,
+      severity: r.severity,
+    })),
+  };
+}
+
+function addEntry(store: HistoryStore, entry: HistoryEntry): void {
+  const existing = store.comparisons.findIndex((e) => e.label === entry.label && e.comparedAt === entry.comparedAt);
+  if (existing >= 0) store.comparisons[existing] = entry;
+  else store.comparisons.push(entry);
+  store.comparisons.sort((a, b) => a.comparedAt.localeCompare(b.comparedAt));
+  store.comparisons = store.comparisons.slice(-HISTORY_LIMIT);
+}
+
+/**
+ * Add a finished comparison to the app's history index
+ */
+export function recordComparison(manifest: DiffManifest): void {
+  const store = loadStore(manifest.app);
+  addEntry(store, toEntry(manifest));
+  saveStore(manifest.app, store);
+}
+
+/**
+ * Rebuild the index from the diff manifests on disk, keeping entries whose
+ * diff folders have since been overwritten
+ */
+export function rebuildHistory(app: string): HistoryStore {
+  const file = getHistoryPath(app);
+  let store: HistoryStore = { comparisons: [] };
+  if (fs.existsSync(file)) {
+    try {
+      store = JSON.parse(fs.readFileSync(file, "utf-8")) as HistoryStore;
+    } catch {
+      // Corrupted index — start from the manifests alone
+    }
+  }
+  for (const { label } of listDiffManifests(app)) {
+    const manifest = loadDiffManifest(app, label);
+    if (manifest) addEntry(store, toEntry(manifest));
+  }
+  if (store.comparisons.length > 0) saveStore(app, store);
+  return store;
+}
+
+/**
+ * The app's comparisons, oldest first
+ */
+export function loadHistory(app: string): HistoryEntry[] {
+  return loadStore(app).comparisons;
+}
+
+// ============================================
+// TRENDS
+// ============================================
+
+function flagPage(points: PageTrend["points"]): Pick<PageTrend, "changes" | "flips" | "flag"> {
+  const changed = points.map((p) => p.severity !== "pass");
+  const changes = changed.filter(Boolean).length;
+  let flips = 0;
+  for (let i = 1; i < changed.length; i++) if (changed[i] !== changed[i - 1]) flips++;
+
+  const changedDiffs = points.filter((p) => p.severity !== "pass").map((p) => p.diffPercentage);
+  const mean = changedDiffs.reduce((sum, d) => sum + d, 0) / Math.max(1, changedDiffs.length);
+  const spread = changedDiffs.length > 0 ? Math.max(...changedDiffs) - Math.min(...changedDiffs) : 0;
+
+  let flag: TrendFlag | undefined;
+  if (flips >= FLAKY_FLIPS || (changedDiffs.length >= 3 && mean > 0 && spread / mean > FLAKY_SPREAD)) {
+    flag = "flaky";
+  } else if (
+    changed.length > REGRESSION_RUNS
+    && changed.slice(-REGRESSION_RUNS).every(Boolean)
+    && changed.slice(0, -REGRESSION_RUNS).some((c) => !c)
+  ) {
+    flag = "regression";
+  }
+  return { changes, flips, flag };
+}
+
+/**
+ * Per-track and per-page trends over the latest `window` comparisons of each track
+ */
+export function getTrends(app: string, window = TREND_WINDOW): AppTrends {
+  const history = loadHistory(app);
+  const byTrack = new Map<string, HistoryEntry[]>();
+  for (const entry of history) byTrack.set(entry.track, [...(byTrack.get(entry.track) ?? []), entry]);
+
+  const tracks: TrackTrend[] = [];
+  const pages: PageTrend[] = [];
+  for (const [track, all] of byTrack) {
+    const entries = all.slice(-window);
+    tracks.push({
+      track,
+      points: entries.map((e) => ({
+        comparedAt: e.comparedAt,
+        label: e.label,
+        avgDiff: e.avgDiff,
+        warn: e.summary.warn,
+        fail: e.summary.fail,
+        total: e.summary.total,
+      })),
+    });
+
+    const byPage = new Map<string, PageTrend>();
+    for (const entry of entries) {
+      for (const p of entry.pages) {
+        if (!byPage.has(p.key)) {
+          byPage.set(p.key, {
+            track, key: p.key, pagePath: p.pagePath, interactionId: p.interactionId, viewport: p.viewport,
+            points: [], changes: 0, flips: 0,
+          });
+        }
+        byPage.get(p.key)!.points.push({
+          comparedAt: entry.comparedAt,
+          label: entry.label,
+          diffPercentage: p.diffPercentage,
+          severity: p.severity,
+        });
+      }
+    }
+    for (const page of byPage.values()) pages.push({ ...page, ...flagPage(page.points) });
+  }
+
+  const flagRank = (p: PageTrend) => (p.flag === "regression" ? 0 : p.flag === "flaky" ? 1 : 2);
+  const latest = (p: PageTrend) => p.points[p.points.length - 1]?.diffPercentage ?? 0;
+  pages.sort((a, b) => flagRank(a) - flagRank(b) || latest(b) - latest(a) || a.key.localeCompare(b.key));
+
+  return { app, comparisons: history.length, tracks, pages };
+}
@@ -1,6 +1,6 @@
 import type { Page } from "playwright";
 import type { Interaction } from "../apps/types";
-import { timeouts, getCurrentAppConfig } from "./config";
+import { timeouts, getAppConfig } from "./config";
 
 /**
  * Close any open overlays, modals, menus, dialogs before attempting new interactions
@@ -154,9 +154,8 @@ export function shouldRunOnPage(interaction: Interaction, pagePath: string): boo
 }
 
 /**
- * Get all interactions for the current app
+ * Get all interactions for an app
  */
-export function getAllInteractions(): Interaction[] {
-  const appConfig = getCurrentAppConfig();
-  return appConfig.getAllInteractions();
+export function getAllInteractions(appName: string): Interaction[] {
+  return getAppConfig(appName).getAllInteractions();
 }
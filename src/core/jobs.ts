@@ -0,0 +1,435 @@
+import { randomUUID } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { APP_LIST, getJobConcurrency, type RunTrigger } from "./config";
+import { getAppDir } from "./runs";
+import {
+  runInJob,
+  startIntercepting,
+  stopIntercepting,
+  broadcastStatus,
+  broadcastDone,
+  broadcastLog,
+  type JobLogContext,
+  type ProgressEvent,
+} from "./log-stream";
+
+/**
+ * Jobs — the dashboard server's queue of long-running work.
+ *
+ * Every capture, compare, report, script, codegen and pipeline request
+ * becomes a job with its own ID, status, phase, progress and log. Up to
+ * `jobs.concurrency` jobs run at once, but only one per app: jobs of the
+ * same app share its progress.json, interaction log and compare cache, so
+ * they wait for each other in the order they were queued.
+ *
+ * Jobs live in memory for the lifetime of the server. Each job's log is
+ * also archived beside the app's runs, so it can be read after the job has
+ * left memory or the server restarted:
+ *
+ *   captures/{app}/
+ *     jobs/
+ *       {jobId}.json     ← the job as it last was (status, detail, run IDs)
+ *       {jobId}.jsonl    ← one { ts, line } per log line
+ */
+
+export type JobType = "capture" | "compare" | "report" | "pipeline" | "script" | "codegen";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface Job {
+  /** Short random ID (e.g., "3f9a1c2e") */
+  id: string;
+  type: JobType;
+  app: string;
+  trigger: RunTrigger;
+  status: JobStatus;
+  /** Current step while running (e.g., "capturing"), otherwise the status */
+  phase: string;
+  /** Request options, for display (e.g., { mode: "cross-env" }) */
+  params: Record<string, unknown>;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Outcome summary or error */
+  detail?: string;
+  /** Run IDs per env (and browser) captured by the job */
+  runIds?: Record<string, string>;
+  /** Latest item-level progress of the running step */
+  progress: ProgressEvent | null;
+  /** Cancel was requested while running — the job stops at its next check */
+  cancelRequested: boolean;
+  /** Lines logged so far */
+  logLines: number;
+  /** Log archive, once the job has started */
+  logFile?: string;
+}
+
+/** One archived log line */
+export interface JobLogLine {
+  /** Epoch ms */
+  ts: number;
+  line: string;
+}
+
+/** A slice of a job's archived log */
+export interface JobLogPage {
+  job: Job;
+  /** Index of the first line returned */
+  since: number;
+  lines: JobLogLine[];
+  /** Lines in the archive so far */
+  total: number;
+  /** Pass as `since` to get the lines after this page */
+  next: number;
+  /** The job has finished and `next` reached the end */
+  complete: boolean;
+}
+
+export interface JobOutcome {
+  success: boolean;
+  detail: string;
+  runIds?: Record<string, string>;
+}
+
+/** Handed to a job's work function */
+export interface JobContext {
+  job: Readonly<Job>;
+  /** True once the job was cancelled — check between units of work */
+  isCancelled(): boolean;
+  /** Move to a new step and tell the dashboard */
+  setPhase(phase: string): void;
+  /** Run `hook` when the job is cancelled mid-run (e.g., to kill a child process) */
+  onCancel(hook: () => void): void;
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<JobOutcome>;
+
+interface JobEntry {
+  job: Job;
+  handler: JobHandler;
+  logs: string[];
+  cancelHooks: Array<() => void>;
+  waiters: Array<(job: Job) => void>;
+}
+
+/** Phase a job reports when it starts — the names the dashboard already knows */
+const START_PHASES: Record<JobType, string> = {
+  capture: "capturing",
+  compare: "comparing",
+  report: "reporting",
+  pipeline: "pipeline",
+  script: "script",
+  codegen: "codegen",
+};
+
+/** Finished jobs kept in memory */
+const HISTORY_LIMIT = 100;
+
+/** Log lines kept per job — older lines are dropped */
+const LOG_LIMIT = 5000;
+
+/** Archived log lines returned per page by default */
+export const LOG_PAGE_SIZE = 500;
+
+const entries = new Map<string, JobEntry>();
+
+// ============================================
+// QUEUE
+// ============================================
+
+function isFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+function runningJobs(): Job[] {
+  return [...entries.values()].map((e) => e.job).filter((j) => j.status === "running");
+}
+
+/** Start queued jobs while there is room, oldest first, one per app */
+function pump(): void {
+  const concurrency = getJobConcurrency();
+  for (const entry of entries.values()) {
+    const running = runningJobs();
+    if (running.length >= concurrency) return;
+    if (entry.job.status !== "queued") continue;
+    if (running.some((j) => j.app === entry.job.app)) continue;
+    void start(entry);
+  }
+}
+
+function finish(entry: JobEntry, status: JobStatus, detail: string): void {
+  const { job } = entry;
+  job.status = status;
+  job.phase = status;
+  job.detail = detail;
+  job.progress = null;
+  job.finishedAt = new Date().toISOString();
+  for (const resolve of entry.waiters.splice(0)) resolve(job);
+  pruneHistory();
+  if (job.logFile) saveJobRecord(job);
+}
+
+function pruneHistory(): void {
+  const finished = [...entries.values()].filter((e) => isFinished(e.job));
+  for (const old of finished.slice(0, Math.max(0, finished.length - HISTORY_LIMIT))) {
+    entries.delete(old.job.id);
+  }
+}
+
+/** Routes output logged for a job into its log and progress */
+function logContext(entry: JobEntry): JobLogContext {
+  const { job } = entry;
+  return {
+    jobId: job.id,
+    app: job.app,
+    onLog: (line) => {
+      entry.logs.push(line);
+      if (entry.logs.length > LOG_LIMIT) entry.logs.splice(0, entry.logs.length - LOG_LIMIT);
+      job.logLines++;
+      if (job.logFile) appendFileSync(job.logFile, JSON.stringify({ ts: Date.now(), line } satisfies JobLogLine) + "\n", "utf-8");
+    },
+    onProgress: (progress) => {
+      job.progress = progress;
+    },
+  };
+}
+
+/**
+ * Run a job and start the next ones. Whatever fails outside the handler
+ * (e.g. the log archive can't be written) fails the job instead of leaving
+ * it "running" — which would block its app's queue for good.
+ */
+async function start(entry: JobEntry): Promise<void> {
+  const { job } = entry;
+  try {
+    await run(entry);
+  } catch (err: any) {
+    if (!isFinished(job)) {
+      // The archive is what failed — don't write to it again
+      job.logFile = undefined;
+      broadcastDone({ success: false, phase: job.type, detail: err.message });
+      finish(entry, "failed", err.message);
+    }
+  }
+
+  if (runningJobs().length === 0) stopIntercepting();
+  pump();
+}
+
+async function run(entry: JobEntry): Promise<void> {
+  const { job } = entry;
+  job.status = "running";
+  job.phase = START_PHASES[job.type];
+  job.startedAt = new Date().toISOString();
+  job.logFile = getJobLogPath(job.app, job.id);
+  saveJobRecord(job);
+  startIntercepting();
+
+  const ctx: JobContext = {
+    job,
+    isCancelled: () => job.cancelRequested,
+    setPhase: (phase) => {
+      job.phase = phase;
+      broadcastStatus({ phase, app: job.app });
+    },
+    onCancel: (hook) => {
+      entry.cancelHooks.push(hook);
+    },
+  };
+
+  await runInJob(logContext(entry), async () => {
+    broadcastStatus({ phase: job.phase, app: job.app });
+    let outcome: JobOutcome;
+    try {
+      outcome = await entry.handler(ctx);
+    } catch (err: any) {
+      outcome = { success: false, detail: err.message };
+    }
+    if (outcome.runIds) job.runIds = outcome.runIds;
+
+    const status: JobStatus = job.cancelRequested ? "cancelled" : outcome.success ? "completed" : "failed";
+    broadcastDone({ success: status === "completed", phase: job.type, detail: outcome.detail });
+    finish(entry, status, outcome.detail);
+  });
+}
+
+// ============================================
+// LOG ARCHIVE
+// ============================================
+
+/** captures/{app}/jobs */
+export function getJobsDir(app: string): string {
+  return path.join(getAppDir(app), "jobs");
+}
+
+/** captures/{app}/jobs/{jobId}.jsonl */
+export function getJobLogPath(app: string, id: string): string {
+  return path.join(getJobsDir(app), `${id}.jsonl`);
+}
+
+function getJobRecordPath(app: string, id: string): string {
+  return path.join(getJobsDir(app), `${id}.json`);
+}
+
+function saveJobRecord(job: Job): void {
+  const dir = getJobsDir(job.app);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const { progress: _progress, ...record } = job;
+  writeFileSync(getJobRecordPath(job.app, job.id), JSON.stringify(record, null, 2), "utf-8");
+}
+
+/** A job from memory, or from its archive once it has left memory */
+function findJob(id: string): Job | undefined {
+  const current = entries.get(id)?.job;
+  if (current) return current;
+  if (!/^[\w-]+$/.test(id)) return undefined;
+
+  for (const app of APP_LIST) {
+    const file = getJobRecordPath(app, id);
+    if (!existsSync(file)) continue;
+    try {
+      const job = { ...JSON.parse(readFileSync(file, "utf-8")), progress: null } as Job;
+      // Still "running" on disk but not in memory — the server stopped during the job
+      if (job.status === "running" || job.status === "queued") {
+        job.status = "failed";
+        job.phase = "failed";
+        job.detail = "Server stopped during the job";
+      }
+      return job;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Page through a job's archived log — works for finished jobs from earlier
+ * server sessions too. Returns undefined for an unknown job.
+ */
+export function readJobLog(id: string, since = 0, limit = LOG_PAGE_SIZE): JobLogPage | undefined {
+  const job = findJob(id);
+  if (!job) return undefined;
+
+  const file = job.logFile ?? getJobLogPath(job.app, job.id);
+  const raw = existsSync(file) ? readFileSync(file, "utf-8").split("\n").filter(Boolean) : [];
+  const start = Math.max(0, Math.min(since, raw.length));
+  const lines = raw.slice(start, start + limit).map((l) => {
+    try {
+      return JSON.parse(l) as JobLogLine;
+    } catch {
+      // Line cut off mid-write
+      return { ts: 0, line: l };
+    }
+  });
+
+  const next = start + lines.length;
+  return { job, since: start, lines, total: raw.length, next, complete: isFinished(job) && next >= raw.length };
+}
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Queue a job. It starts right away when there is room and no other job
+ * of the same app is running. Throws on an unknown app.
+ */
+export function enqueueJob(
+  type: JobType,
+  app: string,
+  handler: JobHandler,
+  options: { params?: Record<string, unknown>; trigger?: RunTrigger } = {},
+): Job {
+  if (!APP_LIST.includes(app)) {
+    throw new Error(`Unknown app: "${app}". Available: ${APP_LIST.join(", ")}`);
+  }
+
+  const job: Job = {
+    id: randomUUID().slice(0, 8),
+    type,
+    app,
+    trigger: options.trigger ?? "manual",
+    status: "queued",
+    phase: "queued",
+    params: options.params ?? {},
+    createdAt: new Date().toISOString(),
+    progress: null,
+    cancelRequested: false,
+    logLines: 0,
+  };
+  entries.set(job.id, { job, handler, logs: [], cancelHooks: [], waiters: [] });
+  pump();
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return entries.get(id)?.job;
+}
+
+/**
+ * Jobs, newest first — optionally only one app's or one status
+ */
+export function listJobs(filter: { app?: string; status?: JobStatus } = {}): Job[] {
+  return [...entries.values()]
+    .map((e) => e.job)
+    .filter((j) => (!filter.app || j.app === filter.app) && (!filter.status || j.status === filter.status))
+    .reverse();
+}
+
+/** Queued and running jobs, oldest first */
+export function getActiveJobs(): Job[] {
+  return [...entries.values()].map((e) => e.job).filter((j) => !isFinished(j));
+}
+
+/** True while a job of `app` (and `type`, if given) is queued or running */
+export function hasActiveJob(app: string, type?: JobType): boolean {
+  return getActiveJobs().some((j) => j.app === app && (!type || j.type === type));
+}
+
+/**
+ * A job's log lines, starting at line `since` (for polling)
+ */
+export function getJobLogs(id: string, since = 0): string[] | undefined {
+  const entry = entries.get(id);
+  if (!entry) return undefined;
+  const dropped = entry.job.logLines - entry.logs.length;
+  return entry.logs.slice(Math.max(0, since - dropped));
+}
+
+/**
+ * Cancel a job — queued jobs are dropped, running jobs stop at their next
+ * check. Throws when the job has already finished.
+ */
+export function cancelJob(id: string): Job | undefined {
+  const entry = entries.get(id);
+  if (!entry) return undefined;
+  const { job } = entry;
+  if (isFinished(job)) throw new Error(`Job ${id} already ${job.status}`);
+
+  if (job.status === "queued") {
+    finish(entry, "cancelled", "Cancelled before it started");
+    runInJob(logContext(entry), () => {
+      broadcastDone({ success: false, phase: job.type, detail: job.detail });
+    });
+    return job;
+  }
+
+  if (!job.cancelRequested) {
+    job.cancelRequested = true;
+    runInJob(logContext(entry), () => {
+      broadcastLog(`\n⚠ Cancel requested — ${job.type} job ${job.id} will stop after the current step...`);
+    });
+    for (const hook of entry.cancelHooks) hook();
+  }
+  return job;
+}
+
+/** Resolves with the job once it has finished */
+export function waitForJob(id: string): Promise<Job> {
+  const entry = entries.get(id);
+  if (!entry) return Promise.reject(new Error(`Unknown job: ${id}`));
+  if (isFinished(entry.job)) return Promise.resolve(entry.job);
+  return new Promise((resolve) => entry.waiters.push(resolve));
+}
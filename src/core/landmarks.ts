@@ -0,0 +1,94 @@
+import fs from "fs";
+import type { Page } from "playwright";
+
+/**
+ * Page landmarks — bounding boxes of recognizable elements (header, nav,
+ * headings, table rows, buttons…) recorded next to each screenshot as
+ * `{name}.landmarks.json`. The compare engine uses them to name diff
+ * regions ("header", "table row 4", "footer") instead of bare coordinates.
+ */
+
+export interface Landmark {
+  /** Human-readable name (e.g., "header", "table row 4", 'heading "Users"') */
+  label: string;
+  /** Box in document pixels (matches full-page screenshot coordinates) */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Upper bound on landmarks stored per screenshot */
+const MAX_LANDMARKS = 400;
+
+const LANDMARK_SELECTOR = [
+  "header", "nav", "main", "footer", "aside", "section", "form", "dialog", "table", "tr",
+  "h1", "h2", "h3", "button", "img",
+  "[role=banner]", "[role=navigation]", "[role=main]", "[role=contentinfo]", "[role=dialog]",
+  "mat-card", "mat-toolbar", "mat-sidenav",
+].join(", ");
+
+/**
+ * Collect visible landmarks from the current page
+ */
+export async function collectLandmarks(page: Page): Promise<Landmark[]> {
+  try {
+    return await page.evaluate(({ selector, max }) => {
+      const text = (el: Element) => (el.textContent ?? "").trim().replace(/\s+/g, " ").slice(0, 30);
+      const describe = (el: Element): string => {
+        const tag = el.tagName.toLowerCase();
+        if (tag === "tr") {
+          const table = el.closest("table");
+          const rows = table ? Array.from(table.querySelectorAll("tr")) : [el];
+          return `table row ${rows.indexOf(el as HTMLTableRowElement) + 1}`;
+        }
+        if (/^h[1-3]$/.test(tag)) return `heading "${text(el)}"`;
+        if (tag === "button") return text(el) ? `button "${text(el)}"` : "button";
+        const aria = el.getAttribute("aria-label");
+        if (aria) return `${tag} "${aria.slice(0, 30)}"`;
+        const role = el.getAttribute("role");
+        if (role) return role === "banner" ? "header" : role === "contentinfo" ? "footer" : role;
+        return el.id ? `${tag}#${el.id}` : tag;
+      };
+
+      const out: Array<{ label: string; x: number; y: number; width: number; height: number }> = [];
+      for (const el of Array.from(document.querySelectorAll(selector))) {
+        const rect = el.getBoundingClientRect();
+        if (rect.width < 4 || rect.height < 4) continue;
+        out.push({
+          label: describe(el),
+          x: Math.round(rect.left + window.scrollX),
+          y: Math.round(rect.top + window.scrollY),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        });
+        if (out.length >= max) break;
+      }
+      return out;
+    }, { selector: LANDMARK_SELECTOR, max: MAX_LANDMARKS });
+  } catch {
+    return [];
+  }
+}
+
+function landmarksPath(screenshotPath: string): string {
+  return screenshotPath.replace(/\.png$/, ".landmarks.json");
+}
+
+export function saveLandmarks(screenshotPath: string, landmarks: Landmark[]): void {
+  if (landmarks.length === 0) return;
+  fs.writeFileSync(landmarksPath(screenshotPath), JSON.stringify(landmarks), "utf-8");
+}
+
+/**
+ * Landmarks recorded for a screenshot, or [] for older captures without them
+ */
+export function loadLandmarks(screenshotPath: string): Landmark[] {
+  const file = landmarksPath(screenshotPath);
+  if (!fs.existsSync(file)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Landmark[];
+  } catch {
+    return [];
+  }
+}
@@ -4,8 +4,15 @@
  * When the web dashboard is active, all console.log / console.error output
  * is forwarded to connected WebSocket clients as JSON messages while still
  * printing to the real terminal.
+ *
+ * Output produced inside runInJob() is tagged with that job's ID and app, and
+ * handed to the job so it keeps its own log and progress.
+ *
+ * The latest log and completion messages are buffered so clients that
+ * connect late (or reload) can be sent the history first.
  */
 
+import { AsyncLocalStorage } from "async_hooks";
 import type { ServerWebSocket } from "bun";
 
 // Set of connected WebSocket clients
@@ -18,6 +25,29 @@ const _origWarn = console.warn;
 
 let intercepting = false;
 
+/** A message as sent to clients */
+export interface StreamMessage {
+  type: string;
+  data: unknown;
+  jobId?: string;
+  app?: string;
+  ts: number;
+}
+
+/** Log and completion messages kept for replay */
+const HISTORY_LIMIT = 1000;
+const history: StreamMessage[] = [];
+
+/** The job a piece of async work belongs to */
+export interface JobLogContext {
+  jobId: string;
+  app: string;
+  onLog: (line: string) => void;
+  onProgress: (progress: ProgressEvent | null) => void;
+}
+
+const jobContext = new AsyncLocalStorage<JobLogContext>();
+
 // ============================================
 // CLIENT MANAGEMENT
 // ============================================
@@ -39,8 +69,15 @@ export function getClientCount(): number {
 // ============================================
 
 function broadcast(type: string, data: unknown): void {
+  const job = jobContext.getStore();
+  const message: StreamMessage = { type, data, jobId: job?.jobId, app: job?.app, ts: Date.now() };
+  if (type === "log" || type === "done") {
+    history.push(message);
+    if (history.length > HISTORY_LIMIT) history.splice(0, history.length - HISTORY_LIMIT);
+  }
+
   if (clients.size === 0) return;
-  const msg = JSON.stringify({ type, data, ts: Date.now() });
+  const msg = JSON.stringify(message);
   for (const ws of clients) {
     try {
       ws.send(msg);
@@ -52,6 +89,7 @@ function broadcast(type: string, data: unknown): void {
 
 /** Send a log line to all connected clients */
 export function broadcastLog(line: string): void {
+  jobContext.getStore()?.onLog(line);
   broadcast("log", line);
 }
 
@@ -66,15 +104,57 @@ export function broadcastStatus(status: {
   broadcast("status", status);
 }
 
+/** Latest progress event — exposed via /api/status while a long step runs */
+let lastProgress: ProgressEvent | null = null;
+
+export interface ProgressEvent {
+  phase: string;
+  /** Items finished so far */
+  done: number;
+  total: number;
+  /** What just finished (e.g., a screenshot filename) */
+  detail?: string;
+}
+
+/** Send an item-level progress update (e.g., one screenshot diffed) */
+export function broadcastProgress(progress: ProgressEvent): void {
+  lastProgress = progress.done < progress.total ? progress : null;
+  jobContext.getStore()?.onProgress(lastProgress);
+  broadcast("progress", progress);
+}
+
+export function getLastProgress(): ProgressEvent | null {
+  return lastProgress;
+}
+
+/** Buffered log and completion messages, oldest first — replayed to new clients */
+export function getHistory(): StreamMessage[] {
+  return [...history];
+}
+
 /** Send a completion event */
 export function broadcastDone(result: {
   success: boolean;
   phase: string;
   detail?: string;
 }): void {
+  lastProgress = null;
+  jobContext.getStore()?.onProgress(null);
   broadcast("done", result);
 }
 
+// ============================================
+// JOB CONTEXT
+// ============================================
+
+/**
+ * Run `fn` as part of a job — logs, progress and events broadcast from it
+ * (and from everything it awaits) carry the job's ID
+ */
+export function runInJob<T>(context: JobLogContext, fn: () => T): T {
+  return jobContext.run(context, fn);
+}
+
 // ============================================
 // CONSOLE INTERCEPTION
 // ============================================
@@ -1,10 +1,9 @@
 import { existsSync, mkdirSync, writeFileSync, readFileSync } from "fs";
 import path from "path";
-import { getCurrentApp } from "./config";
 import { getAppDir } from "./runs";
 
-function getLogFile(): string {
-  return path.join(getAppDir(getCurrentApp()), "interaction-log.json");
+function getLogFile(app: string): string {
+  return path.join(getAppDir(app), "interaction-log.json");
 }
 
 export type LogStatus = "success" | "failed" | "skipped";
@@ -13,6 +12,8 @@ export interface InteractionLogEntry {
   timestamp: string;
   environment: string;
   pagePath: string;
+  /** Viewport tag when capturing a viewport matrix */
+  viewport?: string;
   interactionId: string;
   description: string;
   status: LogStatus;
@@ -36,8 +37,8 @@ export interface InteractionLog {
 /**
  * Load existing log or create a new one
  */
-export function loadLog(): InteractionLog {
-  const logFile = getLogFile();
+export function loadLog(app: string): InteractionLog {
+  const logFile = getLogFile(app);
   if (existsSync(logFile)) {
     try {
       const content = readFileSync(logFile, "utf-8");
@@ -69,8 +70,8 @@ export function createFreshLog(): InteractionLog {
 /**
  * Save log to disk
  */
-export function saveLog(log: InteractionLog): void {
-  const logFile = getLogFile();
+export function saveLog(app: string, log: InteractionLog): void {
+  const logFile = getLogFile(app);
   const dir = path.dirname(logFile);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -83,6 +84,7 @@ export function saveLog(log: InteractionLog): void {
  * Add an entry to the log
  */
 export function logInteraction(
+  app: string,
   log: InteractionLog,
   entry: Omit<InteractionLogEntry, "timestamp">
 ): void {
@@ -102,7 +104,7 @@ export function logInteraction(
     log.summary.skipped++;
   }
   
-  saveLog(log);
+  saveLog(app, log);
 }
 
 /**
@@ -112,6 +114,18 @@ export function getFailedInteractions(log: InteractionLog): InteractionLogEntry[
   return log.entries.filter((e) => e.status === "failed");
 }
 
+/**
+ * Interactions whose latest attempt failed — the log keeps every attempt,
+ * so one that failed and then succeeded on a retry is not counted
+ */
+export function getOutstandingFailures(log: InteractionLog): InteractionLogEntry[] {
+  const latest = new Map<string, InteractionLogEntry>();
+  for (const entry of log.entries) {
+    latest.set(`${entry.environment}:${entry.pagePath}@${entry.viewport ?? ""}#${entry.interactionId}`, entry);
+  }
+  return [...latest.values()].filter((e) => e.status === "failed");
+}
+
 /**
  * Get failed interactions grouped by page
  */
@@ -137,12 +151,14 @@ export function hasSucceeded(
   log: InteractionLog,
   environment: string,
   pagePath: string,
-  interactionId: string
+  interactionId: string,
+  viewport?: string
 ): boolean {
   return log.entries.some(
     (e) =>
       e.environment === environment &&
       e.pagePath === pagePath &&
+      e.viewport === viewport &&
       e.interactionId === interactionId &&
       e.status === "success"
   );
@@ -187,7 +203,8 @@ function generateFailureReport(log: InteractionLog): string {
     md += `### ${env}: ${pagePath}\n\n`;
     
     for (const entry of entries) {
-      md += `- **${entry.interactionId}**: ${entry.description}\n`;
+      const viewportNote = entry.viewport ? ` (${entry.viewport})` : "";
+      md += `- **${entry.interactionId}**${viewportNote}: ${entry.description}\n`;
       if (entry.error) {
         md += `  - Error: \`${entry.error.substring(0, 200)}\`\n`;
       }
@@ -204,8 +221,8 @@ function generateFailureReport(log: InteractionLog): string {
 /**
  * Save failure report to file
  */
-export function saveFailureReport(log: InteractionLog): string {
-  const reportPath = path.join(getAppDir(getCurrentApp()), "failure-report.md");
+export function saveFailureReport(app: string, log: InteractionLog): string {
+  const reportPath = path.join(getAppDir(app), "failure-report.md");
   const content = generateFailureReport(log);
   writeFileSync(reportPath, content, "utf-8");
   return reportPath;
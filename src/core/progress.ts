@@ -1,10 +1,10 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from "fs";
 import path from "path";
-import { environments, getCurrentApp } from "./config";
+import { environments, getBrowsers, envBrowserKey } from "./config";
 import { getAppDir } from "./runs";
 
-function getProgressFile(): string {
-  return path.join(getAppDir(getCurrentApp()), "progress.json");
+function getProgressFile(app: string): string {
+  return path.join(getAppDir(app), "progress.json");
 }
 
 export interface EnvironmentProgress {
@@ -16,23 +16,41 @@ export interface EnvironmentProgress {
 }
 
 export interface ProgressManifest {
+  /** App the progress belongs to — marks are saved to its progress.json */
+  app: string;
   discoveredPages: string[];
+  /** Keyed by envBrowserKey() — e.g., "develop", "develop:webkit" */
   environments: Record<string, EnvironmentProgress>;
 }
 
-export function loadProgress(): ProgressManifest | null {
-  const progressFile = getProgressFile();
+/**
+ * Progress keys for every configured environment × browser
+ */
+function getProgressKeys(): string[] {
+  return environments.flatMap((e) => getBrowsers().map((b) => envBrowserKey(e.name, b)));
+}
+
+/**
+ * Key used to track a page in progress — the page path, plus the viewport
+ * tag when capturing a viewport matrix (e.g., "/login@mobile").
+ */
+export function pageKey(pagePath: string, viewport?: string): string {
+  return viewport ? `${pagePath}@${viewport}` : pagePath;
+}
+
+export function loadProgress(app: string): ProgressManifest | null {
+  const progressFile = getProgressFile(app);
   if (!existsSync(progressFile)) return null;
   try {
     const text = readFileSync(progressFile, "utf-8");
-    return JSON.parse(text) as ProgressManifest;
+    return { ...(JSON.parse(text) as ProgressManifest), app };
   } catch {
     return null;
   }
 }
 
-export function saveProgress(manifest: ProgressManifest): void {
-  const progressFile = getProgressFile();
+export function saveProgress(app: string, manifest: ProgressManifest): void {
+  const progressFile = getProgressFile(app);
   const dir = path.dirname(progressFile);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -40,24 +58,24 @@ export function saveProgress(manifest: ProgressManifest): void {
   writeFileSync(progressFile, JSON.stringify(manifest, null, 2), "utf-8");
 }
 
-export function deleteProgress(): void {
-  const progressFile = getProgressFile();
+export function deleteProgress(app: string): void {
+  const progressFile = getProgressFile(app);
   if (existsSync(progressFile)) {
     unlinkSync(progressFile);
   }
 }
 
-export function createFreshManifest(): ProgressManifest {
+export function createFreshManifest(app: string): ProgressManifest {
   const envs: Record<string, EnvironmentProgress> = {};
-  for (const env of environments) {
-    envs[env.name] = {
+  for (const key of getProgressKeys()) {
+    envs[key] = {
       capturedPages: [],
       capturedInteractions: {},
       complete: false,
       lastUpdated: new Date().toISOString(),
     };
   }
-  return { discoveredPages: [], environments: envs };
+  return { app, discoveredPages: [], environments: envs };
 }
 
 export function markPageCaptured(
@@ -71,7 +89,7 @@ export function markPageCaptured(
     env.capturedPages.push(pagePath);
   }
   env.lastUpdated = new Date().toISOString();
-  saveProgress(manifest);
+  saveProgress(manifest.app, manifest);
 }
 
 export function markEnvironmentComplete(
@@ -82,7 +100,7 @@ export function markEnvironmentComplete(
   if (!env) return;
   env.complete = true;
   env.lastUpdated = new Date().toISOString();
-  saveProgress(manifest);
+  saveProgress(manifest.app, manifest);
 }
 
 export function isPageCaptured(
@@ -129,7 +147,7 @@ export function markInteractionCaptured(
     env.capturedInteractions[pagePath].push(interactionId);
   }
   env.lastUpdated = new Date().toISOString();
-  saveProgress(manifest);
+  saveProgress(manifest.app, manifest);
 }
 
 export function isEnvironmentComplete(
@@ -149,15 +167,15 @@ export function isEnvironmentComplete(
 }
 
 export function allEnvironmentsComplete(manifest: ProgressManifest): boolean {
-  return environments.every((e) => isEnvironmentComplete(manifest, e.name));
+  return getProgressKeys().every((key) => isEnvironmentComplete(manifest, key));
 }
 
 /**
  * Check if there's a mismatch between environments (one has more pages than another)
  */
 export function hasEnvironmentMismatch(manifest: ProgressManifest): boolean {
-  const pageCounts = environments.map((e) => {
-    const env = manifest.environments[e.name];
+  const pageCounts = getProgressKeys().map((key) => {
+    const env = manifest.environments[key];
     return env?.capturedPages.length ?? 0;
   });
   
@@ -173,17 +191,17 @@ export function printProgressSummary(manifest: ProgressManifest): void {
   if (manifest.discoveredPages.length > 0) {
     console.log(`Discovered pages: ${manifest.discoveredPages.length}`);
   }
-  for (const env of environments) {
-    const ep = manifest.environments[env.name];
+  for (const key of getProgressKeys()) {
+    const ep = manifest.environments[key];
     if (!ep) {
-      console.log(`  ${env.name}: no data`);
+      console.log(`  ${key}: no data`);
       continue;
     }
     const status = ep.complete ? "COMPLETE" : "in progress";
     const interactionCount = ep.capturedInteractions
       ? Object.values(ep.capturedInteractions).reduce((sum, arr) => sum + arr.length, 0)
       : 0;
-    console.log(`  ${env.name}: ${ep.capturedPages.length} pages, ${interactionCount} interactions (${status})`);
+    console.log(`  ${key}: ${ep.capturedPages.length} pages, ${interactionCount} interactions (${status})`);
   }
   console.log("------------------------\n");
 }
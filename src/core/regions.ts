@@ -0,0 +1,135 @@
+import type { PNG } from "pngjs";
+import type { CompareSettings, RGBColor } from "../types/config";
+import type { Landmark } from "./landmarks";
+
+/**
+ * Diff region clustering — groups changed pixels from a pixelmatch diff
+ * image into connected regions so reviewers can jump straight to each change.
+ *
+ * Pixels are bucketed into square cells; changed cells closer than
+ * `regionMergeDistance` are merged (8-connected flood fill over a dilated
+ * grid), and each cluster's box is tightened to its actual changed pixels.
+ */
+
+export interface DiffRegion {
+  /** 1-based number, top-to-bottom then left-to-right */
+  index: number;
+  /** Bounding box in screenshot pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Changed pixels inside the region */
+  pixels: number;
+  /** Best-matching landmark (e.g., "header", "table row 4") or a position fallback */
+  label: string;
+}
+
+const CELL = 8;
+
+function isChanged(data: Buffer, idx: number, colors: RGBColor[]): boolean {
+  const r = data[idx], g = data[idx + 1], b = data[idx + 2];
+  return colors.some((c) => c[0] === r && c[1] === g && c[2] === b);
+}
+
+/** Position fallback when no landmark covers the region */
+function positionLabel(y: number, height: number, imageHeight: number): string {
+  const center = (y + height / 2) / imageHeight;
+  if (center < 0.15) return "top of page";
+  if (center > 0.85) return "bottom of page";
+  return `middle of page (${Math.round(center * 100)}%)`;
+}
+
+/**
+ * Smallest landmark that covers at least half of the region
+ */
+function labelRegion(
+  box: { x: number; y: number; width: number; height: number },
+  landmarks: Landmark[],
+  imageHeight: number,
+): string {
+  const area = box.width * box.height;
+  let best: Landmark | undefined;
+  for (const lm of landmarks) {
+    const ix = Math.max(0, Math.min(box.x + box.width, lm.x + lm.width) - Math.max(box.x, lm.x));
+    const iy = Math.max(0, Math.min(box.y + box.height, lm.y + lm.height) - Math.max(box.y, lm.y));
+    if (ix * iy < area * 0.5) continue;
+    if (!best || lm.width * lm.height < best.width * best.height) best = lm;
+  }
+  return best?.label ?? positionLabel(box.y, box.height, imageHeight);
+}
+
+/**
+ * Cluster the changed pixels of a diff image into regions
+ */
+export function findDiffRegions(
+  diff: PNG,
+  settings: CompareSettings,
+  landmarks: Landmark[] = [],
+): DiffRegion[] {
+  const { width, height, data } = diff;
+  const colors = [settings.diffColor, ...(settings.diffColorAlt ? [settings.diffColorAlt] : [])];
+  const cols = Math.ceil(width / CELL);
+  const rows = Math.ceil(height / CELL);
+
+  // Per-cell changed-pixel counts and tight pixel bounds
+  const counts = new Uint32Array(cols * rows);
+  const minX = new Int32Array(cols * rows).fill(width);
+  const minY = new Int32Array(cols * rows).fill(height);
+  const maxX = new Int32Array(cols * rows).fill(-1);
+  const maxY = new Int32Array(cols * rows).fill(-1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isChanged(data, (y * width + x) * 4, colors)) continue;
+      const c = Math.floor(y / CELL) * cols + Math.floor(x / CELL);
+      counts[c]!++;
+      if (x < minX[c]!) minX[c] = x;
+      if (y < minY[c]!) minY[c] = y;
+      if (x > maxX[c]!) maxX[c] = x;
+      if (y > maxY[c]!) maxY[c] = y;
+    }
+  }
+
+  // Flood fill over cells, treating cells within the merge distance as neighbours
+  const reach = Math.max(1, Math.ceil(settings.regionMergeDistance / CELL));
+  const visited = new Uint8Array(cols * rows);
+  const clusters: Array<Omit<DiffRegion, "index" | "label">> = [];
+  for (let start = 0; start < counts.length; start++) {
+    if (counts[start] === 0 || visited[start]) continue;
+    visited[start] = 1;
+    const stack = [start];
+    const box = { x0: width, y0: height, x1: -1, y1: -1, pixels: 0 };
+    while (stack.length > 0) {
+      const c = stack.pop()!;
+      box.pixels += counts[c]!;
+      box.x0 = Math.min(box.x0, minX[c]!);
+      box.y0 = Math.min(box.y0, minY[c]!);
+      box.x1 = Math.max(box.x1, maxX[c]!);
+      box.y1 = Math.max(box.y1, maxY[c]!);
+      const cx = c % cols;
+      const cy = Math.floor(c / cols);
+      for (let ny = Math.max(0, cy - reach); ny <= Math.min(rows - 1, cy + reach); ny++) {
+        for (let nx = Math.max(0, cx - reach); nx <= Math.min(cols - 1, cx + reach); nx++) {
+          const n = ny * cols + nx;
+          if (counts[n] === 0 || visited[n]) continue;
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    clusters.push({
+      x: box.x0,
+      y: box.y0,
+      width: box.x1 - box.x0 + 1,
+      height: box.y1 - box.y0 + 1,
+      pixels: box.pixels,
+    });
+  }
+
+  // Keep the largest regions, then number them in reading order
+  return clusters
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, settings.maxRegions)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map((r, i) => ({ ...r, index: i + 1, label: labelRegion(r, landmarks, height) }));
+}
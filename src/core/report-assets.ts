@@ -0,0 +1,205 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { PNG } from "pngjs";
+import type { ReportImageMode } from "./config";
+
+/**
+ * Report assets — how the HTML report references its screenshots.
+ *
+ * "linked" (default): every image is hardlinked into the report folder
+ * (copied when the report lives on another device), and a reduced-width
+ * thumbnail is written for the cards. Cards load thumbnails lazily; the
+ * modal opens the full image. index.html stays small however many
+ * screenshots there are.
+ *
+ *   reports/cariloop-{app}/
+ *     index.html
+ *     assets/
+ *       full/{name}-{hash}.png     ← hardlink or copy of the screenshot/diff
+ *       thumbs/{name}-{hash}.png   ← downscaled for the cards
+ *
+ * "embedded": images are inlined as base64 data URIs, so index.html is one
+ * self-contained file — handy for email, but large for big apps.
+ *
+ * Assets are named after their source path, so unchanged images are reused
+ * on the next report and ones no longer referenced are removed.
+ */
+
+/** Sources for one image — empty strings when the file is missing */
+export interface ReportImage {
+  /** For the card */
+  thumb: string;
+  /** For the modal (same as thumb when no thumbnail was made) */
+  full: string;
+}
+
+export interface ReportAssets {
+  mode: ReportImageMode;
+  image(filepath: string): ReportImage;
+  /** Remove assets the report no longer uses */
+  finish(): { images: number; thumbnails: number; removed: number };
+}
+
+const ASSETS_DIR = "assets";
+
+// ============================================
+// IMAGE HELPERS
+// ============================================
+
+function imageToBase64(filepath: string): string {
+  const buffer = fs.readFileSync(filepath);
+  return `data:image/png;base64,${buffer.toString("base64")}`;
+}
+
+/** "login-3f9a1c2e4b.png" — stable per source path */
+function assetName(filepath: string): string {
+  const hash = createHash("sha1").update(path.resolve(filepath)).digest("hex").slice(0, 10);
+  return `${path.basename(filepath, path.extname(filepath))}-${hash}.png`;
+}
+
+/** True when `target` already holds the current version of `source` */
+function isFresh(source: fs.Stats, target: string): boolean {
+  if (!fs.existsSync(target)) return false;
+  const stat = fs.statSync(target);
+  if (stat.ino === source.ino && stat.dev === source.dev) return true;
+  return stat.size === source.size && stat.mtimeMs >= source.mtimeMs;
+}
+
+function linkOrCopy(source: string, target: string): void {
+  if (fs.existsSync(target)) fs.unlinkSync(target);
+  try {
+    fs.linkSync(source, target);
+  } catch {
+    // Different device or no hardlink support
+    fs.copyFileSync(source, target);
+  }
+}
+
+/**
+ * Downscale a PNG to `width` (keeping its aspect ratio) by averaging each
+ * block of source pixels
+ */
+export function resizePng(src: PNG, width: number): PNG {
+  const scale = src.width / width;
+  const height = Math.max(1, Math.round(src.height / scale));
+  const out = new PNG({ width, height });
+
+  for (let dy = 0; dy < height; dy++) {
+    const y0 = Math.floor(dy * scale);
+    const y1 = Math.min(src.height, Math.max(y0 + 1, Math.floor((dy + 1) * scale)));
+    for (let dx = 0; dx < width; dx++) {
+      const x0 = Math.floor(dx * scale);
+      const x1 = Math.min(src.width, Math.max(x0 + 1, Math.floor((dx + 1) * scale)));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * src.width + x) * 4;
+          r += src.data[i]!;
+          g += src.data[i + 1]!;
+          b += src.data[i + 2]!;
+          a += src.data[i + 3]!;
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (dy * width + dx) * 4;
+      out.data[o] = r / count;
+      out.data[o + 1] = g / count;
+      out.data[o + 2] = b / count;
+      out.data[o + 3] = a / count;
+    }
+  }
+  return out;
+}
+
+// ============================================
+// ASSETS
+// ============================================
+
+/**
+ * Image sources for one report. Call finish() once the HTML is rendered.
+ */
+export function createReportAssets(reportsDir: string, mode: ReportImageMode, thumbnailWidth: number): ReportAssets {
+  const assetsDir = path.join(reportsDir, ASSETS_DIR);
+  const fullDir = path.join(assetsDir, "full");
+  const thumbsDir = path.join(assetsDir, "thumbs");
+  const resolved = new Map<string, ReportImage>();
+  const used = new Set<string>();
+  let thumbnails = 0;
+
+  if (mode === "linked") {
+    fs.mkdirSync(fullDir, { recursive: true });
+    fs.mkdirSync(thumbsDir, { recursive: true });
+  }
+
+  function linkImage(filepath: string): ReportImage {
+    const name = assetName(filepath);
+    const source = fs.statSync(filepath);
+    const fullPath = path.join(fullDir, name);
+    if (!isFresh(source, fullPath)) linkOrCopy(filepath, fullPath);
+    used.add(fullPath);
+    const full = `${ASSETS_DIR}/full/${name}`;
+
+    const thumbPath = path.join(thumbsDir, name);
+    if (fs.existsSync(thumbPath) && fs.statSync(thumbPath).mtimeMs >= source.mtimeMs) {
+      used.add(thumbPath);
+      thumbnails++;
+      return { thumb: `${ASSETS_DIR}/thumbs/${name}`, full };
+    }
+
+    let png: PNG;
+    try {
+      png = PNG.sync.read(fs.readFileSync(filepath));
+    } catch {
+      // Undecodable (a pair that couldn't be diffed) — the card links the file as is
+      return { thumb: full, full };
+    }
+    // Already small enough — the card uses the full image
+    if (png.width <= thumbnailWidth) return { thumb: full, full };
+
+    fs.writeFileSync(thumbPath, PNG.sync.write(resizePng(png, thumbnailWidth)));
+    used.add(thumbPath);
+    thumbnails++;
+    return { thumb: `${ASSETS_DIR}/thumbs/${name}`, full };
+  }
+
+  return {
+    mode,
+    image(filepath: string): ReportImage {
+      if (!filepath || !fs.existsSync(filepath)) return { thumb: "", full: "" };
+      const cached = resolved.get(filepath);
+      if (cached) return cached;
+
+      let image: ReportImage;
+      if (mode === "embedded") {
+        const data = imageToBase64(filepath);
+        image = { thumb: data, full: data };
+      } else {
+        image = linkImage(filepath);
+      }
+      resolved.set(filepath, image);
+      return image;
+    },
+
+    finish() {
+      let removed = 0;
+      if (mode === "embedded") {
+        // A previous linked report's assets are no longer referenced
+        if (fs.existsSync(assetsDir)) {
+          removed = fs.existsSync(fullDir) ? fs.readdirSync(fullDir).length : 0;
+          fs.rmSync(assetsDir, { recursive: true, force: true });
+        }
+      } else {
+        for (const dir of [fullDir, thumbsDir]) {
+          for (const file of fs.readdirSync(dir)) {
+            const filePath = path.join(dir, file);
+            if (used.has(filePath)) continue;
+            fs.unlinkSync(filePath);
+            removed++;
+          }
+        }
+      }
+      return { images: resolved.size, thumbnails, removed };
+    },
+  };
+}
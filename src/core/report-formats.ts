@@ -0,0 +1,197 @@
+import type { ComparisonResult } from "./compare";
+import { getCompareSettings, resolvePagePath, projectConfig, type DiffSeverity } from "./config";
+import { parseFilename } from "../utils/paths";
+
+/**
+ * Machine-readable report formats — the same ComparisonResult[] the HTML
+ * report is built from, rendered for merge requests and test dashboards:
+ *
+ *   report.json   ← summary + every result
+ *   junit.xml     ← one testcase per page/interaction, failing at severity "fail"
+ *   summary.md    ← summary line + table
+ *
+ * generateReport() in report.ts decides which of these to write.
+ */
+
+export interface ReportSummary {
+  total: number;
+  pass: number;
+  warn: number;
+  fail: number;
+  added: number;
+  removed: number;
+  /** Pairs that couldn't be diffed (counted as failures) */
+  error: number;
+  /** Average diff over compared pairs (added/removed/error left out) */
+  avgDiff: number;
+}
+
+export function summarizeResults(results: ComparisonResult[]): ReportSummary {
+  const summary: ReportSummary = { total: results.length, pass: 0, warn: 0, fail: 0, added: 0, removed: 0, error: 0, avgDiff: 0 };
+  let diffSum = 0;
+  let compared = 0;
+  for (const r of results) {
+    summary[r.severity]++;
+    if (r.status === "compared") {
+      diffSum += r.diffPercentage;
+      compared++;
+    } else {
+      summary[r.status]++;
+    }
+  }
+  summary.avgDiff = compared > 0 ? diffSum / compared : 0;
+  return summary;
+}
+
+/** "/admin/users [add-user] @mobile" */
+function resultName(r: ComparisonResult): string {
+  let name = r.pagePath;
+  if (r.interactionId) name += ` [${r.interactionId}]`;
+  if (r.viewport) name += ` @${r.viewport}`;
+  return name;
+}
+
+/** "develop (260217-001) vs local (260217-001)" */
+function pairName(r: ComparisonResult): string {
+  return `${r.env1Label} vs ${r.env2Label}`;
+}
+
+/** One-line outcome: "12.40% diff (fail ≥ 5%)", "Added in local (260217-001)", "Missing in local (260217-001)", "Could not diff: …" */
+function describeResult(app: string, r: ComparisonResult): string {
+  if (r.status === "added") return `Added in ${r.env2Label}`;
+  if (r.status === "removed") return `Missing in ${r.env2Label}`;
+  if (r.status === "error") return `Could not diff: ${r.error ?? "unknown error"}`;
+
+  // Diff manifests from before page paths were resolved carry the one parsed from the filename
+  const pagePath = r.pagePath === parseFilename(r.filename).pagePath ? resolvePagePath(app, r.filename) : r.pagePath;
+  const settings = getCompareSettings(app, pagePath);
+  let text = `${r.diffPercentage.toFixed(2)}% diff`;
+  if (r.ssim !== undefined) text += `, SSIM ${r.ssim.toFixed(4)}`;
+  if (r.severity !== "pass") {
+    const cutoff = settings.metric === "ssim" && r.ssim !== undefined
+      ? `SSIM < ${r.severity === "fail" ? settings.ssimFailBelow : settings.ssimWarnBelow}`
+      : `≥ ${r.severity === "fail" ? settings.failThreshold : settings.warnThreshold}%`;
+    text += ` (${r.severity} ${cutoff})`;
+  }
+  if (r.regions.length > 0) text += ` — ${r.regions.map((g) => g.label).join(", ")}`;
+  return text;
+}
+
+// ============================================
+// JSON
+// ============================================
+
+export function renderJsonReport(app: string, results: ComparisonResult[]): string {
+  return JSON.stringify({
+    app,
+    version: projectConfig.version,
+    generatedAt: new Date().toISOString(),
+    summary: summarizeResults(results),
+    results,
+  }, null, 2);
+}
+
+// ============================================
+// JUNIT XML
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * One testsuite per compared pair, one testcase per page and interaction.
+ * Severity "fail" (and added/removed screenshots) become <failure>; pairs
+ * that couldn't be diffed become <error>; "warn" passes with the diff in
+ * <system-out>.
+ */
+export function renderJUnitReport(app: string, results: ComparisonResult[]): string {
+  const suites = new Map<string, ComparisonResult[]>();
+  for (const r of results) suites.set(pairName(r), [...(suites.get(pairName(r)) ?? []), r]);
+
+  const summary = summarizeResults(results);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="UI Police — ${escapeXml(app)}" tests="${summary.total}" failures="${summary.fail - summary.error}" errors="${summary.error}">`,
+  ];
+
+  for (const [pair, cases] of suites) {
+    const errors = cases.filter((r) => r.status === "error").length;
+    const failures = cases.filter((r) => r.severity === "fail").length - errors;
+    lines.push(`  <testsuite name="${escapeXml(`cariloop-${app}: ${pair}`)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="0">`);
+    for (const r of cases) {
+      const attrs = `name="${escapeXml(resultName(r))}" classname="${escapeXml(`cariloop-${app}.${r.env1Name && r.env2Name ? `${r.env1Name}-vs-${r.env2Name}` : "diff"}`)}" file="${escapeXml(r.filename)}"`;
+      const outcome = escapeXml(describeResult(app, r));
+      if (r.status === "error") {
+        lines.push(`    <testcase ${attrs}>`);
+        lines.push(`      <error message="${outcome}" type="DiffError">${escapeXml(`${r.env1Screenshot}\n${r.env2Screenshot}`)}</error>`);
+        lines.push(`    </testcase>`);
+      } else if (r.severity === "fail") {
+        const type = r.status === "compared" ? "VisualDiff" : r.status === "added" ? "ScreenshotAdded" : "ScreenshotRemoved";
+        lines.push(`    <testcase ${attrs}>`);
+        lines.push(`      <failure message="${outcome}" type="${type}">${escapeXml(r.diffScreenshot || r.env1Screenshot || r.env2Screenshot)}</failure>`);
+        lines.push(`    </testcase>`);
+      } else if (r.severity === "warn") {
+        lines.push(`    <testcase ${attrs}>`);
+        lines.push(`      <system-out>${outcome}</system-out>`);
+        lines.push(`    </testcase>`);
+      } else {
+        lines.push(`    <testcase ${attrs} />`);
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+// ============================================
+// MARKDOWN
+// ============================================
+
+const SEVERITY_ICONS: Record<DiffSeverity, string> = { pass: "✅", warn: "⚠️", fail: "❌" };
+
+/** Pipes and newlines would break the table */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Summary line plus one table row per result, failures first
+ */
+export function renderMarkdownReport(app: string, displayName: string, results: ComparisonResult[]): string {
+  const summary = summarizeResults(results);
+  const pairs = [...new Set(results.map(pairName))];
+  const rank: Record<DiffSeverity, number> = { fail: 0, warn: 1, pass: 2 };
+  const sorted = [...results].sort((a, b) =>
+    rank[a.severity] - rank[b.severity] || b.diffPercentage - a.diffPercentage || a.filename.localeCompare(b.filename)
+  );
+
+  const lines = [
+    `## ${SEVERITY_ICONS[summary.fail > 0 ? "fail" : summary.warn > 0 ? "warn" : "pass"]} ${displayName} — Visual Regression`,
+    "",
+    `**${summary.total}** screenshots · ✅ ${summary.pass} passed · ⚠️ ${summary.warn} warnings · ❌ ${summary.fail} failed` +
+      (summary.added + summary.removed + summary.error > 0
+        ? ` (${summary.added} added, ${summary.removed} removed${summary.error > 0 ? `, ${summary.error} not diffed` : ""})`
+        : "") +
+      ` · avg diff ${summary.avgDiff.toFixed(2)}%`,
+    "",
+    ...pairs.map((p) => `- ${escapeCell(p)}`),
+    "",
+    `| | Page | Comparison | Result |`,
+    `|---|---|---|---|`,
+    ...sorted.map((r) =>
+      `| ${SEVERITY_ICONS[r.severity]} | \`${escapeCell(resultName(r))}\` | ${escapeCell(pairName(r))} | ${escapeCell(describeResult(app, r))} |`
+    ),
+    "",
+    `<sub>cariloop-${app} · UI Police v${projectConfig.version} · ${new Date().toISOString()}</sub>`,
+    "",
+  ];
+  return lines.join("\n");
+}
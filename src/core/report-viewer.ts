@@ -0,0 +1,651 @@
+import { DEFAULT_BROWSER, type DiffSeverity } from "./config";
+import type { ComparisonResult } from "./compare";
+import type { DiffRegion } from "./regions";
+
+/**
+ * Comparison viewer — the full-screen image viewer shared by the HTML report
+ * and the dashboard. Both feed it the same ComparisonResult data (see
+ * toViewerComparison) and inline VIEWER_STYLES / VIEWER_SCRIPT, which define
+ * `ComparisonViewer.open(comparisons, index)` in the browser.
+ *
+ * Modes:
+ *   1 Side by side — both screenshots, zoom and pan move together
+ *   2 Swipe        — second screenshot over the first, revealed up to a divider
+ *   3 Onion skin   — second screenshot over the first at adjustable opacity
+ *   4 Blink        — alternates between the two (Space pauses)
+ *   5 Diff         — the pixel diff (S switches to the SSIM heatmap when there is one)
+ *
+ * Mouse wheel or +/- zooms around the cursor, dragging pans, 0 fits the
+ * image, R toggles the region boxes and ←/→ step through the comparisons.
+ */
+
+/** One compared screenshot pair, as the viewer draws it */
+export interface ViewerComparison {
+  /** "/settings · open-menu @mobile" */
+  title: string;
+  env1Label: string;
+  env2Label: string;
+  /** Full-size image URLs ("" when the report fills them in from its cards) */
+  env1Src: string;
+  env2Src: string;
+  diffSrc: string;
+  ssimSrc?: string;
+  /** Compared image size — the larger of the two screenshots */
+  width: number;
+  height: number;
+  diffPercentage: number;
+  ssim?: number;
+  severity: DiffSeverity;
+  regions: DiffRegion[];
+  /** Shift-aligned diff — region boxes only line up with the diff image */
+  aligned: boolean;
+}
+
+/** "/settings · open-menu @mobile (webkit)" */
+export function viewerTitle(r: ComparisonResult): string {
+  let title = r.pagePath;
+  if (r.interactionId) title += ` · ${r.interactionId}`;
+  if (r.viewport) title += ` @${r.viewport}`;
+  const b1 = r.env1Browser ?? DEFAULT_BROWSER;
+  const b2 = r.env2Browser ?? DEFAULT_BROWSER;
+  if (b1 !== b2) title += ` (${b1} vs ${b2})`;
+  else if (b1 !== DEFAULT_BROWSER) title += ` (${b1})`;
+  return title;
+}
+
+/**
+ * Viewer data for a compared result. `src` turns a screenshot path into a
+ * URL the page can load.
+ */
+export function toViewerComparison(r: ComparisonResult, src: (file: string) => string): ViewerComparison {
+  return {
+    title: viewerTitle(r),
+    env1Label: r.env1Label,
+    env2Label: r.env2Label,
+    env1Src: r.env1Screenshot ? src(r.env1Screenshot) : "",
+    env2Src: r.env2Screenshot ? src(r.env2Screenshot) : "",
+    diffSrc: r.diffScreenshot ? src(r.diffScreenshot) : "",
+    ssimSrc: r.ssimHeatmap ? src(r.ssimHeatmap) : undefined,
+    width: r.imageWidth,
+    height: r.imageHeight,
+    diffPercentage: r.diffPercentage,
+    ssim: r.ssim,
+    severity: r.severity,
+    regions: r.regions,
+    aligned: r.insertedBands !== undefined,
+  };
+}
+
+// ============================================
+// BROWSER CODE
+// ============================================
+
+export const VIEWER_STYLES = `
+    .cv {
+      display: none;
+      position: fixed;
+      inset: 0;
+      z-index: 1100;
+      flex-direction: column;
+      background: rgba(10,10,16,0.97);
+      color: #e2e8f0;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 13px;
+    }
+    .cv.active { display: flex; }
+    .cv-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      flex-wrap: wrap;
+      padding: 10px 16px;
+      background: rgba(255,255,255,0.05);
+      border-bottom: 1px solid rgba(255,255,255,0.08);
+    }
+    .cv-select {
+      max-width: 340px;
+      background: #1a1a24;
+      color: #e2e8f0;
+      border: 1px solid rgba(255,255,255,0.15);
+      border-radius: 6px;
+      padding: 5px 8px;
+      font-size: 13px;
+    }
+    .cv-group { display: flex; gap: 2px; background: rgba(255,255,255,0.06); border-radius: 8px; padding: 2px; }
+    .cv-btn {
+      background: transparent;
+      border: none;
+      color: #cbd5e1;
+      padding: 5px 10px;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 12px;
+      font-weight: 500;
+      white-space: nowrap;
+    }
+    .cv-btn:hover { background: rgba(255,255,255,0.1); color: #fff; }
+    .cv-btn.active { background: #667eea; color: #fff; }
+    .cv-btn:disabled { opacity: 0.35; cursor: default; background: transparent; }
+    .cv-slider { display: none; align-items: center; gap: 6px; color: #94a3b8; font-size: 12px; }
+    .cv-slider.visible { display: flex; }
+    .cv-slider input { width: 140px; accent-color: #667eea; }
+    .cv-zoom { min-width: 48px; text-align: center; color: #94a3b8; font-variant-numeric: tabular-nums; }
+    .cv-spacer { flex: 1; }
+    .cv-badge { padding: 3px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; }
+    .cv-badge.pass { background: rgba(74,222,128,0.2); color: #4ade80; }
+    .cv-badge.warn { background: rgba(250,204,21,0.2); color: #facc15; }
+    .cv-badge.fail { background: rgba(248,113,113,0.2); color: #f87171; }
+    .cv-close { font-size: 20px; line-height: 1; padding: 4px 10px; }
+    .cv-stage { flex: 1; display: flex; gap: 8px; padding: 8px; min-height: 0; }
+    .cv-pane {
+      position: relative;
+      flex: 1;
+      overflow: hidden;
+      background-color: #111;
+      background-image: linear-gradient(45deg, #1a1a1a 25%, transparent 25%, transparent 75%, #1a1a1a 75%),
+        linear-gradient(45deg, #1a1a1a 25%, transparent 25%, transparent 75%, #1a1a1a 75%);
+      background-size: 20px 20px;
+      background-position: 0 0, 10px 10px;
+      border-radius: 6px;
+      cursor: grab;
+      touch-action: none;
+    }
+    .cv-pane.dragging { cursor: grabbing; }
+    .cv-pane-label {
+      position: absolute;
+      top: 8px;
+      left: 8px;
+      z-index: 3;
+      padding: 3px 10px;
+      border-radius: 12px;
+      background: rgba(0,0,0,0.65);
+      font-size: 12px;
+      font-weight: 600;
+      pointer-events: none;
+    }
+    .cv-pane-label.right { left: auto; right: 8px; }
+    .cv-pane-label.env1 { color: #4ade80; }
+    .cv-pane-label.env2 { color: #f97316; }
+    .cv-pane-label.diff { color: #a78bfa; }
+    .cv-layer { position: absolute; top: 0; left: 0; transform-origin: 0 0; }
+    .cv-layer img {
+      position: absolute;
+      top: 0;
+      left: 0;
+      max-width: none;
+      user-select: none;
+      -webkit-user-drag: none;
+      pointer-events: none;
+    }
+    .cv-region {
+      position: absolute;
+      border: 2px solid #f43f5e;
+      background: rgba(244,63,94,0.08);
+      pointer-events: none;
+      z-index: 2;
+    }
+    .cv-region span {
+      position: absolute;
+      top: -2px;
+      left: -2px;
+      transform: translateY(-100%);
+      background: #f43f5e;
+      color: #fff;
+      font-size: 11px;
+      font-weight: 700;
+      padding: 0 5px;
+      border-radius: 3px 3px 0 0;
+    }
+    .cv.hide-regions .cv-region { display: none; }
+    .cv-divider {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      z-index: 3;
+      width: 24px;
+      margin-left: -12px;
+      cursor: ew-resize;
+    }
+    .cv-divider::before {
+      content: "";
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: 11px;
+      width: 2px;
+      background: #fff;
+      box-shadow: 0 0 4px rgba(0,0,0,0.6);
+    }
+    .cv-divider::after {
+      content: "\\2194";
+      position: absolute;
+      top: 50%;
+      left: 0;
+      width: 24px;
+      height: 24px;
+      margin-top: -12px;
+      border-radius: 50%;
+      background: #fff;
+      color: #111;
+      font-size: 14px;
+      line-height: 24px;
+      text-align: center;
+    }
+    .cv-footer {
+      padding: 6px 16px 10px;
+      color: #64748b;
+      font-size: 11px;
+      text-align: center;
+    }
+    .cv-footer kbd {
+      padding: 0 4px;
+      border: 1px solid rgba(255,255,255,0.2);
+      border-radius: 3px;
+      font-family: inherit;
+      color: #94a3b8;
+    }
+`;
+
+export const VIEWER_SCRIPT = `
+    // Comparison viewer (core/report-viewer.ts) — side by side, swipe, onion skin, blink, diff
+    const ComparisonViewer = (() => {
+      const MODES = [
+        { id: 'side', label: 'Side by side' },
+        { id: 'swipe', label: 'Swipe' },
+        { id: 'onion', label: 'Onion skin' },
+        { id: 'blink', label: 'Blink' },
+        { id: 'diff', label: 'Diff' },
+      ];
+      const MIN_SCALE = 0.05;
+      const MAX_SCALE = 16;
+      const state = {
+        items: [], index: 0, mode: 'side', heatmap: false,
+        scale: 1, x: 0, y: 0, fitted: true,
+        swipe: 50, opacity: 50, blinkMs: 600, blinkOn: false, blinkTimer: null,
+      };
+      let root = null;
+
+      function el(tag, className, text) {
+        const node = document.createElement(tag);
+        if (className) node.className = className;
+        if (text !== undefined) node.textContent = text;
+        return node;
+      }
+
+      function build() {
+        root = el('div', 'cv');
+        root.innerHTML =
+          '<div class="cv-toolbar">' +
+            '<button class="cv-btn" data-action="prev" title="Previous (\\u2190)">&#8249;</button>' +
+            '<select class="cv-select"></select>' +
+            '<button class="cv-btn" data-action="next" title="Next (\\u2192)">&#8250;</button>' +
+            '<div class="cv-group cv-modes">' +
+              MODES.map((m, i) => '<button class="cv-btn" data-mode="' + m.id + '" title="' + m.label + ' (' + (i + 1) + ')">' + m.label + '</button>').join('') +
+            '</div>' +
+            '<label class="cv-slider" data-for="swipe">Position <input type="range" min="0" max="100" data-setting="swipe" /></label>' +
+            '<label class="cv-slider" data-for="onion">Opacity <input type="range" min="0" max="100" data-setting="opacity" /></label>' +
+            '<label class="cv-slider" data-for="blink">Interval <input type="range" min="150" max="2000" step="50" data-setting="blinkMs" /></label>' +
+            '<div class="cv-group cv-heatmap" data-for="diff">' +
+              '<button class="cv-btn" data-heatmap="0">Pixel</button>' +
+              '<button class="cv-btn" data-heatmap="1">SSIM</button>' +
+            '</div>' +
+            '<div class="cv-spacer"></div>' +
+            '<div class="cv-group">' +
+              '<button class="cv-btn" data-action="zoom-out" title="Zoom out (-)">&minus;</button>' +
+              '<span class="cv-btn cv-zoom"></span>' +
+              '<button class="cv-btn" data-action="zoom-in" title="Zoom in (+)">+</button>' +
+              '<button class="cv-btn" data-action="fit" title="Fit (0)">Fit</button>' +
+              '<button class="cv-btn" data-action="actual" title="Actual size (1:1)">1:1</button>' +
+            '</div>' +
+            '<button class="cv-btn" data-action="regions" title="Region boxes (R)">Regions</button>' +
+            '<span class="cv-badge"></span>' +
+            '<button class="cv-btn cv-close" data-action="close" title="Close (Esc)">&times;</button>' +
+          '</div>' +
+          '<div class="cv-stage"></div>' +
+          '<div class="cv-footer">' +
+            '<kbd>1</kbd>–<kbd>5</kbd> mode · <kbd>wheel</kbd> <kbd>+</kbd> <kbd>-</kbd> zoom · drag to pan · <kbd>0</kbd> fit · ' +
+            '<kbd>Space</kbd> pause blink · <kbd>S</kbd> SSIM · <kbd>R</kbd> regions · <kbd>\\u2190</kbd> <kbd>\\u2192</kbd> previous/next · <kbd>Esc</kbd> close' +
+          '</div>';
+        document.body.appendChild(root);
+
+        root.querySelector('.cv-select').addEventListener('change', (e) => show(Number(e.target.value)));
+        root.querySelectorAll('[data-mode]').forEach(b => b.addEventListener('click', () => setMode(b.dataset.mode)));
+        root.querySelectorAll('[data-heatmap]').forEach(b => b.addEventListener('click', () => {
+          state.heatmap = b.dataset.heatmap === '1';
+          render();
+        }));
+        root.querySelectorAll('[data-setting]').forEach(input => input.addEventListener('input', () => {
+          state[input.dataset.setting] = Number(input.value);
+          if (input.dataset.setting === 'blinkMs') startBlink();
+          else applySettings();
+        }));
+        root.querySelectorAll('[data-action]').forEach(b => b.addEventListener('click', () => action(b.dataset.action)));
+        document.addEventListener('keydown', onKey, true);
+        window.addEventListener('resize', () => { if (isOpen() && state.fitted) fit(); });
+      }
+
+      function isOpen() {
+        return !!root && root.classList.contains('active');
+      }
+
+      function current() {
+        return state.items[state.index];
+      }
+
+      // ---------- Rendering ----------
+
+      function layer(item, src) {
+        const node = el('div', 'cv-layer');
+        node.style.width = item.width + 'px';
+        node.style.height = item.height + 'px';
+        if (src) {
+          const img = el('img');
+          img.src = src;
+          img.alt = '';
+          img.draggable = false;
+          node.appendChild(img);
+        }
+        return node;
+      }
+
+      function addRegions(node, item) {
+        item.regions.forEach(r => {
+          const box = el('div', 'cv-region');
+          box.style.left = r.x + 'px';
+          box.style.top = r.y + 'px';
+          box.style.width = Math.max(r.width, 2) + 'px';
+          box.style.height = Math.max(r.height, 2) + 'px';
+          box.title = r.label + ' (' + r.pixels + ' px)';
+          box.appendChild(el('span', '', String(r.index)));
+          node.appendChild(box);
+        });
+      }
+
+      function pane(labels) {
+        const node = el('div', 'cv-pane');
+        labels.forEach(([text, cls]) => node.appendChild(el('div', 'cv-pane-label ' + cls, text)));
+        attachPanZoom(node);
+        return node;
+      }
+
+      function render() {
+        const item = current();
+        const stage = root.querySelector('.cv-stage');
+        stopBlink();
+        state.blinkOn = false;
+        stage.innerHTML = '';
+        // Region boxes sit on the screenshots unless the diff was shift-aligned
+        const regionsOnShots = !item.aligned;
+
+        if (state.mode === 'side') {
+          [[item.env1Label, 'env1', item.env1Src], [item.env2Label, 'env2', item.env2Src]].forEach(([label, cls, src]) => {
+            const p = pane([[label, cls]]);
+            const l = layer(item, src);
+            if (regionsOnShots) addRegions(l, item);
+            p.appendChild(l);
+            stage.appendChild(p);
+          });
+        } else if (state.mode === 'diff') {
+          const heatmap = state.heatmap && item.ssimSrc;
+          const p = pane([[heatmap ? 'SSIM heatmap' : item.diffSrc ? 'Pixel diff' : 'Identical — no diff image', 'diff']]);
+          const l = layer(item, heatmap ? item.ssimSrc : item.diffSrc);
+          addRegions(l, item);
+          p.appendChild(l);
+          stage.appendChild(p);
+        } else {
+          // Swipe, onion skin and blink stack the second screenshot over the first
+          const p = pane(state.mode === 'blink'
+            ? [[item.env1Label, 'env1 cv-blink-label']]
+            : [[item.env1Label, 'env1'], [item.env2Label, 'env2 right']]);
+          const l = layer(item, item.env1Src);
+          const top = layer(item, item.env2Src);
+          top.classList.add('cv-top');
+          l.appendChild(top);
+          if (regionsOnShots) addRegions(l, item);
+          p.appendChild(l);
+          if (state.mode === 'swipe') {
+            const divider = el('div', 'cv-divider');
+            attachDivider(divider, p);
+            p.appendChild(divider);
+          }
+          stage.appendChild(p);
+        }
+
+        syncToolbar();
+        if (state.fitted) fit();
+        else applyTransform();
+        applySettings();
+        if (state.mode === 'blink') startBlink();
+      }
+
+      function syncToolbar() {
+        const item = current();
+        root.querySelector('.cv-select').value = String(state.index);
+        root.querySelectorAll('[data-mode]').forEach(b => b.classList.toggle('active', b.dataset.mode === state.mode));
+        root.querySelectorAll('.cv-slider').forEach(s => s.classList.toggle('visible', s.dataset.for === state.mode));
+        root.querySelectorAll('[data-setting]').forEach(input => { input.value = String(state[input.dataset.setting]); });
+        const heatmap = root.querySelector('.cv-heatmap');
+        heatmap.style.display = state.mode === 'diff' && item.ssimSrc ? '' : 'none';
+        heatmap.querySelectorAll('button').forEach(b => b.classList.toggle('active', (b.dataset.heatmap === '1') === !!(state.heatmap && item.ssimSrc)));
+        root.querySelector('[data-action="prev"]').disabled = state.items.length < 2;
+        root.querySelector('[data-action="next"]').disabled = state.items.length < 2;
+        root.querySelector('[data-action="regions"]').classList.toggle('active', !root.classList.contains('hide-regions'));
+        root.querySelector('[data-action="regions"]').disabled = item.regions.length === 0;
+        const badge = root.querySelector('.cv-badge');
+        badge.className = 'cv-badge ' + item.severity;
+        badge.textContent = item.diffPercentage.toFixed(2) + '% diff' + (item.ssim !== undefined && item.ssim !== null ? ' · SSIM ' + item.ssim.toFixed(4) : '');
+      }
+
+      // Swipe position / onion opacity on the top layer
+      function applySettings() {
+        root.querySelectorAll('.cv-top').forEach(top => {
+          top.style.clipPath = state.mode === 'swipe' ? 'inset(0 0 0 ' + state.swipe + '%)' : '';
+          top.style.opacity = state.mode === 'onion' ? String(state.opacity / 100) : '';
+          if (state.mode === 'blink') top.style.visibility = state.blinkOn ? 'visible' : 'hidden';
+        });
+        positionDivider();
+      }
+
+      // ---------- Zoom & pan (one transform shared by every pane) ----------
+
+      function applyTransform() {
+        const t = 'translate(' + state.x + 'px, ' + state.y + 'px) scale(' + state.scale + ')';
+        root.querySelectorAll('.cv-pane > .cv-layer').forEach(l => { l.style.transform = t; });
+        root.querySelector('.cv-zoom').textContent = Math.round(state.scale * 100) + '%';
+        positionDivider();
+      }
+
+      function fit() {
+        const item = current();
+        const p = root.querySelector('.cv-pane');
+        if (!p || !item.width || !item.height) return;
+        const w = p.clientWidth;
+        const h = p.clientHeight;
+        state.scale = Math.min(w / item.width, h / item.height, 1);
+        // Tall pages: fill the width and start at the top instead of shrinking to a sliver
+        if (item.height / item.width > 3 * h / w) state.scale = Math.min(w / item.width, 1);
+        state.x = (w - item.width * state.scale) / 2;
+        state.y = Math.max(0, (h - item.height * state.scale) / 2);
+        state.fitted = true;
+        applyTransform();
+      }
+
+      function zoomAt(factor, px, py) {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, state.scale * factor));
+        state.x = px - (px - state.x) * (scale / state.scale);
+        state.y = py - (py - state.y) * (scale / state.scale);
+        state.scale = scale;
+        state.fitted = false;
+        applyTransform();
+      }
+
+      function zoomCenter(factor) {
+        const p = root.querySelector('.cv-pane');
+        zoomAt(factor, p.clientWidth / 2, p.clientHeight / 2);
+      }
+
+      function attachPanZoom(node) {
+        node.addEventListener('wheel', (e) => {
+          e.preventDefault();
+          const rect = node.getBoundingClientRect();
+          zoomAt(Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+        }, { passive: false });
+
+        node.addEventListener('pointerdown', (e) => {
+          if (e.button !== 0 || e.target.classList.contains('cv-divider')) return;
+          const startX = e.clientX - state.x;
+          const startY = e.clientY - state.y;
+          node.setPointerCapture(e.pointerId);
+          node.classList.add('dragging');
+          const move = (ev) => {
+            state.x = ev.clientX - startX;
+            state.y = ev.clientY - startY;
+            state.fitted = false;
+            applyTransform();
+          };
+          const up = () => {
+            node.classList.remove('dragging');
+            node.removeEventListener('pointermove', move);
+            node.removeEventListener('pointerup', up);
+            node.removeEventListener('pointercancel', up);
+          };
+          node.addEventListener('pointermove', move);
+          node.addEventListener('pointerup', up);
+          node.addEventListener('pointercancel', up);
+        });
+
+        node.addEventListener('dblclick', (e) => {
+          const rect = node.getBoundingClientRect();
+          if (state.fitted) zoomAt(2 / state.scale, e.clientX - rect.left, e.clientY - rect.top);
+          else fit();
+        });
+      }
+
+      // ---------- Swipe divider ----------
+
+      function positionDivider() {
+        const divider = root.querySelector('.cv-divider');
+        if (!divider) return;
+        const item = current();
+        divider.style.left = (state.x + item.width * state.scale * state.swipe / 100) + 'px';
+      }
+
+      function attachDivider(divider, node) {
+        divider.addEventListener('pointerdown', (e) => {
+          e.stopPropagation();
+          divider.setPointerCapture(e.pointerId);
+          const move = (ev) => {
+            const rect = node.getBoundingClientRect();
+            const item = current();
+            const pos = (ev.clientX - rect.left - state.x) / (item.width * state.scale) * 100;
+            state.swipe = Math.round(Math.min(100, Math.max(0, pos)) * 10) / 10;
+            root.querySelector('[data-setting="swipe"]').value = String(state.swipe);
+            applySettings();
+          };
+          const up = () => {
+            divider.removeEventListener('pointermove', move);
+            divider.removeEventListener('pointerup', up);
+          };
+          divider.addEventListener('pointermove', move);
+          divider.addEventListener('pointerup', up);
+        });
+      }
+
+      // ---------- Blink ----------
+
+      function blinkStep() {
+        const item = current();
+        state.blinkOn = !state.blinkOn;
+        applySettings();
+        const label = root.querySelector('.cv-blink-label');
+        if (label) {
+          label.textContent = state.blinkOn ? item.env2Label : item.env1Label;
+          label.className = 'cv-pane-label cv-blink-label ' + (state.blinkOn ? 'env2' : 'env1');
+        }
+      }
+
+      function startBlink() {
+        stopBlink();
+        if (state.mode === 'blink') state.blinkTimer = setInterval(blinkStep, state.blinkMs);
+      }
+
+      function stopBlink() {
+        if (state.blinkTimer) clearInterval(state.blinkTimer);
+        state.blinkTimer = null;
+      }
+
+      function toggleBlink() {
+        if (state.blinkTimer) stopBlink();
+        else startBlink();
+      }
+
+      // ---------- Controls ----------
+
+      function setMode(mode) {
+        state.mode = mode;
+        render();
+      }
+
+      function show(index) {
+        const count = state.items.length;
+        state.index = (index + count) % count;
+        state.fitted = true;
+        render();
+      }
+
+      function action(name) {
+        if (name === 'prev') show(state.index - 1);
+        else if (name === 'next') show(state.index + 1);
+        else if (name === 'zoom-in') zoomCenter(1.25);
+        else if (name === 'zoom-out') zoomCenter(0.8);
+        else if (name === 'fit') fit();
+        else if (name === 'actual') zoomCenter(1 / state.scale);
+        else if (name === 'regions') {
+          root.classList.toggle('hide-regions');
+          syncToolbar();
+        } else if (name === 'close') close();
+      }
+
+      function onKey(e) {
+        if (!isOpen() || e.target.tagName === 'SELECT' || (e.target.tagName === 'INPUT' && e.target.type !== 'range')) return;
+        const keys = {
+          Escape: 'close', ArrowLeft: 'prev', ArrowRight: 'next',
+          '+': 'zoom-in', '=': 'zoom-in', '-': 'zoom-out', '0': 'fit', r: 'regions', R: 'regions',
+        };
+        if (keys[e.key]) action(keys[e.key]);
+        else if (e.key >= '1' && e.key <= String(MODES.length)) setMode(MODES[Number(e.key) - 1].id);
+        else if (e.key === ' ' && state.mode === 'blink') toggleBlink();
+        else if ((e.key === 's' || e.key === 'S') && current().ssimSrc) {
+          state.heatmap = !state.heatmap;
+          if (state.mode !== 'diff') state.mode = 'diff';
+          render();
+        } else return;
+        // Keep the page's own shortcuts (report modal, dashboard panels) out of it
+        e.preventDefault();
+        e.stopPropagation();
+      }
+
+      function open(items, index, mode) {
+        if (!items || items.length === 0) return;
+        if (!root) build();
+        state.items = items;
+        if (mode) state.mode = mode;
+        root.querySelector('.cv-select').innerHTML = items
+          .map((item, i) => '<option value="' + i + '">' + (i + 1) + '. ' + item.title.replace(/&/g, '&amp;').replace(/</g, '&lt;') + ' — ' + item.diffPercentage.toFixed(2) + '%</option>')
+          .join('');
+        root.classList.add('active');
+        document.body.style.overflow = 'hidden';
+        show(index || 0);
+      }
+
+      function close() {
+        if (!root) return;
+        stopBlink();
+        root.classList.remove('active');
+        root.querySelector('.cv-stage').innerHTML = '';
+        document.body.style.overflow = '';
+      }
+
+      return { open, close, isOpen };
+    })();
+`;
@@ -1,36 +1,70 @@
 import fs from "fs";
 import path from "path";
 import type { ComparisonResult } from "./compare";
-import { getReportsDir, getCurrentAppConfig, environments, APPS, APP_LIST, projectConfig, type AppConfig } from "./config";
+import { getReportsDir, getReportFormats, parseReportFormats, getReportImageMode, parseReportImageMode, getThumbnailWidth, getAppConfig, getViewports, getViewportTag, getBrowsers, DEFAULT_BROWSER, environments, type DiffSeverity, type ReportFormat, type ReportImageMode, APPS, APP_LIST, DEFAULT_APP, projectConfig, type AppConfig } from "./config";
 import { listRuns, loadRunManifest } from "./runs";
-import { log, style } from "../utils/terminal";
+import { renderJsonReport, renderJUnitReport, renderMarkdownReport } from "./report-formats";
+import { createReportAssets, type ReportAssets, type ReportImage } from "./report-assets";
+import { toViewerComparison, VIEWER_STYLES, VIEWER_SCRIPT } from "./report-viewer";
+import { getTrends, TREND_WINDOW, type AppTrends, type PageTrend } from "./history";
+import { log, style, formatBytes } from "../utils/terminal";
 
-function imageToBase64(filepath: string): string {
-  if (!fs.existsSync(filepath)) return "";
-  const buffer = fs.readFileSync(filepath);
-  return `data:image/png;base64,${buffer.toString("base64")}`;
+/** `src` (the thumbnail) plus `data-full` for the modal when it differs */
+function imageAttrs(image: ReportImage): string {
+  return `src="${image.thumb}"${image.full !== image.thumb ? ` data-full="${image.full}"` : ""}`;
 }
 
-function getBadgeClass(pct: number): string {
-  if (pct < 1) return "badge-green";
-  if (pct < 5) return "badge-yellow";
+/** Badge color for a diff severity — same cut-offs as the terminal (see getDiffSeverity) */
+function getBadgeClass(severity: DiffSeverity): string {
+  if (severity === "pass") return "badge-green";
+  if (severity === "warn") return "badge-yellow";
   return "badge-red";
 }
 
 interface GroupedResult {
   pagePath: string;
+  /** Viewport tag shared by every result in the group (viewport matrix only) */
+  viewport?: string;
+  /** Browser tag shared by every result in the group (only when not plain chromium) */
+  browser?: string;
+  /** Environment pair of the group (only when the report covers more than one pair) */
+  pair?: string;
   base?: ComparisonResult;
   interactions: ComparisonResult[];
 }
 
+/** "webkit" for same-engine pairs, "chromium vs webkit" for cross-browser pairs */
+function browserTag(r: ComparisonResult): string {
+  const b1 = r.env1Browser ?? DEFAULT_BROWSER;
+  const b2 = r.env2Browser ?? DEFAULT_BROWSER;
+  return b1 === b2 ? b1 : `${b1} vs ${b2}`;
+}
+
+/** "develop vs staging" for cross-env results, undefined otherwise */
+function envPairTag(r: ComparisonResult): string | undefined {
+  return r.env1Name && r.env2Name ? `${r.env1Name} vs ${r.env2Name}` : undefined;
+}
+
 function groupResults(results: ComparisonResult[]): GroupedResult[] {
   const grouped = new Map<string, GroupedResult>();
+  const tags = new Set(results.map(browserTag));
+  const showBrowser = tags.size > 1 || !tags.has(DEFAULT_BROWSER);
+  const pairOrder = [...new Set(results.map(envPairTag))];
+  const showPair = pairOrder.length > 1;
   
   for (const r of results) {
-    if (!grouped.has(r.pagePath)) {
-      grouped.set(r.pagePath, { pagePath: r.pagePath, interactions: [] });
+    const tag = browserTag(r);
+    const key = `${r.pagePath}@${r.viewport ?? ""}#${tag}|${r.env1Label}|${r.env2Label}`;
+    if (!grouped.has(key)) {
+      grouped.set(key, {
+        pagePath: r.pagePath,
+        viewport: r.viewport,
+        browser: showBrowser ? tag : undefined,
+        pair: showPair ? envPairTag(r) : undefined,
+        interactions: [],
+      });
     }
-    const group = grouped.get(r.pagePath)!;
+    const group = grouped.get(key)!;
     
     if (r.interactionId) {
       group.interactions.push(r);
@@ -39,19 +73,178 @@ function groupResults(results: ComparisonResult[]): GroupedResult[] {
     }
   }
   
-  // Sort by pagePath
-  return Array.from(grouped.values()).sort((a, b) => 
+  // Sort by pagePath, then by viewport and browser in config order
+  const viewportOrder = getViewports().map((vp) => getViewportTag(vp));
+  const viewportRank = (vp?: string) => {
+    const idx = viewportOrder.indexOf(vp);
+    return idx === -1 ? viewportOrder.length : idx;
+  };
+  const browserOrder: string[] = getBrowsers();
+  const browserRank = (tag?: string) => {
+    const idx = browserOrder.indexOf(tag?.split(" vs ").pop() ?? "");
+    return idx === -1 ? browserOrder.length : idx;
+  };
+  return Array.from(grouped.values()).sort((a, b) =>
     a.pagePath.localeCompare(b.pagePath)
+      || viewportRank(a.viewport) - viewportRank(b.viewport)
+      || browserRank(a.browser) - browserRank(b.browser)
+      || pairOrder.indexOf(a.pair) - pairOrder.indexOf(b.pair)
   );
 }
 
-function renderCard(r: ComparisonResult, title: string, isInteraction: boolean = false, cardId: string = "", env1BaseUrl: string = "", env2BaseUrl: string = ""): string {
-  const env1B64 = imageToBase64(r.env1Screenshot);
-  const env2B64 = imageToBase64(r.env2Screenshot);
-  const diffB64 = imageToBase64(r.diffScreenshot);
+function viewportTagHtml(viewport?: string, browser?: string, pair?: string): string {
+  let html = viewport ? ` <span class="viewport-tag">${viewport}</span>` : "";
+  if (browser) html += ` <span class="viewport-tag browser-tag">${browser}</span>`;
+  if (pair) html += ` <span class="viewport-tag pair-tag">${pair}</span>`;
+  return html;
+}
+
+/**
+ * Environment grid — one row per screenshot, one column per environment.
+ * Each cell shows the environment's screenshot and its diff against every
+ * environment it was compared with as the second side.
+ */
+function renderEnvGrid(assets: ReportAssets, results: ComparisonResult[], envNames: string[]): string {
+  interface GridRow {
+    title: string;
+    shots: Map<string, string>;
+    diffs: Map<string, ComparisonResult[]>;
+  }
+  const rows = new Map<string, GridRow>();
+  const tags = new Set(results.map(browserTag));
+  const showBrowser = tags.size > 1 || !tags.has(DEFAULT_BROWSER);
+
+  for (const r of results) {
+    if (!r.env1Name || !r.env2Name) continue;
+    const key = `${r.filename}#${browserTag(r)}`;
+    if (!rows.has(key)) {
+      const name = r.interactionId ? `${r.pagePath} <span class="grid-interaction">${r.interactionId}</span>` : r.pagePath;
+      rows.set(key, {
+        title: `${name}${viewportTagHtml(r.viewport, showBrowser ? browserTag(r) : undefined)}`,
+        shots: new Map(),
+        diffs: new Map(),
+      });
+    }
+    const row = rows.get(key)!;
+    row.shots.set(r.env1Name, r.env1Screenshot);
+    row.shots.set(r.env2Name, r.env2Screenshot);
+    row.diffs.set(r.env2Name, [...(row.diffs.get(r.env2Name) ?? []), r]);
+  }
+
+  const header = envNames.map((env) => `<div class="grid-head">${env}</div>`).join("");
+  const body = [...rows.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, row]) => {
+      let imgIndex = 0;
+      const cells = envNames.map((env) => {
+        const shot = row.shots.get(env);
+        if (!shot) return `<div class="grid-cell grid-missing">Not captured</div>`;
+        const shotIndex = imgIndex++;
+        const diffs = (row.diffs.get(env) ?? []).map((d) => `
+            <div class="grid-diff">
+              <span class="badge ${getBadgeClass(d.severity)}">vs ${d.env1Name} · ${d.diffPercentage.toFixed(2)}%</span>
+              ${d.diffScreenshot
+                ? `<img ${imageAttrs(assets.image(d.diffScreenshot))} alt="Diff vs ${d.env1Name}" loading="lazy" data-label="${env} vs ${d.env1Name}" data-kind="diff" onclick="openModal(this, ${imgIndex++})" />`
+                : `<div class="grid-missing">Identical</div>`}
+            </div>`).join("");
+        return `
+          <div class="grid-cell">
+            <img ${imageAttrs(assets.image(shot))} alt="${env} screenshot" loading="lazy" data-label="${env}" data-kind="dev" onclick="openModal(this, ${shotIndex})" />${diffs}
+          </div>`;
+      }).join("");
+      return `
+        <div class="grid-row-title">${row.title}</div>
+        <div class="grid-row card-images" style="grid-template-columns: repeat(${envNames.length}, 1fr)">${cells}
+        </div>`;
+    })
+    .join("");
+
+  return `
+      <div class="env-grid">
+        <div class="grid-row grid-header" style="grid-template-columns: repeat(${envNames.length}, 1fr)">${header}</div>
+        ${body}
+      </div>`;
+}
+
+/** Numbered region boxes over a screenshot, positioned in % so they scale with the image */
+function regionBoxesHtml(r: ComparisonResult, cardId: string, withAnchors: boolean): string {
+  return r.regions.map((region) => {
+    const left = (region.x / r.imageWidth) * 100;
+    const top = (region.y / r.imageHeight) * 100;
+    const width = Math.max((region.width / r.imageWidth) * 100, 0.5);
+    const height = Math.max((region.height / r.imageHeight) * 100, 0.5);
+    const id = withAnchors ? ` id="${cardId}-region-${region.index}"` : "";
+    return `<span class="region-box"${id} style="left:${left.toFixed(3)}%;top:${top.toFixed(3)}%;width:${width.toFixed(3)}%;height:${height.toFixed(3)}%" title="${region.label} (${region.pixels} px)"><span class="region-num">${region.index}</span></span>`;
+  }).join("");
+}
+
+/** Inserted/removed bands from shift-tolerant alignment, listed apart from real changes */
+function bandSummaryHtml(r: ComparisonResult): string {
+  const inserted = r.insertedBands ?? [];
+  const removed = r.removedBands ?? [];
+  if (inserted.length === 0 && removed.length === 0) return "";
+  const list = (bands: typeof inserted) => bands.map(b => `y ${b.y} (${b.height}px)`).join(", ");
+  return `<div class="band-summary">
+    ${inserted.length > 0 ? `<span class="band-tag band-inserted">${inserted.length} inserted</span> ${list(inserted)}` : ''}
+    ${removed.length > 0 ? `<span class="band-tag band-removed">${removed.length} removed</span> ${list(removed)}` : ''}
+  </div>`;
+}
+
+/** "3 regions changed: 1 header, 2 table row 4, 3 footer" */
+function regionSummaryHtml(r: ComparisonResult, cardId: string): string {
+  if (r.regions.length === 0) return "";
+  const links = r.regions
+    .map((region) => `<a href="#${cardId}-region-${region.index}" class="region-link"><span class="region-num">${region.index}</span>${escapeHtml(region.label)}</a>`)
+    .join("");
+  return `<div class="region-summary">${r.regions.length} region${r.regions.length > 1 ? "s" : ""} changed: ${links}</div>`;
+}
+
+/**
+ * Approve/reject buttons for the captured side of a comparison.
+ * They call the dashboard server's /api/baseline routes, so they only work
+ * when the report is opened through the server (not from file://).
+ */
+function reviewActionsHtml(r: ComparisonResult): string {
+  if (!r.candidate) return "";
+  const { app, env, runId } = r.candidate;
+  const data = `data-app="${escapeHtml(app)}" data-env="${escapeHtml(env)}" data-run="${escapeHtml(runId)}" data-file="${escapeHtml(r.filename)}"`;
+  return `
+        <span class="review-actions" ${data}>
+          <button class="review-btn approve" onclick="reviewScreenshot(this, 'approve')" title="Approve ${escapeHtml(env)} (${escapeHtml(runId)}) into the baseline">Approve</button>
+          <button class="review-btn reject" onclick="reviewScreenshot(this, 'reject')" title="Reject this change">Reject</button>
+        </span>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Comparison viewer data for a card. Image URLs are left out — the page
+ * reads them from the card's images, so embedded reports don't carry each
+ * base64 image twice.
+ */
+function viewerDataAttr(r: ComparisonResult): string {
+  return ` data-viewer="${escapeHtml(JSON.stringify(toViewerComparison(r, () => "")))}"`;
+}
+
+/** What the filter bar matches a card on (see applyFilters in the page script) */
+function filterDataAttrs(r: ComparisonResult): string {
+  const changed = r.status !== "compared" || r.diffPixels > 0;
+  const search = [r.pagePath, r.interactionId, r.description].filter(Boolean).join(" ").toLowerCase();
+  return ` data-severity="${r.severity}" data-diff="${r.diffPercentage}" data-changed="${changed}" data-kind="${r.interactionId ? "interaction" : "page"}" data-search="${escapeHtml(search)}"`;
+}
+
+function renderCard(assets: ReportAssets, r: ComparisonResult, title: string, isInteraction: boolean = false, cardId: string = "", env1BaseUrl: string = "", env2BaseUrl: string = ""): string {
+  const env1Image = assets.image(r.env1Screenshot);
+  const env2Image = assets.image(r.env2Screenshot);
+  const diffImage = assets.image(r.diffScreenshot);
+  const heatmapImage = r.ssimHeatmap ? assets.image(r.ssimHeatmap) : undefined;
+  // Aligned diffs use their own row axis, so region boxes only line up with the diff image
+  const aligned = r.insertedBands !== undefined;
   const env1Label = r.env1Label ?? "Environment 1";
   const env2Label = r.env2Label ?? "Environment 2";
-  const badgeClass = getBadgeClass(r.diffPercentage);
+  const badgeClass = getBadgeClass(r.severity);
   const cardClass = isInteraction ? "card interaction-card" : "card";
   const headerClass = isInteraction ? "card-header interaction-header" : "card-header";
   
@@ -59,7 +252,7 @@ function renderCard(r: ComparisonResult, title: string, isInteraction: boolean =
   const env2FullUrl = env2BaseUrl ? `${env2BaseUrl}${r.pagePath}` : "";
 
   return `
-    <div class="${cardClass}" id="${cardId}">
+    <div class="${cardClass}" id="${cardId}"${filterDataAttrs(r)}${viewerDataAttr(r)}>
       <div class="${headerClass}">
         <div class="card-title-group">
           <h2>${title}</h2>
@@ -74,82 +267,259 @@ function renderCard(r: ComparisonResult, title: string, isInteraction: boolean =
             </a>` : ''}
           </div>
         </div>
-        <span class="badge ${badgeClass}">${r.diffPercentage.toFixed(2)}% diff</span>
+        <div class="card-status">
+          <button class="review-btn viewer-btn" onclick="openViewer('${cardId}')" title="Swipe, onion skin, blink and synced zoom">Compare</button>
+          ${reviewActionsHtml(r)}
+          <span class="badge ${badgeClass}">${r.diffPercentage.toFixed(2)}% diff${r.ssim !== undefined ? ` · SSIM ${r.ssim.toFixed(4)}` : ''}</span>
+        </div>
       </div>
+      ${bandSummaryHtml(r)}
+      ${regionSummaryHtml(r, cardId)}
       <div class="card-images">
         <div class="image-col">
           <h3>${env1Label}</h3>
-          <img src="${env1B64}" alt="${env1Label} screenshot" loading="lazy" onclick="openModal(this, 0)" />
+          <div class="shot">
+            <img ${imageAttrs(env1Image)} alt="${env1Label} screenshot" loading="lazy" onclick="openModal(this, 0)" />
+            ${aligned ? '' : regionBoxesHtml(r, cardId, true)}
+          </div>
         </div>
         <div class="image-col">
           <h3>${env2Label}</h3>
-          <img src="${env2B64}" alt="${env2Label} screenshot" loading="lazy" onclick="openModal(this, 1)" />
+          <div class="shot">
+            <img ${imageAttrs(env2Image)} alt="${env2Label} screenshot" loading="lazy" onclick="openModal(this, 1)" />
+            ${aligned ? '' : regionBoxesHtml(r, cardId, false)}
+          </div>
         </div>
+        <div class="image-col">
+          <h3>Diff${heatmapImage?.thumb ? `
+            <span class="diff-toggle">
+              <button class="active" onclick="toggleDiffView(this, 'pixel')">Pixel</button>
+              <button onclick="toggleDiffView(this, 'ssim')">SSIM</button>
+            </span>` : ''}</h3>
+          ${r.diffScreenshot ? `<div class="shot">
+            <img ${imageAttrs(diffImage)} alt="Diff" loading="lazy" onclick="openModal(this, 2)"${heatmapImage?.thumb ? ` data-pixel="${diffImage.thumb}" data-ssim="${heatmapImage.thumb}"${diffImage.full !== diffImage.thumb ? ` data-pixel-full="${diffImage.full}"` : ''}${heatmapImage.full !== heatmapImage.thumb ? ` data-ssim-full="${heatmapImage.full}"` : ''}` : ''} />
+            ${regionBoxesHtml(r, cardId, aligned)}
+          </div>` : `<div class="grid-missing">Identical — no diff image</div>`}
+        </div>
+      </div>
+    </div>`;
+}
+
+/**
+ * Card for a screenshot that exists on only one side — the captured image
+ * next to a placeholder for the side it's missing from
+ */
+function renderMissingCard(assets: ReportAssets, r: ComparisonResult, title: string, cardId: string): string {
+  const added = r.status === "added";
+  const presentLabel = added ? r.env2Label : r.env1Label;
+  const missingLabel = added ? r.env1Label : r.env2Label;
+  const shot = `
+        <div class="image-col">
+          <h3>${presentLabel}</h3>
+          <div class="shot">
+            <img ${imageAttrs(assets.image(added ? r.env2Screenshot : r.env1Screenshot))} alt="${presentLabel} screenshot" loading="lazy" data-label="${presentLabel}" data-kind="${added ? "local" : "dev"}" onclick="openModal(this, 0)" />
+          </div>
+        </div>`;
+  const placeholder = `
+        <div class="image-col">
+          <h3>${missingLabel}</h3>
+          <div class="grid-missing">Not captured</div>
+        </div>`;
+
+  return `
+    <div class="card missing-card" id="${cardId}"${filterDataAttrs(r)}>
+      <div class="card-header">
+        <div class="card-title-group">
+          <h2>${title}</h2>
+        </div>
+        <div class="card-status">
+          ${reviewActionsHtml(r)}
+          <span class="badge ${getBadgeClass(r.severity)}">${added ? `Added in ${r.env2Label}` : `Removed from ${r.env2Label}`}</span>
+        </div>
+      </div>
+      <div class="card-images missing-images">${added ? placeholder + shot : shot + placeholder}
+      </div>
+    </div>`;
+}
+
+/**
+ * Card for a pair that couldn't be diffed — both screenshots and the error
+ * in place of the diff
+ */
+function renderErrorCard(assets: ReportAssets, r: ComparisonResult, title: string, cardId: string): string {
+  const shot = (label: string, file: string, kind: string, index: number) => `
+        <div class="image-col">
+          <h3>${label}</h3>
+          <div class="shot">
+            <img ${imageAttrs(assets.image(file))} alt="${label} screenshot" loading="lazy" data-label="${label}" data-kind="${kind}" onclick="openModal(this, ${index})" />
+          </div>
+        </div>`;
+
+  return `
+    <div class="card missing-card" id="${cardId}"${filterDataAttrs(r)}>
+      <div class="card-header">
+        <div class="card-title-group">
+          <h2>${title}</h2>
+        </div>
+        <div class="card-status">
+          <span class="badge ${getBadgeClass(r.severity)}">Could not diff</span>
+        </div>
+      </div>
+      <div class="card-images">${shot(r.env1Label, r.env1Screenshot, "dev", 0)}${shot(r.env2Label, r.env2Screenshot, "local", 1)}
         <div class="image-col">
           <h3>Diff</h3>
-          <img src="${diffB64}" alt="Diff" loading="lazy" onclick="openModal(this, 2)" />
+          <div class="grid-missing">${escapeHtml(r.error ?? "Unknown error")}</div>
         </div>
       </div>
     </div>`;
 }
 
-export function generateReport(results: ComparisonResult[]): string {
-  const reportsDir = getReportsDir();
-  const appConfig = getCurrentAppConfig();
+/**
+ * Write the report in each requested format (default: the project's
+ * `report.formats`) under output/reports/cariloop-{app}/. `images` picks
+ * linked assets or an embedded single-file HTML report (default:
+ * `report.images`). Returns the HTML report's path, or the first written
+ * file when HTML wasn't requested.
+ */
+export function generateReport(
+  app: string,
+  results: ComparisonResult[],
+  formats: ReportFormat[] = getReportFormats(),
+  images: ReportImageMode = getReportImageMode(),
+): string {
+  const reportsDir = getReportsDir(app);
+  const appConfig = getAppConfig(app);
   if (!fs.existsSync(reportsDir)) fs.mkdirSync(reportsDir, { recursive: true });
 
   log.header("Generating Report");
 
-  const grouped = groupResults(results);
-  const baseResults = results.filter(r => !r.interactionId);
-  const interactionResults = results.filter(r => r.interactionId);
+  const written: string[] = [];
+  if (formats.includes("html")) written.push(writeHtmlReport(results, reportsDir, appConfig, images));
+
+  const extraFiles: Array<[ReportFormat, string, () => string]> = [
+    ["json", "report.json", () => renderJsonReport(app, results)],
+    ["junit", "junit.xml", () => renderJUnitReport(app, results)],
+    ["markdown", "summary.md", () => renderMarkdownReport(app, appConfig.displayName, results)],
+  ];
+  for (const [format, file, render] of extraFiles) {
+    if (!formats.includes(format)) continue;
+    const outputPath = path.join(reportsDir, file);
+    fs.writeFileSync(outputPath, render(), "utf-8");
+    log.fileSaved(outputPath, REPORT_FORMAT_LABELS[format]);
+    written.push(outputPath);
+  }
+
+  return written[0] ?? reportsDir;
+}
+
+const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  html: "Report",
+  json: "JSON report",
+  junit: "JUnit XML",
+  markdown: "Markdown summary",
+};
+
+/** HTML report (index.html) — plus assets/ unless images are embedded */
+function writeHtmlReport(results: ComparisonResult[], reportsDir: string, appConfig: AppConfig, images: ReportImageMode): string {
+  const assets = createReportAssets(reportsDir, images, getThumbnailWidth());
+
+  // Added/removed screenshots and pairs that couldn't be diffed get their own
+  // section; stats and averages cover compared pairs
+  const missing = results.filter(r => r.status !== "compared");
+  const compared = results.filter(r => r.status === "compared");
+  const addedCount = missing.filter(r => r.status === "added").length;
+  const removedCount = missing.filter(r => r.status === "removed").length;
+  const errorCount = missing.length - addedCount - removedCount;
+  const errorNote = errorCount > 0 ? `, ${errorCount} not diffed` : "";
+  const failureCount = results.filter(r => r.severity === "fail").length;
+
+  const grouped = groupResults(compared);
+  const baseResults = compared.filter(r => !r.interactionId);
+  const interactionResults = compared.filter(r => r.interactionId);
   
   const totalPages = baseResults.length;
   const totalInteractions = interactionResults.length;
+  const viewportNames = [...new Set(results.map(r => r.viewport).filter((v): v is string => !!v))];
+  const ssimScores = compared.flatMap(r => r.ssim !== undefined ? [r.ssim] : []);
+  const avgSsim = ssimScores.length > 0 ? ssimScores.reduce((sum, v) => sum + v, 0) / ssimScores.length : undefined;
+  const browserNames = [...new Set(results.flatMap(r => [r.env1Browser ?? DEFAULT_BROWSER, r.env2Browser ?? DEFAULT_BROWSER]))];
+  const isCrossBrowser = results.some(r => (r.env1Browser ?? DEFAULT_BROWSER) !== (r.env2Browser ?? DEFAULT_BROWSER));
   const avgDiff =
-    results.length > 0
-      ? results.reduce((sum, r) => sum + r.diffPercentage, 0) / results.length
+    compared.length > 0
+      ? compared.reduce((sum, r) => sum + r.diffPercentage, 0) / compared.length
       : 0;
 
-  // Get environment URLs dynamically from the first result or config
-  const env1Name = results[0]?.env1Label ?? environments[0]?.name ?? "env1";
-  const env2Name = results[0]?.env2Label ?? environments[1]?.name ?? "env2";
-  const env1Url = environments.find(e => e.name === env1Name)?.baseUrl ?? "N/A";
-  const env2Url = environments.find(e => e.name === env2Name)?.baseUrl ?? "N/A";
+  // Environments in the report (config order) — cross-env results carry their env names
+  const envUrl = (name?: string) => environments.find(e => e.name === name)?.baseUrl;
+  const resultEnvs = new Set(results.flatMap(r => [r.env1Name, r.env2Name]).filter((n): n is string => !!n));
+  const envNames = environments.map(e => e.name).filter(n => resultEnvs.has(n));
+  const showGrid = envNames.length > 2;
+
+  // Header rows: every compared environment, or the two sides' labels for other modes
+  const headerEnvs = envNames.length > 0
+    ? envNames.map(name => ({ name, url: envUrl(name) ?? "N/A" }))
+    : [
+        results[0]?.env1Label ?? environments[0]?.name ?? "env1",
+        results[0]?.env2Label ?? environments[1]?.name ?? "env2",
+      ].map(name => ({ name, url: envUrl(name) ?? "N/A" }));
+  const envLabelClasses = ["develop", "local"];
+  const envRows = headerEnvs.map((env, i) => `
+            <div class="env-row">
+              <span class="env-label ${envLabelClasses[i] ?? "extra"}">${env.name.toUpperCase()}</span>
+              <a href="${env.url}" target="_blank" rel="noopener noreferrer" class="env-url">${env.url}</a>
+            </div>`).join("");
 
   // Generate navigation menu items for expanded sidebar
   const navItems = grouped.map((group, idx) => {
     const cardId = `page-${idx}`;
-    const badgeClass = group.base ? getBadgeClass(group.base.diffPercentage) : "badge-green";
+    const badgeClass = group.base ? getBadgeClass(group.base.severity) : "badge-green";
     const diffPct = group.base ? group.base.diffPercentage.toFixed(2) : "0.00";
     const interactionCount = group.interactions.length;
     
     return `
-      <a href="#${cardId}" class="nav-item">
+      <a href="#${cardId}" class="nav-item" data-group="${idx}">
         <div class="nav-tooltip">
-          <div class="nav-tooltip-path">${group.pagePath}</div>
+          <div class="nav-tooltip-path">${group.pagePath}${viewportTagHtml(group.viewport, group.browser, group.pair)}</div>
           <div class="nav-tooltip-meta">
             <span>${diffPct}%</span>
             ${interactionCount > 0 ? `<span>• ${interactionCount} interactions</span>` : ''}
           </div>
         </div>
         <span class="nav-index">${idx + 1}</span>
-        <span class="nav-path">${group.pagePath}</span>
+        <span class="nav-path">${group.pagePath}${viewportTagHtml(group.viewport, group.browser, group.pair)}</span>
         <div class="nav-meta">
           <span class="nav-badge ${badgeClass}">${diffPct}%</span>
           ${interactionCount > 0 ? `<span class="nav-interactions"><svg class="icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>${interactionCount}</span>` : ''}
         </div>
-      </a>`;
+      </a>${group.base && group.base.regions.length > 0 ? `
+      <div class="nav-regions" data-group="${idx}">
+        ${group.base.regions.map(region => `<a href="#${cardId}-region-${region.index}" class="nav-region"><span class="region-num">${region.index}</span>${escapeHtml(region.label)}</a>`).join("")}
+      </div>` : ''}`;
   }).join("\n");
 
+  const showPairTags = new Set(results.map(envPairTag)).size > 1;
+  const missingSection = missing.length > 0 ? `
+      <section class="missing-section" id="missing">
+        <h2 class="missing-title">Missing &amp; New Screenshots <span class="missing-count">${addedCount} added · ${removedCount} removed${errorCount > 0 ? ` · ${errorCount} not diffed` : ""}</span></h2>
+        ${missing.map((r, idx) => {
+          const name = r.interactionId ? `${r.pagePath} <span class="grid-interaction">${r.interactionId}</span>` : r.pagePath;
+          const pair = showPairTags ? envPairTag(r) : undefined;
+          const title = `${name}${viewportTagHtml(r.viewport, undefined, pair)}`;
+          return r.status === "error"
+            ? renderErrorCard(assets, r, title, `missing-${idx}`)
+            : renderMissingCard(assets, r, title, `missing-${idx}`);
+        }).join("\n")}
+      </section>` : "";
+
   const cards = grouped
     .map((group, idx) => {
-      let html = "";
+      let html = `<div class="result-group" data-group="${idx}">`;
       const cardId = `page-${idx}`;
       
       // Base page card
       if (group.base) {
-        html += renderCard(group.base, group.pagePath, false, cardId, env1Url, env2Url);
+        const r = group.base;
+        html += renderCard(assets, r, `${group.pagePath}${viewportTagHtml(group.viewport, group.browser, group.pair)}`, false, cardId, envUrl(r.env1Name), envUrl(r.env2Name));
       }
       
       // Interaction cards (nested)
@@ -161,15 +531,15 @@ export function generateReport(results: ComparisonResult[]): string {
           </div>`;
         
         for (const interaction of group.interactions) {
-          const title = `${interaction.interactionId}`;
+          const title = `${interaction.interactionId}${viewportTagHtml(interaction.viewport, group.browser, group.pair)}`;
           const interactionCardId = `${cardId}-${interaction.interactionId?.replace(/\s+/g, '-')}`;
-          html += renderCard(interaction, title, true, interactionCardId, env1Url, env2Url);
+          html += renderCard(assets, interaction, title, true, interactionCardId, envUrl(interaction.env1Name), envUrl(interaction.env2Name));
         }
         
         html += `</div>`;
       }
       
-      return html;
+      return `${html}</div>`;
     })
     .join("\n");
 
@@ -450,6 +820,25 @@ export function generateReport(results: ComparisonResult[]): string {
       font-size: 11px;
       font-weight: 600;
     }
+    .viewport-tag {
+      display: inline-block;
+      margin-left: 6px;
+      padding: 1px 8px;
+      border-radius: 10px;
+      font-size: 11px;
+      font-weight: 600;
+      background: rgba(102, 126, 234, 0.15);
+      color: #667eea;
+      vertical-align: middle;
+    }
+    .pair-tag {
+      background: rgba(167, 139, 250, 0.15);
+      color: #8b5cf6;
+    }
+    .browser-tag {
+      background: rgba(16, 185, 129, 0.15);
+      color: #10b981;
+    }
     .nav-interactions {
       font-size: 11px;
       color: #a78bfa;
@@ -595,6 +984,7 @@ export function generateReport(results: ComparisonResult[]): string {
     }
     .env-label.develop { background: rgba(74, 222, 128, 0.3); color: #4ade80; }
     .env-label.local { background: rgba(249, 115, 22, 0.3); color: #fb923c; }
+    .env-label.extra { background: rgba(167, 139, 250, 0.3); color: #c4b5fd; }
     .env-url {
       font-size: 13px;
       color: rgba(255,255,255,0.9);
@@ -705,6 +1095,306 @@ export function generateReport(results: ComparisonResult[]): string {
       color: var(--text-secondary);
       font-weight: 500;
     }
+    .shot {
+      position: relative;
+    }
+    .region-box {
+      position: absolute;
+      border: 2px solid #f43f5e;
+      border-radius: 3px;
+      background: rgba(244, 63, 94, 0.08);
+      pointer-events: none;
+      scroll-margin-top: 120px;
+    }
+    .region-box .region-num {
+      position: absolute;
+      top: -10px;
+      left: -10px;
+    }
+    .region-num {
+      display: inline-flex;
+      align-items: center;
+      justify-content: center;
+      min-width: 18px;
+      height: 18px;
+      padding: 0 4px;
+      border-radius: 9px;
+      background: #f43f5e;
+      color: #fff;
+      font-size: 11px;
+      font-weight: 700;
+    }
+    .band-summary {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      padding: 12px 24px 0;
+      font-size: 13px;
+      color: var(--text-secondary);
+    }
+    .band-tag {
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-size: 11px;
+      font-weight: 600;
+    }
+    .band-inserted { background: rgba(34, 197, 94, 0.15); color: #16a34a; }
+    .band-removed { background: rgba(59, 130, 246, 0.15); color: #2563eb; }
+    .region-summary {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      padding: 12px 24px 0;
+      font-size: 13px;
+      color: var(--text-secondary);
+    }
+    .region-link, .nav-region {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      color: var(--text-primary);
+      text-decoration: none;
+    }
+    .region-link:hover, .nav-region:hover {
+      text-decoration: underline;
+    }
+    .nav-regions {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      padding: 0 12px 8px 40px;
+      font-size: 12px;
+    }
+    .nav-region {
+      color: var(--text-secondary);
+    }
+    .layout.collapsed .nav-regions {
+      display: none;
+    }
+    .filter-bar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 24px;
+      padding: 12px 16px;
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+      box-shadow: var(--card-shadow);
+    }
+    .filter-search {
+      flex: 1;
+      min-width: 200px;
+      padding: 7px 12px;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      background: var(--bg-primary);
+      color: var(--text-primary);
+      font-size: 13px;
+      outline: none;
+    }
+    .filter-search:focus {
+      border-color: #667eea;
+    }
+    .filter-chips {
+      display: inline-flex;
+      gap: 4px;
+    }
+    .filter-chip, .filter-reset {
+      padding: 6px 12px;
+      border: 1px solid var(--border-color);
+      border-radius: 16px;
+      background: transparent;
+      color: var(--text-secondary);
+      font-size: 12px;
+      font-weight: 500;
+      cursor: pointer;
+    }
+    .filter-chip.pass.active { background: rgba(74, 222, 128, 0.2); border-color: #22c55e; color: #16a34a; }
+    .filter-chip.warn.active { background: rgba(250, 204, 21, 0.2); border-color: #eab308; color: #ca8a04; }
+    .filter-chip.fail.active { background: rgba(248, 113, 113, 0.2); border-color: #ef4444; color: #dc2626; }
+    .filter-select {
+      padding: 6px 8px;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      background: var(--bg-primary);
+      color: var(--text-primary);
+      font-size: 12px;
+    }
+    .filter-count {
+      margin-left: auto;
+      color: var(--text-muted);
+      font-size: 12px;
+    }
+    .filter-reset:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .filtered-out {
+      display: none !important;
+    }
+    .filter-empty {
+      padding: 48px;
+      text-align: center;
+      color: var(--text-muted);
+    }
+    .view-switch {
+      display: inline-flex;
+      margin-bottom: 24px;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      overflow: hidden;
+    }
+    .view-switch button {
+      border: none;
+      background: var(--bg-secondary);
+      color: var(--text-secondary);
+      font-size: 13px;
+      font-weight: 500;
+      padding: 8px 16px;
+      cursor: pointer;
+    }
+    .view-switch button.active {
+      background: #667eea;
+      color: #fff;
+    }
+    .env-grid {
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 16px;
+      padding: 16px 24px 24px;
+      box-shadow: var(--card-shadow);
+    }
+    .grid-row {
+      display: grid;
+      gap: 16px;
+    }
+    .grid-header {
+      position: sticky;
+      top: 56px;
+      background: var(--bg-secondary);
+      padding: 8px 0;
+      z-index: 5;
+    }
+    .grid-head {
+      font-size: 12px;
+      font-weight: 700;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+      color: var(--text-secondary);
+    }
+    .grid-row-title {
+      font-size: 14px;
+      font-weight: 600;
+      margin: 20px 0 10px;
+      padding-top: 16px;
+      border-top: 1px solid var(--border-color);
+    }
+    .grid-interaction {
+      font-weight: 500;
+      color: var(--text-secondary);
+    }
+    .grid-cell img {
+      width: 100%;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      cursor: pointer;
+    }
+    .grid-diff {
+      margin-top: 8px;
+    }
+    .grid-diff .badge {
+      display: inline-block;
+      margin-bottom: 6px;
+    }
+    .grid-missing {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: 120px;
+      border: 1px dashed var(--border-color);
+      border-radius: 8px;
+      color: var(--text-muted);
+      font-size: 13px;
+    }
+    .missing-section {
+      margin-bottom: 32px;
+    }
+    .missing-title {
+      font-size: 18px;
+      margin-bottom: 16px;
+      color: #dc2626;
+    }
+    .missing-count {
+      font-size: 13px;
+      font-weight: 500;
+      color: var(--text-secondary);
+      margin-left: 8px;
+    }
+    .missing-card {
+      border-left: 3px solid #dc2626;
+    }
+    .card-images.missing-images {
+      grid-template-columns: 1fr 1fr;
+    }
+    .card-status {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+    .review-actions {
+      display: inline-flex;
+      gap: 6px;
+    }
+    .review-btn {
+      padding: 4px 10px;
+      border-radius: 6px;
+      font-size: 12px;
+      font-weight: 500;
+      cursor: pointer;
+      background: transparent;
+      border: 1px solid var(--border-color);
+      color: var(--text-secondary);
+    }
+    .review-btn.approve:hover, .review-actions.approved .review-btn.approve {
+      color: #22c55e;
+      border-color: #22c55e;
+    }
+    .review-btn.reject:hover, .review-actions.rejected .review-btn.reject {
+      color: #ef4444;
+      border-color: #ef4444;
+    }
+    .review-btn:disabled {
+      cursor: default;
+      opacity: 0.6;
+    }
+    .viewer-btn:hover {
+      color: #667eea;
+      border-color: #667eea;
+    }
+    .diff-toggle {
+      display: inline-flex;
+      margin-left: 8px;
+      border: 1px solid var(--border-color);
+      border-radius: 6px;
+      overflow: hidden;
+      vertical-align: middle;
+    }
+    .diff-toggle button {
+      border: none;
+      background: transparent;
+      color: var(--text-secondary);
+      font-size: 11px;
+      padding: 2px 8px;
+      cursor: pointer;
+    }
+    .diff-toggle button.active {
+      background: #667eea;
+      color: #fff;
+    }
     .image-col img {
       width: 100%;
       border: 1px solid var(--border-color);
@@ -876,6 +1566,7 @@ export function generateReport(results: ComparisonResult[]): string {
     ::-webkit-scrollbar-track { background: var(--scrollbar-track); }
     ::-webkit-scrollbar-thumb { background: var(--scrollbar-thumb); border-radius: 4px; }
     ::-webkit-scrollbar-thumb:hover { background: var(--text-muted); }
+${VIEWER_STYLES}
   </style>
 </head>
 <body>
@@ -919,8 +1610,15 @@ export function generateReport(results: ComparisonResult[]): string {
         <div class="sidebar-subtitle">Visual Regression Report</div>
       </div>
       <nav class="nav-section">
+        ${missing.length > 0 ? `<a href="#missing" class="nav-item nav-missing">
+          <span class="nav-index">!</span>
+          <span class="nav-path">Missing &amp; new</span>
+          <div class="nav-meta"><span class="nav-badge badge-red">${missing.length}</span></div>
+        </a>` : ''}
         <div class="nav-section-title"><span class="nav-title-text">Pages</span><span class="nav-title-count"> (${totalPages})</span></div>
+        <div id="navPages">
         ${navItems}
+        </div>
       </nav>
     </aside>
     
@@ -942,6 +1640,22 @@ export function generateReport(results: ComparisonResult[]): string {
               <div class="stat-value">${avgDiff.toFixed(2)}%</div>
               <div class="stat-label">Avg Difference</div>
             </div>
+            ${failureCount > 0 ? `<div class="stat">
+              <div class="stat-value">${failureCount}</div>
+              <div class="stat-label">Failures${missing.length > 0 ? ` (${addedCount} added, ${removedCount} removed${errorNote})` : ''}</div>
+            </div>` : ''}
+            ${avgSsim !== undefined ? `<div class="stat">
+              <div class="stat-value">${avgSsim.toFixed(4)}</div>
+              <div class="stat-label">Avg SSIM</div>
+            </div>` : ''}
+            ${viewportNames.length > 0 ? `<div class="stat">
+              <div class="stat-value">${viewportNames.length}</div>
+              <div class="stat-label">Viewports</div>
+            </div>` : ''}
+            ${browserNames.length > 1 ? `<div class="stat">
+              <div class="stat-value">${browserNames.length}</div>
+              <div class="stat-label">Browsers</div>
+            </div>` : ''}
           </div>
         </div>
         <div class="header-right">
@@ -952,21 +1666,46 @@ export function generateReport(results: ComparisonResult[]): string {
                 <circle cx="9" cy="7" r="4"/>
                 <path d="M22 21v-2a4 4 0 0 0-3-3.87M16 3.13a4 4 0 0 1 0 7.75"/>
               </svg>
-              Comparing Environments
-            </div>
-            <div class="env-row">
-              <span class="env-label develop">${env1Name.toUpperCase()}</span>
-              <a href="${env1Url}" target="_blank" rel="noopener noreferrer" class="env-url">${env1Url}</a>
-            </div>
-            <div class="env-row">
-              <span class="env-label local">${env2Name.toUpperCase()}</span>
-              <a href="${env2Url}" target="_blank" rel="noopener noreferrer" class="env-url">${env2Url}</a>
+              ${isCrossBrowser ? "Comparing Browsers" : "Comparing Environments"}
             </div>
+            ${envRows}
           </div>
         </div>
       </div>
-      
+      <div class="filter-bar" id="filterBar">
+        <input type="search" class="filter-search" id="filterSearch" placeholder="Search pages and interactions..." oninput="updateFilters()" />
+        <div class="filter-chips" title="Severity (none selected = all)">
+          <button class="filter-chip pass" data-severity="pass" onclick="toggleSeverity(this)">Pass</button>
+          <button class="filter-chip warn" data-severity="warn" onclick="toggleSeverity(this)">Warn</button>
+          <button class="filter-chip fail" data-severity="fail" onclick="toggleSeverity(this)">Fail</button>
+        </div>
+        <select class="filter-select" id="filterChanges" onchange="updateFilters()">
+          <option value="all">Changed &amp; unchanged</option>
+          <option value="changed">Changed only</option>
+          <option value="unchanged">Unchanged only</option>
+        </select>
+        <select class="filter-select" id="filterType" onchange="updateFilters()">
+          <option value="all">Pages &amp; interactions</option>
+          <option value="page">Pages only</option>
+          <option value="interaction">Interactions only</option>
+        </select>
+        <select class="filter-select" id="filterSort" onchange="updateFilters()">
+          <option value="path">Sort by path</option>
+          <option value="diff">Sort by diff %</option>
+        </select>
+        <span class="filter-count" id="filterCount"></span>
+        <button class="filter-reset" id="filterReset" onclick="resetFilters()">Reset</button>
+      </div>
+      ${showGrid ? `
+      <div class="view-switch">
+        <button class="active" onclick="switchView(this, 'pairs')">Pairs</button>
+        <button onclick="switchView(this, 'grid')">Grid (${envNames.length} environments)</button>
+      </div>` : ''}
+      ${missingSection}
+      <div class="view" id="view-pairs">
       ${cards}
+      </div>
+      ${showGrid ? `<div class="view" id="view-grid" style="display:none">${renderEnvGrid(assets, compared, envNames)}</div>` : ''}
     </main>
   </div>
   
@@ -981,11 +1720,7 @@ export function generateReport(results: ComparisonResult[]): string {
       </div>
     </div>
     <button class="modal-nav next" onclick="navigateModal(1)">&#8250;</button>
-    <div class="modal-dots">
-      <div class="modal-dot" data-index="0" onclick="goToImage(0)"></div>
-      <div class="modal-dot" data-index="1" onclick="goToImage(1)"></div>
-      <div class="modal-dot" data-index="2" onclick="goToImage(2)"></div>
-    </div>
+    <div class="modal-dots" id="modalDots"></div>
   </div>
   
   <script>
@@ -1031,14 +1766,221 @@ export function generateReport(results: ComparisonResult[]): string {
   
     // Modal functionality
     let currentImages = [];
+    let currentLabels = [];
+    let currentClasses = [];
     let currentIndex = 0;
     const labels = ['Dev', 'Local', 'Diff'];
     const labelClasses = ['dev', 'local', 'diff'];
     
+    function toggleDiffView(button, view) {
+      const col = button.closest('.image-col');
+      const img = col.querySelector('img');
+      img.src = img.dataset[view];
+      const full = img.dataset[view + 'Full'];
+      if (full) img.dataset.full = full;
+      else delete img.dataset.full;
+      col.querySelectorAll('.diff-toggle button').forEach(b => b.classList.toggle('active', b === button));
+    }
+    
+    // Baseline review — posts to the dashboard server that serves this report
+    async function reviewScreenshot(button, action) {
+      const actions = button.closest('.review-actions');
+      if (location.protocol === 'file:') {
+        alert('Open this report through the UI Police dashboard (bun run ui) to approve or reject screenshots.');
+        return;
+      }
+      const reviewer = prompt('Reviewer name:', localStorage.getItem('reviewer') || '');
+      if (!reviewer) return;
+      localStorage.setItem('reviewer', reviewer);
+      const note = prompt('Note (optional):', '') || undefined;
+
+      actions.querySelectorAll('button').forEach(b => b.disabled = true);
+      try {
+        const res = await fetch('/api/baseline/' + action, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            app: actions.dataset.app,
+            env: actions.dataset.env,
+            runId: actions.dataset.run,
+            files: [actions.dataset.file],
+            reviewer,
+            note,
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || res.statusText);
+        actions.classList.remove('approved', 'rejected');
+        actions.classList.add(action === 'approve' ? 'approved' : 'rejected');
+        button.textContent = action === 'approve' ? 'Approved' : 'Rejected';
+      } catch (err) {
+        alert('Could not ' + action + ' screenshot: ' + err.message);
+        actions.querySelectorAll('button').forEach(b => b.disabled = false);
+      }
+    }
+
+    // Pairs view / environment grid
+    function switchView(button, view) {
+      document.querySelectorAll('.view').forEach(el => el.style.display = el.id === 'view-' + view ? '' : 'none');
+      button.parentElement.querySelectorAll('button').forEach(b => b.classList.toggle('active', b === button));
+      // Filters apply to the pairs view and the missing section
+      document.getElementById('filterBar').style.display = view === 'grid' ? 'none' : '';
+    }
+
+    // Filter bar — the state lives in the query string (?q=&severity=&changes=&type=&sort=)
+    // so a filtered view can be shared; the hash stays free for the jump-to links
+    const DEFAULT_FILTERS = { q: '', severity: [], changes: 'all', type: 'all', sort: 'path' };
+
+    function readFilters() {
+      const params = new URLSearchParams(location.search);
+      return {
+        q: params.get('q') || '',
+        severity: (params.get('severity') || '').split(',').filter(s => ['pass', 'warn', 'fail'].includes(s)),
+        changes: ['changed', 'unchanged'].includes(params.get('changes')) ? params.get('changes') : 'all',
+        type: ['page', 'interaction'].includes(params.get('type')) ? params.get('type') : 'all',
+        sort: params.get('sort') === 'diff' ? 'diff' : 'path',
+      };
+    }
+
+    function writeFilters(f) {
+      const params = new URLSearchParams(location.search);
+      ['q', 'severity', 'changes', 'type', 'sort'].forEach(key => params.delete(key));
+      if (f.q) params.set('q', f.q);
+      if (f.severity.length > 0) params.set('severity', f.severity.join(','));
+      if (f.changes !== 'all') params.set('changes', f.changes);
+      if (f.type !== 'all') params.set('type', f.type);
+      if (f.sort !== 'path') params.set('sort', f.sort);
+      const query = params.toString();
+      try {
+        history.replaceState(null, '', location.pathname + (query ? '?' + query : '') + location.hash);
+      } catch {
+        // Some browsers refuse to change the URL of a file:// page
+      }
+    }
+
+    function filtersFromControls() {
+      return {
+        q: document.getElementById('filterSearch').value.trim(),
+        severity: Array.from(document.querySelectorAll('.filter-chip.active')).map(b => b.dataset.severity),
+        changes: document.getElementById('filterChanges').value,
+        type: document.getElementById('filterType').value,
+        sort: document.getElementById('filterSort').value,
+      };
+    }
+
+    function setControls(f) {
+      document.getElementById('filterSearch').value = f.q;
+      document.querySelectorAll('.filter-chip').forEach(b => b.classList.toggle('active', f.severity.includes(b.dataset.severity)));
+      document.getElementById('filterChanges').value = f.changes;
+      document.getElementById('filterType').value = f.type;
+      document.getElementById('filterSort').value = f.sort;
+    }
+
+    function cardMatches(card, f) {
+      const d = card.dataset;
+      if (f.severity.length > 0 && !f.severity.includes(d.severity)) return false;
+      if (f.changes !== 'all' && (d.changed === 'true') !== (f.changes === 'changed')) return false;
+      if (f.type !== 'all' && d.kind !== f.type) return false;
+      const terms = f.q.toLowerCase().split(/\s+/).filter(Boolean);
+      return terms.every(t => d.search.includes(t));
+    }
+
+    function applyFilters(f) {
+      const cards = Array.from(document.querySelectorAll('.card[data-kind]'));
+      let shown = 0;
+      cards.forEach(card => {
+        const match = cardMatches(card, f);
+        card.classList.toggle('filtered-out', !match);
+        if (match) shown++;
+      });
+
+      // A page group stays while any of its cards matches; sorting moves whole groups
+      const pairs = document.getElementById('view-pairs');
+      const groups = Array.from(pairs.querySelectorAll('.result-group'));
+      const maxDiff = new Map();
+      groups.forEach(group => {
+        const visible = Array.from(group.querySelectorAll('.card:not(.filtered-out)'));
+        const interactions = group.querySelector('.interactions-group');
+        if (interactions) interactions.classList.toggle('filtered-out', !interactions.querySelector('.card:not(.filtered-out)'));
+        group.classList.toggle('filtered-out', visible.length === 0);
+        maxDiff.set(group, Math.max(0, ...visible.map(c => Number(c.dataset.diff))));
+        document.querySelectorAll('#navPages [data-group="' + group.dataset.group + '"]').forEach(el => el.classList.toggle('filtered-out', visible.length === 0));
+      });
+      const byIndex = (a, b) => Number(a.dataset.group) - Number(b.dataset.group);
+      groups.sort(f.sort === 'diff' ? (a, b) => maxDiff.get(b) - maxDiff.get(a) || byIndex(a, b) : byIndex);
+      groups.forEach(group => pairs.appendChild(group));
+
+      // Sidebar follows the same order (each item is followed by its regions)
+      const nav = document.getElementById('navPages');
+      groups.forEach(group => {
+        nav.querySelectorAll('[data-group="' + group.dataset.group + '"]').forEach(el => nav.appendChild(el));
+      });
+
+      const missing = document.getElementById('missing');
+      if (missing) missing.classList.toggle('filtered-out', !missing.querySelector('.card:not(.filtered-out)'));
+
+      let empty = document.getElementById('filterEmpty');
+      if (!empty) {
+        empty = document.createElement('div');
+        empty.id = 'filterEmpty';
+        empty.className = 'filter-empty';
+        empty.textContent = 'No screenshots match these filters.';
+      }
+      pairs.appendChild(empty);
+      empty.style.display = shown === 0 && cards.length > 0 ? '' : 'none';
+      document.getElementById('filterCount').textContent = 'Showing ' + shown + ' of ' + cards.length;
+      document.getElementById('filterReset').disabled = JSON.stringify(f) === JSON.stringify(DEFAULT_FILTERS);
+    }
+
+    function updateFilters() {
+      const f = filtersFromControls();
+      writeFilters(f);
+      applyFilters(f);
+    }
+
+    function toggleSeverity(button) {
+      button.classList.toggle('active');
+      updateFilters();
+    }
+
+    function resetFilters() {
+      setControls(DEFAULT_FILTERS);
+      updateFilters();
+    }
+
+    const initialFilters = readFilters();
+    setControls(initialFilters);
+    applyFilters(initialFilters);
+
+    // Comparison viewer over the cards the filters show, in their current order, starting at this one
+    function cardComparison(card) {
+      const item = JSON.parse(card.dataset.viewer);
+      const [env1, env2, diff] = card.querySelectorAll('.card-images img');
+      const full = img => img.dataset.full || img.src;
+      item.env1Src = full(env1);
+      item.env2Src = full(env2);
+      // Byte-identical pairs have no diff image
+      item.diffSrc = diff ? diff.dataset.pixelFull || diff.dataset.pixel || full(diff) : '';
+      if (diff && diff.dataset.ssim) item.ssimSrc = diff.dataset.ssimFull || diff.dataset.ssim;
+      return item;
+    }
+
+    function openViewer(cardId) {
+      const cards = Array.from(document.querySelectorAll('#view-pairs .card[data-viewer]:not(.filtered-out)'));
+      ComparisonViewer.open(cards.map(cardComparison), cards.findIndex(c => c.id === cardId));
+    }
+${VIEWER_SCRIPT}
     function openModal(imgElement, index) {
       const container = imgElement.closest('.card-images');
-      const images = container.querySelectorAll('img');
-      currentImages = Array.from(images).map(img => img.src);
+      const images = Array.from(container.querySelectorAll('img'));
+      // Linked reports show thumbnails in the cards and the full image here
+      currentImages = images.map(img => img.dataset.full || img.src);
+      // Cards have fixed Dev/Local/Diff columns; grid rows label each image
+      currentLabels = images.map((img, i) => img.dataset.label || labels[i] || '');
+      currentClasses = images.map((img, i) => img.dataset.kind || labelClasses[i] || 'diff');
+      document.getElementById('modalDots').innerHTML = currentImages
+        .map((_, i) => '<div class="modal-dot" data-index="' + i + '" onclick="goToImage(' + i + ')"></div>')
+        .join('');
       currentIndex = index;
       updateModal();
       document.getElementById('imageModal').classList.add('active');
@@ -1051,7 +1993,7 @@ export function generateReport(results: ComparisonResult[]): string {
     }
     
     function navigateModal(direction) {
-      currentIndex = (currentIndex + direction + 3) % 3;
+      currentIndex = (currentIndex + direction + currentImages.length) % currentImages.length;
       updateModal();
     }
     
@@ -1064,8 +2006,8 @@ export function generateReport(results: ComparisonResult[]): string {
       const modalImage = document.getElementById('modalImage');
       const modalLabel = document.getElementById('modalLabel');
       modalImage.src = currentImages[currentIndex];
-      modalLabel.textContent = labels[currentIndex];
-      modalLabel.className = 'modal-label ' + labelClasses[currentIndex];
+      modalLabel.textContent = currentLabels[currentIndex];
+      modalLabel.className = 'modal-label ' + currentClasses[currentIndex];
       
       document.querySelectorAll('.modal-dot').forEach((dot, i) => {
         dot.classList.toggle('active', i === currentIndex);
@@ -1094,9 +2036,16 @@ export function generateReport(results: ComparisonResult[]): string {
 
   const outputPath = path.join(reportsDir, "index.html");
   fs.writeFileSync(outputPath, html, "utf-8");
-  
+  const assetStats = assets.finish();
+
   log.fileSaved(outputPath, "Report");
-  console.log(`  ${style.muted(`Pages: ${totalPages} | Interactions: ${totalInteractions} | Avg Diff: ${avgDiff.toFixed(2)}%`)}\n`);
+  console.log(`  ${style.muted(images === "embedded"
+    ? `Images embedded: ${assetStats.images} (${formatBytes(Buffer.byteLength(html))})`
+    : `Images linked: ${assetStats.images} in assets/ (${assetStats.thumbnails} thumbnails)`)}`);
+  const missingNote = missing.length > 0
+    ? ` | Added: ${addedCount} | Removed: ${removedCount}${errorCount > 0 ? ` | Not diffed: ${errorCount}` : ""}`
+    : "";
+  console.log(`  ${style.muted(`Pages: ${totalPages} | Interactions: ${totalInteractions} | Avg Diff: ${avgDiff.toFixed(2)}% | Failures: ${failureCount}${missingNote}`)}\n`);
   
   return outputPath;
 }
@@ -1124,6 +2073,7 @@ export function generateMainIndex(): string {
       pages: number;
       size: string;
     };
+    trends: AppTrends;
   }
   
   const appReports: AppReport[] = APP_LIST.map(appType => {
@@ -1161,6 +2111,7 @@ export function generateMainIndex(): string {
       hasReport,
       lastModified,
       stats,
+      trends: getTrends(appType),
     };
   });
   
@@ -1426,6 +2377,111 @@ export function generateMainIndex(): string {
       transform: translateX(4px);
     }
     
+    /* Trends */
+    .app-trends {
+      margin-top: 14px;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .app-trend {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    .app-trend-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .sparkline {
+      flex-shrink: 0;
+      vertical-align: middle;
+    }
+    .trend-flags {
+      font-size: 12px;
+      color: var(--text-muted);
+    }
+    .trends {
+      margin-top: 48px;
+    }
+    .trends-title {
+      font-size: 22px;
+      font-weight: 700;
+      margin-bottom: 6px;
+    }
+    .trends-subtitle {
+      font-size: 13px;
+      color: var(--text-secondary);
+      margin-bottom: 24px;
+    }
+    .trends-app {
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 16px;
+      box-shadow: var(--card-shadow);
+      padding: 20px 24px;
+      margin-bottom: 24px;
+    }
+    .trends-app h3 {
+      font-size: 16px;
+      margin-bottom: 12px;
+    }
+    .trends-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+    }
+    .trends-table th {
+      text-align: left;
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--text-muted);
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--border-color);
+    }
+    .trends-table td {
+      padding: 8px;
+      border-bottom: 1px solid var(--border-color);
+      vertical-align: middle;
+    }
+    .trends-table tr:last-child td {
+      border-bottom: none;
+    }
+    .trend-page {
+      font-family: 'SF Mono', Monaco, monospace;
+      font-size: 12px;
+    }
+    .trend-meta {
+      color: var(--text-muted);
+      font-size: 12px;
+    }
+    .trend-flag {
+      display: inline-block;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-size: 11px;
+      font-weight: 600;
+    }
+    .trend-flag.flaky {
+      background: rgba(250, 204, 21, 0.2);
+      color: #ca8a04;
+    }
+    .trend-flag.regression {
+      background: rgba(248, 113, 113, 0.2);
+      color: #dc2626;
+    }
+    .trends-more {
+      margin-top: 10px;
+      font-size: 12px;
+      color: var(--text-muted);
+    }
+
     /* Footer */
     .footer {
       text-align: center;
@@ -1498,6 +2554,7 @@ export function generateMainIndex(): string {
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
                 ${app.lastModified ? `Updated ${formatTimeAgo(app.lastModified)}` : 'Unknown'}
               </div>
+              ${renderAppTrendLines(app.trends)}
               <div class="app-card-action">
                 <span class="app-card-action-text">View Report</span>
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="5" y1="12" x2="19" y2="12"/><polyline points="12 5 19 12 12 19"/></svg>
@@ -1524,6 +2581,8 @@ export function generateMainIndex(): string {
       }).join('')}
     </div>
     
+    ${renderTrendsSection(appReports.map(app => ({ name: app.config.displayName, trends: app.trends })))}
+
     <footer class="footer">
       Generated on ${generatedAt} • Cariloop UI Police v${projectConfig.version}
     </footer>
@@ -1573,12 +2632,103 @@ export function generateMainIndex(): string {
   return outputPath;
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+// ============================================
+// TRENDS
+// ============================================
+
+/** Pages listed per app in the main index's trends section */
+const TREND_ROWS = 25;
+
+const SEVERITY_COLORS: Record<DiffSeverity, string> = { pass: "#22c55e", warn: "#eab308", fail: "#ef4444" };
+
+/**
+ * Inline SVG sparkline of diff percentages — the line scales to the largest
+ * value (at least 1%), dots are colored by severity
+ */
+function sparklineSvg(points: Array<{ value: number; severity: DiffSeverity; title: string }>, width = 120, height = 28): string {
+  if (points.length === 0) return "";
+  const max = Math.max(1, ...points.map(p => p.value));
+  const pad = 3;
+  const step = points.length > 1 ? (width - pad * 2) / (points.length - 1) : 0;
+  const coords = points.map((p, i) => ({
+    x: points.length > 1 ? pad + i * step : width / 2,
+    y: height - pad - (p.value / max) * (height - pad * 2),
+    ...p,
+  }));
+  const line = coords.map(c => `${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(" ");
+  const dots = coords.map(c =>
+    `<circle cx="${c.x.toFixed(1)}" cy="${c.y.toFixed(1)}" r="2.2" fill="${SEVERITY_COLORS[c.severity]}"><title>${escapeHtml(c.title)}</title></circle>`
+  ).join("");
+  return `<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><polyline points="${line}" fill="none" stroke="#667eea" stroke-width="1.5" stroke-linejoin="round" />${dots}</svg>`;
+}
+
+/** "/settings · open-menu @mobile" */
+function trendPageName(p: PageTrend): string {
+  return `${p.pagePath}${p.interactionId ? ` · ${p.interactionId}` : ""}${p.viewport ? ` @${p.viewport}` : ""}`;
+}
+
+/** Average diff per track on an app card, plus how many pages are flagged */
+function renderAppTrendLines(trends: AppTrends): string {
+  if (trends.tracks.length === 0) return "";
+  const lines = trends.tracks.slice(0, 3).map(t => `
+                <div class="app-trend">
+                  <span class="app-trend-name" title="${escapeHtml(t.track)}">${escapeHtml(t.track)}</span>
+                  ${sparklineSvg(t.points.map(p => ({
+                    value: p.avgDiff,
+                    severity: p.fail > 0 ? "fail" : p.warn > 0 ? "warn" : "pass",
+                    title: `${new Date(p.comparedAt).toLocaleString()} — avg ${p.avgDiff.toFixed(2)}%, ${p.fail} fail, ${p.warn} warn`,
+                  })))}
+                </div>`).join("");
+  const flaky = trends.pages.filter(p => p.flag === "flaky").length;
+  const regressions = trends.pages.filter(p => p.flag === "regression").length;
+  const flags = flaky + regressions > 0
+    ? `<div class="trend-flags">${regressions} regression${regressions === 1 ? "" : "s"} · ${flaky} flaky page${flaky === 1 ? "" : "s"}</div>`
+    : "";
+  return `<div class="app-trends">${lines}${flags}</div>`;
+}
+
+/**
+ * Per-page trends for every app with history — flagged pages first
+ */
+function renderTrendsSection(apps: Array<{ name: string; trends: AppTrends }>): string {
+  const withHistory = apps.filter(a => a.trends.pages.length > 0);
+  if (withHistory.length === 0) return "";
+
+  const sections = withHistory.map(({ name, trends }) => {
+    const rows = trends.pages.slice(0, TREND_ROWS).map(p => {
+      const latest = p.points[p.points.length - 1]!;
+      return `
+          <tr>
+            <td>${p.flag ? `<span class="trend-flag ${p.flag}">${p.flag}</span>` : ""}</td>
+            <td class="trend-page">${escapeHtml(trendPageName(p))}</td>
+            <td class="trend-meta">${escapeHtml(p.track)}</td>
+            <td>${sparklineSvg(p.points.map(pt => ({
+              value: pt.diffPercentage,
+              severity: pt.severity,
+              title: `${new Date(pt.comparedAt).toLocaleString()} (${pt.label}) — ${pt.diffPercentage.toFixed(2)}%`,
+            })))}</td>
+            <td><span style="color:${SEVERITY_COLORS[latest.severity]}">${latest.diffPercentage.toFixed(2)}%</span></td>
+            <td class="trend-meta">${p.changes}/${p.points.length} changed · ${p.flips} flips</td>
+          </tr>`;
+    }).join("");
+    const more = trends.pages.length - TREND_ROWS;
+    return `
+      <div class="trends-app">
+        <h3>${escapeHtml(name)} <span class="trend-meta">· ${trends.comparisons} comparisons</span></h3>
+        <table class="trends-table">
+          <thead><tr><th>Flag</th><th>Page</th><th>Track</th><th>Diff trend</th><th>Latest</th><th>Activity</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+        ${more > 0 ? `<div class="trends-more">${more} more page${more === 1 ? "" : "s"} not shown</div>` : ""}
+      </div>`;
+  }).join("");
+
+  return `
+    <section class="trends">
+      <h2 class="trends-title">Trends</h2>
+      <p class="trends-subtitle">Diff percentage per page over the last ${TREND_WINDOW} comparisons of each track. <strong>Flaky</strong> pages keep switching between passing and changed (or change by varying amounts); <strong>regressions</strong> passed before and stayed changed in the latest comparisons.</p>
+      ${sections}
+    </section>`;
 }
 
 function formatTimeAgo(date: Date): string {
@@ -1602,9 +2752,32 @@ function getAppIcon(appType: string): string {
   return icons[appType] ?? '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><circle cx="12" cy="12" r="10"/></svg>';
 }
 
-// Allow running standalone
+// Allow running standalone — `bun src/core/report.ts <app> <diffLabel...>` rebuilds
+// from recorded diff manifests instead of comparing.
+// `--formats html,json,junit,markdown` picks the files to write;
+// `--images linked|embedded` how the HTML report includes screenshots.
 if (import.meta.main) {
-  const { compareScreenshots } = await import("./compare");
-  const results = compareScreenshots([]);
-  generateReport(results);
+  const args = process.argv.slice(2);
+  const formatsIdx = args.indexOf("--formats");
+  let formats = getReportFormats();
+  let images = getReportImageMode();
+  try {
+    if (formatsIdx !== -1) formats = parseReportFormats(args.splice(formatsIdx, 2)[1] ?? "");
+    const imagesIdx = args.indexOf("--images");
+    if (imagesIdx !== -1) images = parseReportImageMode(args.splice(imagesIdx, 2)[1] ?? "");
+  } catch (err: any) {
+    log.error(err.message);
+    process.exit(1);
+  }
+
+  const [app, ...labels] = args;
+  if (app && labels.length > 0) {
+    const { loadDiffResults } = await import("./diff-manifest");
+    generateReport(app, loadDiffResults(app, labels), formats, images);
+  } else {
+    const { compareScreenshots } = await import("./compare");
+    const appName = app ?? DEFAULT_APP;
+    const results = await compareScreenshots(appName, []);
+    generateReport(appName, results, formats, images);
+  }
 }
@@ -0,0 +1,300 @@
+import fs from "fs";
+import path from "path";
+import { APP_LIST, getRetention, type RetentionConfig } from "./config";
+import { listRuns, deleteRun, getRunDir, getDiffsDir, getDiffPairDir } from "./runs";
+import { listBaselines } from "./baseline";
+import { loadDiffManifest } from "./diff-manifest";
+import { getCacheDir } from "./compare-cache";
+import { getJobsDir, getActiveJobs } from "./jobs";
+import type { RunSummary } from "../types/config";
+
+/**
+ * Retention — deletes capture runs no rule in `retention` keeps, the diff
+ * folders left without their source runs, and stale compare cache entries
+ * and job log archives.
+ *
+ * A run is kept when the first of these matches:
+ *
+ *   running    still capturing (or interrupted — resumable)
+ *   tagged     has tags (see setRunTags())
+ *   baseline   an approved baseline screenshot was copied from it
+ *   latest     among the `keepLast` newest completed runs of its app+env+browser
+ *   recent     completed within `keepDays`
+ *   grace      failed or cancelled within `failedGraceDays`
+ *
+ * Everything else is deleted — "expired" when completed, otherwise by its
+ * status. A diff folder is orphaned when its diff-manifest.json names a
+ * source run that is gone; folders without a manifest (written before diff
+ * manifests existed) can't be traced to their runs and are left alone. The
+ * history index (history.json) keeps the numbers of pruned comparisons.
+ *
+ *   cache      captures/{app}/cache/compare — entries not used within `cacheDays`
+ *   jobs       captures/{app}/jobs — archives not written to within `jobDays`
+ *              (never those of a queued or running job)
+ *
+ * The interactive CLI's fresh run goes through resetRuns(): every run is
+ * deleted except tagged and baseline-source runs.
+ */
+
+export type KeepReason = "running" | "tagged" | "baseline" | "latest" | "recent" | "grace";
+
+export type PruneReason = "expired" | "failed" | "cancelled";
+
+export interface KeptRun extends RunSummary {
+  reason: KeepReason;
+}
+
+export interface PrunedRun extends RunSummary {
+  reason: PruneReason;
+  /** Size of the run directory */
+  bytes: number;
+}
+
+export interface PrunedDiff {
+  app: string;
+  label: string;
+  /** Why the folder is orphaned */
+  reason: string;
+  bytes: number;
+}
+
+/**
+ * Compare cache entries or job log archives of one app past their retention
+ */
+export interface PrunedFiles {
+  app: string;
+  /** Cache keys or job IDs */
+  ids: string[];
+  bytes: number;
+}
+
+export interface PruneResult {
+  /** True when nothing was deleted — a preview */
+  dryRun: boolean;
+  /** App pruned, or null for all apps */
+  app: string | null;
+  policy: RetentionConfig;
+  /** Runs deleted (or that would be), oldest first */
+  runs: PrunedRun[];
+  /** Runs kept, with the rule that kept them */
+  kept: KeptRun[];
+  /** Orphaned diff folders deleted (or that would be) */
+  diffs: PrunedDiff[];
+  /** Stale compare cache entries, per app */
+  cache: PrunedFiles[];
+  /** Stale job log archives, per app */
+  jobs: PrunedFiles[];
+  /** Disk space freed (or that would be) */
+  bytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Total size of the files under `dir` */
+function dirSize(dir: string): number {
+  if (!fs.existsSync(dir)) return 0;
+  let bytes = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    bytes += entry.isDirectory() ? dirSize(entryPath) : fs.statSync(entryPath).size;
+  }
+  return bytes;
+}
+
+function runKey(env: string, runId: string): string {
+  return `${env}/${runId}`;
+}
+
+/** "develop/260217-001" for every run an app's baselines were approved from */
+function baselineSourceRuns(app: string): Set<string> {
+  const sources = new Set<string>();
+  for (const baseline of listBaselines(app)) {
+    for (const entry of Object.values(baseline.entries)) sources.add(runKey(baseline.environment, entry.sourceRunId));
+  }
+  return sources;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Sort an app's runs into kept and pruned by the retention rules
+ */
+function planRuns(app: string, policy: RetentionConfig, now: number): { kept: KeptRun[]; pruned: PrunedRun[] } {
+  const runs = listRuns(app);
+  const baselineSources = baselineSourceRuns(app);
+
+  // Newest completed runs per env+browser
+  const latest = new Set<RunSummary>();
+  const groups = new Map<string, RunSummary[]>();
+  for (const run of runs) {
+    if (run.status !== "completed") continue;
+    const key = `${run.environment}:${run.browser}`;
+    groups.set(key, [...(groups.get(key) ?? []), run]);
+  }
+  for (const group of groups.values()) {
+    group
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, policy.keepLast)
+      .forEach((run) => latest.add(run));
+  }
+
+  const kept: KeptRun[] = [];
+  const pruned: PrunedRun[] = [];
+  for (const run of runs) {
+    const age = now - new Date(run.timestamp).getTime();
+    let reason: KeepReason | undefined;
+    if (run.status === "running") reason = "running";
+    else if (run.tags && run.tags.length > 0) reason = "tagged";
+    else if (baselineSources.has(runKey(run.environment, run.runId))) reason = "baseline";
+    else if (run.status === "completed" && latest.has(run)) reason = "latest";
+    else if (run.status === "completed" && age < policy.keepDays * DAY_MS) reason = "recent";
+    else if (run.status !== "completed" && age < policy.failedGraceDays * DAY_MS) reason = "grace";
+
+    if (reason) {
+      kept.push({ ...run, reason });
+    } else {
+      pruned.push({
+        ...run,
+        reason: run.status === "completed" ? "expired" : (run.status as PruneReason),
+        bytes: dirSize(getRunDir(app, run.environment, run.runId)),
+      });
+    }
+  }
+  return { kept, pruned };
+}
+
+/**
+ * Diff folders of an app that lose (or already lack) their source runs once
+ * `removed` runs are gone. Folders without a manifest are never planned.
+ */
+function planDiffs(app: string, removed: RunSummary[]): PrunedDiff[] {
+  const diffsDir = getDiffsDir(app);
+  if (!fs.existsSync(diffsDir)) return [];
+
+  const gone = new Set(removed.map((r) => runKey(r.environment, r.runId)));
+  const existing = new Set(listRuns(app).map((r) => runKey(r.environment, r.runId)));
+
+  const orphans: PrunedDiff[] = [];
+  for (const entry of fs.readdirSync(diffsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const label = entry.name;
+    const manifest = loadDiffManifest(app, label);
+    if (!manifest) continue;
+
+    let reason: string | undefined;
+    for (const source of manifest.sources) {
+      if (!source.runId) continue;
+      const key = runKey(source.env, source.runId);
+      if (gone.has(key)) reason = `source run ${key} is pruned`;
+      else if (!existing.has(key)) reason = `source run ${key} no longer exists`;
+      if (reason) break;
+    }
+    if (reason) orphans.push({ app, label, reason, bytes: dirSize(getDiffPairDir(app, label)) });
+  }
+  return orphans;
+}
+
+/**
+ * Files in `dir` grouped by ID (the name up to the first dot), whose newest
+ * file is older than `days` — returned with every file of the group
+ */
+function planStaleFiles(
+  dir: string,
+  days: number,
+  now: number,
+  skip: Set<string> = new Set(),
+): { ids: string[]; files: string[]; bytes: number } {
+  const stale = { ids: [] as string[], files: [] as string[], bytes: 0 };
+  if (!fs.existsSync(dir)) return stale;
+
+  const groups = new Map<string, Array<{ file: string; size: number; mtime: number }>>();
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isFile()) continue;
+    const id = entry.name.split(".")[0] ?? entry.name;
+    const file = path.join(dir, entry.name);
+    const { size, mtimeMs } = fs.statSync(file);
+    groups.set(id, [...(groups.get(id) ?? []), { file, size, mtime: mtimeMs }]);
+  }
+
+  for (const [id, files] of groups) {
+    if (skip.has(id)) continue;
+    const lastTouched = Math.max(...files.map((f) => f.mtime));
+    if (now - lastTouched < days * DAY_MS) continue;
+    stale.ids.push(id);
+    stale.files.push(...files.map((f) => f.file));
+    stale.bytes += files.reduce((sum, f) => sum + f.size, 0);
+  }
+  stale.ids.sort();
+  return stale;
+}
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Apply the retention rules to one app (or every app) — with `dryRun`,
+ * only report what would be deleted
+ */
+export function pruneRuns(
+  app?: string,
+  dryRun = false,
+  policy: RetentionConfig = getRetention(),
+  now = Date.now(),
+): PruneResult {
+  const apps = app ? [app] : [...new Set([...APP_LIST, ...listRuns().map((r) => r.app)])];
+  const result: PruneResult = { dryRun, app: app ?? null, policy, runs: [], kept: [], diffs: [], cache: [], jobs: [], bytes: 0 };
+  const activeJobs = new Set(getActiveJobs().map((j) => j.id));
+
+  for (const name of apps) {
+    const { kept, pruned } = planRuns(name, policy, now);
+    const diffs = planDiffs(name, pruned);
+    const cache = planStaleFiles(getCacheDir(name), policy.cacheDays, now);
+    const jobs = planStaleFiles(getJobsDir(name), policy.jobDays, now, activeJobs);
+
+    if (!dryRun) {
+      for (const run of pruned) deleteRun(name, run.environment, run.runId);
+      for (const diff of diffs) fs.rmSync(getDiffPairDir(name, diff.label), { recursive: true, force: true });
+      for (const file of [...cache.files, ...jobs.files]) fs.rmSync(file, { force: true });
+    }
+
+    result.runs.push(...pruned);
+    result.kept.push(...kept);
+    result.diffs.push(...diffs);
+    if (cache.ids.length > 0) result.cache.push({ app: name, ids: cache.ids, bytes: cache.bytes });
+    if (jobs.ids.length > 0) result.jobs.push({ app: name, ids: jobs.ids, bytes: jobs.bytes });
+  }
+
+  result.runs.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  result.bytes = [...result.runs, ...result.diffs, ...result.cache, ...result.jobs].reduce((sum, item) => sum + item.bytes, 0);
+  return result;
+}
+
+/**
+ * Fresh-run reset — deletes every run of an app except the ones no policy
+ * may delete (tagged runs and runs a baseline was approved from), plus the
+ * diff folders left without their source runs. Interrupted runs are deleted
+ * too, so the next capture starts over instead of resuming them. Baselines,
+ * history, compare cache and job archives are not touched.
+ */
+export function resetRuns(app: string): { removed: RunSummary[]; kept: KeptRun[]; diffs: PrunedDiff[] } {
+  const baselineSources = baselineSourceRuns(app);
+  const removed: RunSummary[] = [];
+  const kept: KeptRun[] = [];
+  for (const run of listRuns(app)) {
+    if (run.tags && run.tags.length > 0) kept.push({ ...run, reason: "tagged" });
+    else if (baselineSources.has(runKey(run.environment, run.runId))) kept.push({ ...run, reason: "baseline" });
+    else removed.push(run);
+  }
+
+  const diffs = planDiffs(app, removed);
+  for (const run of removed) deleteRun(app, run.environment, run.runId);
+  for (const diff of diffs) fs.rmSync(getDiffPairDir(app, diff.label), { recursive: true, force: true });
+  return { removed, kept, diffs };
+}
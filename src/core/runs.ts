@@ -12,19 +12,25 @@
  *           dashboard.png
  *       diffs/
  *         develop-vs-local/            ← cross-env comparison
- *         develop-260217-002-vs-001/   ← cross-run comparison
+ *         develop-260217-001-vs-260217-002/  ← cross-run comparison (previous vs current)
  *
  * Key behaviour:
  *   - Run IDs are scoped per app+env (each env has its own sequence).
- *   - If an incomplete run exists for app+env, it is resumed — no new run is created.
+ *   - Each run captures one browser; multi-browser captures create one run per browser.
+ *   - If an incomplete run exists for app+env+browser, it is resumed — no new run is created.
+ *   - Old runs are removed by the retention rules (see retention.ts); tagged runs are kept.
  */
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from "fs";
+import { createHash } from "crypto";
 import path from "path";
+import { DEFAULT_BROWSER } from "./config";
 import type {
+  BrowserName,
   GlobalManifest,
   RunManifest,
   RunSummary,
+  RunTrigger,
   ScreenshotEntry,
 } from "../types/config";
 import { formatDuration } from "../utils/terminal";
@@ -79,7 +85,10 @@ function createEmptyGlobalManifest(): GlobalManifest {
 export function loadGlobalManifest(): GlobalManifest {
   if (!existsSync(GLOBAL_MANIFEST_PATH)) return createEmptyGlobalManifest();
   try {
-    return JSON.parse(readFileSync(GLOBAL_MANIFEST_PATH, "utf-8")) as GlobalManifest;
+    const manifest = JSON.parse(readFileSync(GLOBAL_MANIFEST_PATH, "utf-8")) as GlobalManifest;
+    // Runs recorded before cross-browser support were all chromium
+    for (const run of manifest.runs) run.browser ??= DEFAULT_BROWSER;
+    return manifest;
   } catch {
     return createEmptyGlobalManifest();
   }
@@ -127,13 +136,17 @@ export function nextRunId(app: string, env: string): string {
 // ============================================
 
 /**
- * Find the latest incomplete (status === "running") run for an app+env.
+ * Find the latest incomplete (status === "running") run for an app+env+browser.
  * Returns the run manifest if found, or null.
  */
-export function findIncompleteRun(app: string, env: string): RunManifest | null {
+export function findIncompleteRun(
+  app: string,
+  env: string,
+  browser: BrowserName = DEFAULT_BROWSER,
+): RunManifest | null {
   const global = loadGlobalManifest();
   const incompleteEntries = global.runs.filter(
-    (r) => r.app === app && r.environment === env && r.status === "running",
+    (r) => r.app === app && r.environment === env && r.browser === browser && r.status === "running",
   );
   if (incompleteEntries.length === 0) return null;
 
@@ -168,7 +181,7 @@ export function cancelRun(app: string, env: string, runId: string): void {
 // ============================================
 
 /**
- * Obtain a run for app+env. If an incomplete run exists, resume it.
+ * Obtain a run for app+env+browser. If an incomplete run exists, resume it.
  * Otherwise create a new one.
  * Returns { runId, startTime, resumed }.
  */
@@ -177,19 +190,21 @@ export function getOrCreateRun(
   env: string,
   baseUrl: string,
   version: string,
+  browser: BrowserName = DEFAULT_BROWSER,
+  trigger: RunTrigger = "manual",
 ): {
   runId: string;
   startTime: number;
   resumed: boolean;
 } {
-  const incomplete = findIncompleteRun(app, env);
+  const incomplete = findIncompleteRun(app, env, browser);
   if (incomplete) {
     // Resume — parse original timestamp to approximate startTime
     const originalStart = new Date(incomplete.timestamp).getTime();
     return { runId: incomplete.runId, startTime: originalStart, resumed: true };
   }
 
-  return { ...createRun(app, env, baseUrl, version), resumed: false };
+  return { ...createRun(app, env, baseUrl, version, browser, trigger), resumed: false };
 }
 
 /**
@@ -200,6 +215,8 @@ export function createRun(
   env: string,
   baseUrl: string,
   version: string,
+  browser: BrowserName = DEFAULT_BROWSER,
+  trigger: RunTrigger = "manual",
 ): {
   runId: string;
   startTime: number;
@@ -213,9 +230,10 @@ export function createRun(
     app,
     environment: env,
     baseUrl,
+    browser,
     timestamp: new Date().toISOString(),
     duration: "",
-    trigger: "manual",
+    trigger,
     status: "running",
     version,
     pageCount: 0,
@@ -235,8 +253,10 @@ export function createRun(
     runId,
     app,
     environment: env,
+    browser,
     timestamp: runManifest.timestamp,
     status: "running",
+    trigger,
   });
   saveGlobalManifest(globalManifest);
 
@@ -244,7 +264,15 @@ export function createRun(
 }
 
 /**
- * Register a screenshot in the run manifest
+ * SHA-256 of a screenshot file's bytes
+ */
+export function hashScreenshot(filepath: string): string {
+  return createHash("sha256").update(readFileSync(filepath)).digest("hex");
+}
+
+/**
+ * Register a screenshot in the run manifest (hashing the file when the
+ * entry doesn't carry a hash yet)
  */
 export function registerScreenshot(
   app: string,
@@ -255,6 +283,9 @@ export function registerScreenshot(
   const manifest = loadRunManifest(app, env, runId);
   if (!manifest) return;
 
+  const filepath = path.join(getRunDir(app, env, runId), entry.file);
+  if (!entry.hash && existsSync(filepath)) entry.hash = hashScreenshot(filepath);
+
   manifest.screenshots.push(entry);
   if (entry.interactionId) {
     manifest.interactionCount++;
@@ -331,6 +362,32 @@ export function deleteRun(app: string, env: string, runId: string): boolean {
   return true;
 }
 
+/**
+ * Replace a run's tags in both manifests (an empty list removes them).
+ * Returns the tags set, or null when the run doesn't exist.
+ */
+export function setRunTags(app: string, env: string, runId: string, tags: string[]): string[] | null {
+  const global = loadGlobalManifest();
+  const entry = global.runs.find((r) => r.runId === runId && r.app === app && r.environment === env);
+  if (!entry) return null;
+
+  const unique = [...new Set(tags.map((t) => t.trim()).filter(Boolean))];
+  const next = unique.length > 0 ? unique : undefined;
+  entry.tags = next;
+  saveGlobalManifest(global);
+
+  const manifest = loadRunManifest(app, env, runId);
+  if (manifest) {
+    manifest.tags = next;
+    writeFileSync(
+      getRunManifestPath(app, env, runId),
+      JSON.stringify(manifest, null, 2),
+      "utf-8",
+    );
+  }
+  return unique;
+}
+
 // ============================================
 // RUN QUERIES
 // ============================================
@@ -342,28 +399,37 @@ export function loadRunManifest(app: string, env: string, runId: string): RunMan
   const manifestPath = getRunManifestPath(app, env, runId);
   if (!existsSync(manifestPath)) return null;
   try {
-    return JSON.parse(readFileSync(manifestPath, "utf-8")) as RunManifest;
+    const manifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as RunManifest;
+    // Runs recorded before cross-browser support were all chromium
+    manifest.browser ??= DEFAULT_BROWSER;
+    for (const entry of manifest.screenshots) entry.browser ??= manifest.browser;
+    return manifest;
   } catch {
     return null;
   }
 }
 
 /**
- * List all runs, optionally filtered by app and/or env
+ * List all runs, optionally filtered by app, env and/or browser
  */
-export function listRuns(app?: string, env?: string): RunSummary[] {
+export function listRuns(app?: string, env?: string, browser?: BrowserName): RunSummary[] {
   const manifest = loadGlobalManifest();
   let runs = manifest.runs;
   if (app) runs = runs.filter((r) => r.app === app);
   if (env) runs = runs.filter((r) => r.environment === env);
+  if (browser) runs = runs.filter((r) => r.browser === browser);
   return runs;
 }
 
 /**
- * Find the latest completed run for a given app+env
+ * Find the latest completed run for a given app+env+browser
  */
-export function getLatestCompletedRun(app: string, env: string): RunSummary | null {
-  const runs = listRuns(app, env).filter((r) => r.status === "completed");
+export function getLatestCompletedRun(
+  app: string,
+  env: string,
+  browser: BrowserName = DEFAULT_BROWSER,
+): RunSummary | null {
+  const runs = listRuns(app, env, browser).filter((r) => r.status === "completed");
   return runs.length > 0 ? runs[runs.length - 1]! : null;
 }
 
@@ -0,0 +1,338 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  APP_LIST,
+  environments,
+  DEFAULT_PIPELINE_TASKS,
+  getConfigSchedules,
+  type PipelineTasks,
+  type ScheduleDefinition,
+} from "./config";
+import { parseCron, nextCronTime } from "./cron";
+import { getCapturesDir } from "./runs";
+import { log } from "../utils/terminal";
+
+/**
+ * Scheduler — pipelines the dashboard server starts on cron schedules.
+ *
+ * Schedules come from `schedules` in ui-police.config.ts (read-only here) or
+ * are created through /api/schedules. API schedules and the history of
+ * scheduled runs are stored in one file:
+ *
+ *   captures/
+ *     schedules.json     ← { schedules: [...], history: [...] }
+ *
+ * Runs missed while the server was down are not caught up; the next
+ * matching time is computed from when the server starts.
+ */
+
+export type ScheduleSource = "config" | "api";
+
+/** A schedule as listed by the API, with its next run */
+export interface Schedule extends ScheduleDefinition {
+  source: ScheduleSource;
+  /** Next run time, ISO 8601 (null when disabled or never matching) */
+  nextRun: string | null;
+}
+
+export type ScheduledRunStatus = "running" | "completed" | "failed" | "skipped";
+
+/** One firing of a schedule */
+export interface ScheduledRun {
+  /** Schedule name + firing time (e.g., "nightly-auth@2026-10-20T02:00:00.000Z") */
+  id: string;
+  schedule: string;
+  app: string;
+  envs?: string[];
+  /** When the cron expression matched, ISO 8601 */
+  scheduledFor: string;
+  finishedAt?: string;
+  status: ScheduledRunStatus;
+  /** Run IDs per env (and browser) captured by this firing */
+  runIds: Record<string, string>;
+  /** Dashboard job that ran the pipeline */
+  jobId?: string;
+  /** Outcome summary or why the run was skipped */
+  detail?: string;
+}
+
+/** Result of one pipeline run — null means the app already had a job queued or running */
+export type ScheduleRunner = (
+  schedule: ScheduleDefinition,
+) => Promise<{ success: boolean; detail: string; runIds: Record<string, string>; jobId: string } | null>;
+
+interface ScheduleStore {
+  schedules: ScheduleDefinition[];
+  history: ScheduledRun[];
+}
+
+/** Scheduled runs kept in schedules.json */
+const HISTORY_LIMIT = 100;
+
+/** How often due schedules are checked */
+const TICK_MS = 15_000;
+
+/** Next firing per schedule name — filled when the scheduler starts */
+const nextRuns = new Map<string, Date | null>();
+let timer: ReturnType<typeof setInterval> | null = null;
+let runner: ScheduleRunner | null = null;
+
+// ============================================
+// STORE
+// ============================================
+
+function getStorePath(): string {
+  return path.join(getCapturesDir(), "schedules.json");
+}
+
+function loadStore(): ScheduleStore {
+  const file = getStorePath();
+  if (existsSync(file)) {
+    try {
+      return JSON.parse(readFileSync(file, "utf-8")) as ScheduleStore;
+    } catch {
+      // Corrupted store — start empty
+    }
+  }
+  return { schedules: [], history: [] };
+}
+
+function saveStore(store: ScheduleStore): void {
+  const dir = getCapturesDir();
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(getStorePath(), JSON.stringify(store, null, 2), "utf-8");
+}
+
+function saveScheduledRun(run: ScheduledRun): void {
+  const store = loadStore();
+  const index = store.history.findIndex((r) => r.id === run.id);
+  if (index >= 0) store.history[index] = run;
+  else store.history.push(run);
+  store.history = store.history.slice(-HISTORY_LIMIT);
+  saveStore(store);
+}
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+function allDefinitions(): Array<{ def: ScheduleDefinition; source: ScheduleSource }> {
+  return [
+    ...getConfigSchedules().map((def) => ({ def, source: "config" as const })),
+    ...loadStore().schedules.map((def) => ({ def, source: "api" as const })),
+  ];
+}
+
+function computeNextRun(def: ScheduleDefinition, after: Date = new Date()): Date | null {
+  return def.enabled === false ? null : nextCronTime(def.cron, after);
+}
+
+/** Names end up in URLs, file-backed history and dashboard markup */
+const SCHEDULE_NAME = /^[\w.-]+$/;
+
+const TASK_KEYS: Array<keyof PipelineTasks> = ["capture", "scripts", "compare", "report"];
+
+/**
+ * Check a schedule's `tasks` — an object with known keys, boolean steps and
+ * a list of script names, selecting at least one step once defaults are filled in
+ */
+function validateTasks(tasks: unknown): void {
+  if (tasks === undefined) return;
+  if (typeof tasks !== "object" || tasks === null || Array.isArray(tasks)) {
+    throw new Error(`tasks must be an object with ${TASK_KEYS.join(", ")}`);
+  }
+  const unknown = Object.keys(tasks).filter((k) => !TASK_KEYS.includes(k as keyof PipelineTasks));
+  if (unknown.length > 0) throw new Error(`Unknown task: "${unknown.join(", ")}". Available: ${TASK_KEYS.join(", ")}`);
+
+  const { scripts, ...steps } = tasks as Record<string, unknown>;
+  for (const [key, value] of Object.entries(steps)) {
+    if (typeof value !== "boolean") throw new Error(`tasks.${key} must be true or false`);
+  }
+  if (scripts !== undefined && (!Array.isArray(scripts) || scripts.some((s) => typeof s !== "string"))) {
+    throw new Error("tasks.scripts must be a list of script names");
+  }
+
+  const merged = { ...DEFAULT_PIPELINE_TASKS, ...(tasks as PipelineTasks) };
+  if (!merged.capture && !merged.compare && !merged.report && !(merged.scripts?.length)) {
+    throw new Error("tasks select no pipeline step");
+  }
+}
+
+/**
+ * Check a schedule definition — throws on a missing or malformed name, an
+ * unknown app or environment, bad tasks, a bad cron expression or (for an
+ * enabled schedule) one that never fires
+ */
+export function validateSchedule(def: ScheduleDefinition): void {
+  if (!def.name?.trim()) throw new Error("Schedule name is required");
+  if (!SCHEDULE_NAME.test(def.name)) {
+    throw new Error(`Invalid schedule name: "${def.name}". Use letters, digits, "_", "." and "-"`);
+  }
+  if (!APP_LIST.includes(def.app)) throw new Error(`Unknown app: "${def.app}". Available: ${APP_LIST.join(", ")}`);
+  const unknown = (def.envs ?? []).filter((e) => !environments.some((env) => env.name === e));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown environment: "${unknown.join(", ")}". Available: ${environments.map((e) => e.name).join(", ")}`);
+  }
+  validateTasks(def.tasks);
+  const cron = parseCron(def.cron ?? "");
+  if (def.enabled !== false && !nextCronTime(cron)) {
+    throw new Error(`Cron expression "${def.cron}" never fires`);
+  }
+}
+
+/**
+ * Every schedule (config first, then API-created) with its next run
+ */
+export function listSchedules(): Schedule[] {
+  return allDefinitions().map(({ def, source }) => {
+    const next = nextRuns.has(def.name) ? nextRuns.get(def.name)! : computeNextRun(def);
+    return { ...def, source, nextRun: next?.toISOString() ?? null };
+  });
+}
+
+export function findSchedule(name: string): ScheduleDefinition | undefined {
+  return allDefinitions().find((s) => s.def.name === name)?.def;
+}
+
+/**
+ * Create a schedule through the API. Names must be unique across config and API schedules.
+ */
+export function addSchedule(def: ScheduleDefinition): Schedule {
+  validateSchedule(def);
+  if (allDefinitions().some((s) => s.def.name === def.name)) {
+    throw new Error(`Schedule "${def.name}" already exists`);
+  }
+
+  const { name, cron, app, envs, tasks, enabled } = def;
+  const stored: ScheduleDefinition = { name, cron, app, envs, tasks, enabled };
+  const store = loadStore();
+  store.schedules.push(stored);
+  saveStore(store);
+
+  const next = computeNextRun(stored);
+  if (timer) nextRuns.set(name, next);
+  log.success(`Schedule "${name}" added (${cron}, next: ${next?.toLocaleString() ?? "never"})`);
+  return { ...stored, source: "api", nextRun: next?.toISOString() ?? null };
+}
+
+/**
+ * Delete an API-created schedule. Config schedules can only be removed from ui-police.config.ts.
+ */
+export function removeSchedule(name: string): boolean {
+  if (getConfigSchedules().some((s) => s.name === name)) {
+    throw new Error(`Schedule "${name}" is defined in ui-police.config.ts — remove it there`);
+  }
+  const store = loadStore();
+  const remaining = store.schedules.filter((s) => s.name !== name);
+  if (remaining.length === store.schedules.length) return false;
+  store.schedules = remaining;
+  saveStore(store);
+  nextRuns.delete(name);
+  return true;
+}
+
+/**
+ * Scheduled runs, newest first
+ */
+export function listScheduledRuns(limit = HISTORY_LIMIT): ScheduledRun[] {
+  return loadStore().history.slice(-limit).reverse();
+}
+
+// ============================================
+// RUNNING
+// ============================================
+
+/**
+ * Fire one schedule now and record the outcome in the history
+ */
+export async function runSchedule(def: ScheduleDefinition, scheduledFor: Date = new Date()): Promise<ScheduledRun> {
+  if (!runner) throw new Error("Scheduler is not running");
+
+  const run: ScheduledRun = {
+    id: `${def.name}@${scheduledFor.toISOString()}`,
+    schedule: def.name,
+    app: def.app,
+    envs: def.envs,
+    scheduledFor: scheduledFor.toISOString(),
+    status: "running",
+    runIds: {},
+  };
+  saveScheduledRun(run);
+
+  try {
+    const outcome = await runner(def);
+    if (outcome) {
+      run.status = outcome.success ? "completed" : "failed";
+      run.detail = outcome.detail;
+      run.runIds = outcome.runIds;
+      run.jobId = outcome.jobId;
+    } else {
+      run.status = "skipped";
+      run.detail = `A ${def.app} job was already queued or running`;
+    }
+  } catch (err: any) {
+    run.status = "failed";
+    run.detail = err.message;
+  }
+
+  run.finishedAt = new Date().toISOString();
+  saveScheduledRun(run);
+  return run;
+}
+
+/** Fire every due schedule and move it to its next time */
+function tick(): void {
+  const now = new Date();
+  for (const { def } of allDefinitions()) {
+    if (!nextRuns.has(def.name)) nextRuns.set(def.name, computeNextRun(def, now));
+    const due = nextRuns.get(def.name);
+    if (!due || due > now) continue;
+
+    nextRuns.set(def.name, computeNextRun(def, now));
+    log.info(`Scheduled run "${def.name}" (${def.cron}) starting for ${def.app}`);
+    void runSchedule(def, due);
+  }
+}
+
+/**
+ * Start checking schedules. `run` runs the pipeline for a schedule and
+ * returns null when the app already has a job (recorded as skipped).
+ */
+export function startScheduler(run: ScheduleRunner): void {
+  runner = run;
+  nextRuns.clear();
+
+  for (const { def, source } of allDefinitions()) {
+    try {
+      validateSchedule(def);
+      nextRuns.set(def.name, computeNextRun(def));
+    } catch (err: any) {
+      log.error(`Ignoring ${source} schedule "${def.name}": ${err.message}`);
+      nextRuns.set(def.name, null);
+    }
+  }
+
+  // Runs still marked "running" were cut off by a restart
+  const store = loadStore();
+  const interrupted = store.history.filter((r) => r.status === "running");
+  if (interrupted.length > 0) {
+    for (const r of interrupted) {
+      r.status = "failed";
+      r.detail = "Server stopped during the run";
+    }
+    saveStore(store);
+  }
+
+  timer = setInterval(tick, TICK_MS);
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+  runner = null;
+}
+
+/** Tasks a schedule runs, with defaults filled in for the steps it leaves out */
+export function getScheduleTasks(def: ScheduleDefinition): PipelineTasks {
+  return { ...DEFAULT_PIPELINE_TASKS, ...def.tasks };
+}
@@ -0,0 +1,113 @@
+import { PNG } from "pngjs";
+
+/**
+ * Structural similarity (SSIM) — a perceptual metric that scores local
+ * luminance, contrast and structure instead of counting changed pixels,
+ * so sub-pixel font noise barely moves it while broken layouts do.
+ *
+ * Computed on grayscale over non-overlapping 8×8 windows (the usual
+ * "fast SSIM" approximation): 1 = identical, lower = less similar.
+ */
+
+const WINDOW = 8;
+const L = 255;
+const C1 = (0.01 * L) ** 2;
+const C2 = (0.03 * L) ** 2;
+
+export interface SsimResult {
+  /** Mean SSIM over all windows (1 = identical) */
+  ssim: number;
+  /** Per-window SSIM, row-major */
+  map: Float32Array;
+  /** Number of windows per row / column */
+  windowsX: number;
+  windowsY: number;
+}
+
+/** Luma of every pixel, composited over white like pixelmatch does */
+function toLuma(img: PNG): Float32Array {
+  const out = new Float32Array(img.width * img.height);
+  const d = img.data;
+  for (let i = 0, p = 0; p < out.length; i += 4, p++) {
+    const a = d[i + 3]! / 255;
+    const r = 255 + (d[i]! - 255) * a;
+    const g = 255 + (d[i + 1]! - 255) * a;
+    const b = 255 + (d[i + 2]! - 255) * a;
+    out[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  return out;
+}
+
+/**
+ * Compute SSIM between two images of identical dimensions
+ */
+export function computeSsim(img1: PNG, img2: PNG): SsimResult {
+  const { width, height } = img1;
+  const y1 = toLuma(img1);
+  const y2 = toLuma(img2);
+  const windowsX = Math.ceil(width / WINDOW);
+  const windowsY = Math.ceil(height / WINDOW);
+  const map = new Float32Array(windowsX * windowsY);
+
+  let total = 0;
+  for (let wy = 0; wy < windowsY; wy++) {
+    for (let wx = 0; wx < windowsX; wx++) {
+      const x0 = wx * WINDOW;
+      const y0 = wy * WINDOW;
+      const x1 = Math.min(x0 + WINDOW, width);
+      const yEnd = Math.min(y0 + WINDOW, height);
+      const n = (x1 - x0) * (yEnd - y0);
+
+      let sum1 = 0, sum2 = 0, sq1 = 0, sq2 = 0, cross = 0;
+      for (let y = y0; y < yEnd; y++) {
+        for (let x = x0; x < x1; x++) {
+          const a = y1[y * width + x]!;
+          const b = y2[y * width + x]!;
+          sum1 += a;
+          sum2 += b;
+          sq1 += a * a;
+          sq2 += b * b;
+          cross += a * b;
+        }
+      }
+
+      const mean1 = sum1 / n;
+      const mean2 = sum2 / n;
+      const var1 = sq1 / n - mean1 * mean1;
+      const var2 = sq2 / n - mean2 * mean2;
+      const cov = cross / n - mean1 * mean2;
+      const s = ((2 * mean1 * mean2 + C1) * (2 * cov + C2))
+        / ((mean1 * mean1 + mean2 * mean2 + C1) * (var1 + var2 + C2));
+
+      map[wy * windowsX + wx] = s;
+      total += s;
+    }
+  }
+
+  return { ssim: map.length > 0 ? total / map.length : 1, map, windowsX, windowsY };
+}
+
+/**
+ * Render an SSIM heatmap over a faded copy of the first image —
+ * yellow for slightly dissimilar windows through red for very dissimilar ones.
+ */
+export function renderSsimHeatmap(base: PNG, result: SsimResult): PNG {
+  const { width, height } = base;
+  const heatmap = new PNG({ width, height });
+  const luma = toLuma(base);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const s = result.map[Math.floor(y / WINDOW) * result.windowsX + Math.floor(x / WINDOW)] ?? 1;
+      // 1 - SSIM of 0.25 or more is shown at full intensity
+      const intensity = Math.min(1, Math.max(0, (1 - s) * 4));
+      const faded = 255 - (255 - luma[y * width + x]!) * 0.1;
+      const idx = (y * width + x) * 4;
+      heatmap.data[idx] = faded + (255 - faded) * intensity;
+      heatmap.data[idx + 1] = faded + (255 * (1 - intensity) - faded) * intensity;
+      heatmap.data[idx + 2] = faded * (1 - intensity);
+      heatmap.data[idx + 3] = 255;
+    }
+  }
+  return heatmap;
+}
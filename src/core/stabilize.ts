@@ -0,0 +1,103 @@
+import type { BrowserContext, Locator, Page } from "playwright";
+import { captureOptions } from "./config";
+import { log } from "../utils/terminal";
+import { collectLandmarks, saveLandmarks } from "./landmarks";
+
+/**
+ * Deterministic rendering — removes run-to-run noise (clocks, animations,
+ * carets, late web fonts, random content) before screenshots are taken.
+ * Every step is opt-in via a switch in `capture` (ui-police.config.ts).
+ */
+
+/** Fixed time used when `capture.freezeClock` is on and no `clockTime` is set */
+export const DEFAULT_CLOCK_TIME = "2026-01-01T09:00:00.000Z";
+
+/** Seed for the Math.random replacement when `capture.seedRandom` is on */
+const RANDOM_SEED = 1337;
+
+const DISABLE_ANIMATIONS_CSS = `
+*, *::before, *::after {
+  animation-duration: 0s !important;
+  animation-delay: 0s !important;
+  animation-iteration-count: 1 !important;
+  transition-duration: 0s !important;
+  transition-delay: 0s !important;
+  scroll-behavior: auto !important;
+}
+.mat-ripple-element, .mat-mdc-focus-indicator::before { display: none !important; }
+`;
+
+const HIDE_CARET_CSS = `
+*, *::before, *::after { caret-color: transparent !important; }
+`;
+
+/**
+ * Prepare a browser context for deterministic captures.
+ * Call after login so auth flows still see the real clock — the fixed
+ * clock and seeded Math.random apply to every page loaded afterwards.
+ */
+export async function stabilizeContext(context: BrowserContext): Promise<void> {
+  if (captureOptions.freezeClock) {
+    const time = captureOptions.clockTime ?? DEFAULT_CLOCK_TIME;
+    await context.clock.setFixedTime(new Date(time));
+    log.action(`Clock frozen at ${time}`);
+  }
+
+  if (captureOptions.seedRandom) {
+    await context.addInitScript((seed: number) => {
+      // mulberry32 — small deterministic PRNG
+      let state = seed >>> 0;
+      Math.random = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    }, RANDOM_SEED);
+  }
+}
+
+/**
+ * Settle the current page right before a screenshot: inject the
+ * animation/caret CSS (styles are lost on navigation, so this runs every
+ * time) and wait for web fonts to finish loading.
+ */
+export async function stabilizePage(page: Page): Promise<void> {
+  let css = "";
+  if (captureOptions.disableAnimations) css += DISABLE_ANIMATIONS_CSS;
+  if (captureOptions.hideCaret) css += HIDE_CARET_CSS;
+  if (css) {
+    try {
+      await page.addStyleTag({ content: css });
+    } catch {
+      // Page may be mid-navigation or block inline styles (CSP) — capture anyway
+    }
+  }
+
+  if (captureOptions.waitForFonts) {
+    try {
+      await page.evaluate(() => document.fonts.ready.then(() => undefined));
+    } catch {
+      // Fonts API unavailable — capture anyway
+    }
+  }
+}
+
+/**
+ * Stabilize the page, then take the screenshot and record its landmarks.
+ * Drop-in replacement for `page.screenshot()` used by every capture path.
+ */
+export async function takeScreenshot(
+  page: Page,
+  options: { path: string; fullPage?: boolean; mask?: Locator[] },
+): Promise<void> {
+  await stabilizePage(page);
+  const landmarks = await collectLandmarks(page);
+  await page.screenshot({
+    ...options,
+    ...(captureOptions.disableAnimations ? { animations: "disabled" as const } : {}),
+    ...(captureOptions.hideCaret ? { caret: "hide" as const } : {}),
+  });
+  saveLandmarks(options.path, landmarks);
+}
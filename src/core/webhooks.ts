@@ -0,0 +1,278 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import {
+  projectConfig,
+  getWebhooks,
+  getWebhooksFor,
+  getWebhookSecret,
+  DEFAULT_WEBHOOK_RETRIES,
+  DEFAULT_WEBHOOK_BACKOFF_MS,
+  DEFAULT_WEBHOOK_TIMEOUT_MS,
+  type RunTrigger,
+  type WebhookDefinition,
+  type WebhookEvent,
+} from "./config";
+import type { ComparisonResult } from "./compare";
+import { getOutstandingFailures, type InteractionLog } from "./logger";
+import { summarizeResults } from "./report-formats";
+import { log } from "../utils/terminal";
+
+/**
+ * Webhooks — JSON POSTs to the endpoints in `webhooks` when runs and
+ * pipelines finish.
+ *
+ * Every request carries these headers:
+ *
+ *   X-UI-Police-Event:     pipeline.completed
+ *   X-UI-Police-Delivery:  <id, the same on every retry>
+ *   X-UI-Police-Signature: sha256=<hex HMAC-SHA256 of the raw body>   (when the hook has a secret)
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried with
+ * exponential backoff; other responses are final. Deliveries run in the
+ * background so a slow receiver never holds up a pipeline — processes that
+ * exit afterwards (the CLI) wait for them with flushWebhooks().
+ */
+
+/** "ping" is only sent by sendTestWebhook() */
+export type WebhookPayloadEvent = WebhookEvent | "ping";
+
+export interface WebhookPayload {
+  event: WebhookPayloadEvent;
+  /** When the event happened, ISO 8601 */
+  timestamp: string;
+  app: string;
+  envs: string[];
+  trigger: RunTrigger;
+  /** Outcome summary or error */
+  detail: string;
+  /** Run IDs per env (and browser) */
+  runIds: Record<string, string>;
+  /** Dashboard job that ran it */
+  jobId?: string;
+  /** Results above the warn/fail thresholds — null when nothing was compared */
+  diffs: { total: number; warn: number; fail: number; added: number; removed: number } | null;
+  /** Interactions that failed in these runs */
+  failedInteractions: Array<{
+    environment: string;
+    pagePath: string;
+    viewport?: string;
+    interactionId: string;
+    description: string;
+    error?: string;
+  }>;
+  /** Report folder, when a report was generated */
+  reportPath: string | null;
+  version: string;
+}
+
+/** What a run or pipeline hands over when it finishes */
+export interface WebhookInput {
+  app: string;
+  /** Environments involved (default: taken from runIds) */
+  envs?: string[];
+  runIds?: Record<string, string>;
+  trigger?: RunTrigger;
+  jobId?: string;
+  detail: string;
+  results?: ComparisonResult[];
+  interactionLog?: InteractionLog;
+  reportPath?: string | null;
+}
+
+/** Outcome of sending one payload to one endpoint */
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: WebhookPayloadEvent;
+  ok: boolean;
+  attempts: number;
+  /** Last HTTP status received */
+  status?: number;
+  /** Last error when not ok */
+  error?: string;
+  sentAt: string;
+  finishedAt?: string;
+}
+
+/** Deliveries kept in memory for GET /api/webhooks */
+const DELIVERY_LIMIT = 50;
+
+const deliveries: WebhookDelivery[] = [];
+const pending = new Set<Promise<unknown>>();
+
+// ============================================
+// PAYLOAD & SIGNING
+// ============================================
+
+/**
+ * Build the JSON body for an event. Failed interactions are limited to the
+ * envs in `runIds` when there are any.
+ */
+export function buildWebhookPayload(event: WebhookPayloadEvent, input: WebhookInput): WebhookPayload {
+  const runIds = input.runIds ?? {};
+  const envKeys = Object.keys(runIds);
+  const envs = input.envs ?? [...new Set(envKeys.map((key) => key.split(":")[0]!))];
+
+  let diffs: WebhookPayload["diffs"] = null;
+  if (input.results && input.results.length > 0) {
+    const { total, warn, fail, added, removed } = summarizeResults(input.results);
+    diffs = { total, warn, fail, added, removed };
+  }
+
+  const failedInteractions = (input.interactionLog ? getOutstandingFailures(input.interactionLog) : [])
+    .filter((e) => envKeys.length === 0 || envKeys.includes(e.environment))
+    .map(({ environment, pagePath, viewport, interactionId, description, error }) => ({
+      environment, pagePath, viewport, interactionId, description, error,
+    }));
+
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    app: input.app,
+    envs,
+    trigger: input.trigger ?? "manual",
+    detail: input.detail,
+    runIds,
+    jobId: input.jobId,
+    diffs,
+    failedInteractions,
+    reportPath: input.reportPath ?? null,
+    version: projectConfig.version,
+  };
+}
+
+/** Hex HMAC-SHA256 of a raw body */
+export function signPayload(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Check an X-UI-Police-Signature header against the raw body — for receivers
+ */
+export function verifyWebhookSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(signPayload(body, secret), "hex");
+  const given = Buffer.from(signature.slice("sha256=".length), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function recordDelivery(delivery: WebhookDelivery): WebhookDelivery {
+  delivery.finishedAt = new Date().toISOString();
+  deliveries.push(delivery);
+  deliveries.splice(0, Math.max(0, deliveries.length - DELIVERY_LIMIT));
+
+  if (delivery.ok) {
+    log.success(`Webhook ${delivery.event} → ${delivery.url} (${delivery.status})`);
+  } else {
+    const tries = delivery.attempts === 1 ? "1 attempt" : `${delivery.attempts} attempts`;
+    log.warning(`Webhook ${delivery.event} → ${delivery.url} failed after ${tries}: ${delivery.error}`);
+  }
+  return delivery;
+}
+
+/**
+ * POST one payload to one endpoint, retrying with backoff
+ */
+async function deliver(hook: WebhookDefinition, payload: WebhookPayload): Promise<WebhookDelivery> {
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    url: hook.url,
+    event: payload.event,
+    ok: false,
+    attempts: 0,
+    sentAt: new Date().toISOString(),
+  };
+  const retries = hook.retries ?? DEFAULT_WEBHOOK_RETRIES;
+  const backoffMs = hook.backoffMs ?? DEFAULT_WEBHOOK_BACKOFF_MS;
+  const timeoutMs = hook.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+  const body = JSON.stringify(payload);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": `ui-police/${projectConfig.version}`,
+    "X-UI-Police-Event": payload.event,
+    "X-UI-Police-Delivery": delivery.id,
+  };
+  try {
+    const secret = getWebhookSecret(hook);
+    if (secret) headers["X-UI-Police-Signature"] = `sha256=${signPayload(body, secret)}`;
+  } catch (err: any) {
+    delivery.error = err.message;
+    return recordDelivery(delivery);
+  }
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await Bun.sleep(backoffMs * 2 ** (attempt - 1));
+    delivery.attempts++;
+    try {
+      const res = await fetch(hook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      delivery.status = res.status;
+      if (res.ok) {
+        delivery.ok = true;
+        delivery.error = undefined;
+        break;
+      }
+      delivery.error = `HTTP ${res.status}`;
+      if (!isRetryable(res.status)) break;
+    } catch (err: any) {
+      delivery.error = err.name === "TimeoutError" ? `No response within ${timeoutMs} ms` : err.message;
+    }
+  }
+
+  return recordDelivery(delivery);
+}
+
+function track<T>(promise: Promise<T>): Promise<T> {
+  pending.add(promise);
+  void promise.finally(() => pending.delete(promise));
+  return promise;
+}
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Send an event to every webhook subscribed to it, in the background
+ */
+export function notifyWebhooks(event: WebhookEvent, input: WebhookInput): void {
+  const hooks = getWebhooksFor(event, input.app);
+  if (hooks.length === 0) return;
+  const payload = buildWebhookPayload(event, input);
+  for (const hook of hooks) void track(deliver(hook, payload));
+}
+
+/**
+ * Send a "ping" to every configured webhook (or the one with `url`) and
+ * wait for the deliveries — ignores `events` and `apps`
+ */
+export async function sendTestWebhook(app: string, url?: string): Promise<WebhookDelivery[]> {
+  const hooks = getWebhooks().filter((hook) => !url || hook.url === url);
+  if (hooks.length === 0) {
+    throw new Error(url ? `No webhook configured for ${url}` : "No webhooks configured in ui-police.config.ts");
+  }
+  const payload = buildWebhookPayload("ping", { app, detail: "Test delivery" });
+  return Promise.all(hooks.map((hook) => track(deliver(hook, payload))));
+}
+
+/** Recent deliveries, newest first */
+export function listWebhookDeliveries(): WebhookDelivery[] {
+  return [...deliveries].reverse();
+}
+
+/** Resolves once every delivery in flight (retries included) has finished */
+export async function flushWebhooks(): Promise<void> {
+  while (pending.size > 0) await Promise.allSettled([...pending]);
+}
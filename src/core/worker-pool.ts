@@ -0,0 +1,84 @@
+/**
+ * Worker pool — runs CPU-heavy jobs on a fixed number of worker threads so
+ * the main thread (and the dashboard server's event loop) stays responsive.
+ *
+ * Each worker handles one job at a time and replies with a WorkerReply.
+ * Replies are returned in job order. A failed job only fails itself: its
+ * error is reported and the pool moves on, replacing the worker if it
+ * crashed, so one bad screenshot doesn't lose the rest of the batch.
+ */
+
+import { AsyncResource } from "async_hooks";
+
+export type WorkerReply<TResult = unknown> =
+  | { ok: true; result: TResult }
+  | { ok: false; error: string };
+
+/**
+ * Run `jobs` on up to `size` workers spawned from `workerUrl`.
+ * `onResult` and `onError` are called as each job finishes (completion
+ * order), in the caller's async context — so their output is logged to the
+ * caller's job.
+ */
+export function runInWorkers<TJob, TResult>(
+  workerUrl: string | URL,
+  jobs: TJob[],
+  size: number,
+  onResult?: (result: TResult, done: number, total: number) => void,
+  onError?: (job: TJob, error: string, done: number, total: number) => void,
+): Promise<Array<WorkerReply<TResult>>> {
+  if (jobs.length === 0) return Promise.resolve([]);
+  const report = onResult && AsyncResource.bind(onResult);
+  const reportError = onError && AsyncResource.bind(onError);
+
+  return new Promise((resolve) => {
+    const replies = new Array<WorkerReply<TResult>>(jobs.length);
+    /** Worker → index of the job it is running */
+    const workers = new Map<Worker, number | undefined>();
+    let next = 0;
+    let done = 0;
+
+    const finish = (index: number, reply: WorkerReply<TResult>) => {
+      replies[index] = reply;
+      done++;
+      if (reply.ok) report?.(reply.result, done, jobs.length);
+      else reportError?.(jobs[index]!, reply.error, done, jobs.length);
+      if (done === jobs.length) {
+        workers.forEach((_index, w) => w.terminate());
+        resolve(replies);
+      }
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (next >= jobs.length) {
+        workers.set(worker, undefined);
+        return;
+      }
+      const index = next++;
+      workers.set(worker, index);
+      worker.postMessage(jobs[index]);
+    };
+
+    const spawn = () => {
+      const worker = new Worker(workerUrl);
+      worker.onmessage = (event: MessageEvent<WorkerReply<TResult>>) => {
+        const index = workers.get(worker);
+        if (index === undefined) return;
+        finish(index, event.data);
+        dispatch(worker);
+      };
+      // An uncaught error can leave the worker unusable — fail its job and replace it
+      worker.onerror = (event) => {
+        const index = workers.get(worker);
+        worker.terminate();
+        workers.delete(worker);
+        if (index !== undefined) finish(index, { ok: false, error: event.message });
+        if (next < jobs.length) spawn();
+      };
+      dispatch(worker);
+    };
+
+    const count = Math.max(1, Math.min(size, jobs.length));
+    for (let i = 0; i < count; i++) spawn();
+  });
+}
@@ -9,12 +9,12 @@ import { generateReport, generateMainIndex } from "./core/report";
 import { 
   environments,
   getOutputDir, 
-  setCurrentApp, 
-  getCurrentApp,
-  getCurrentAppConfig,
+  getAppConfig,
   APPS,
   APP_LIST,
   projectConfig,
+  getCompareSettings,
+  getResultSeverity,
 } from "./core/config";
 import {
   loadProgress,
@@ -28,6 +28,7 @@ import {
   type InteractionLog,
 } from "./core/logger";
 import { listRuns, getTotalRuns, getLatestRun, getAppDir, loadRunManifest } from "./core/runs";
+import { resetRuns } from "./core/retention";
 import { startRecording, saveRecordedScript, listScripts } from "./core/recorder";
 
 // Utils imports
@@ -84,26 +85,44 @@ function selectEnvironment(): string {
   return environments[0]?.name ?? "develop";
 }
 
-function discoverPagesFromDisk(): string[] {
+function discoverPagesFromDisk(appName: string): string[] {
   // Try to discover pages from the latest completed run
-  const appName = getCurrentApp();
   const appRuns = listRuns(appName);
   const latestCompleted = appRuns.filter((r) => r.status === "completed").pop();
   if (!latestCompleted) return [];
   const manifest = loadRunManifest(appName, latestCompleted.environment, latestCompleted.runId);
   if (!manifest) return [];
-  return manifest.screenshots
-    .filter((s) => !s.interactionId)
-    .map((s) => s.page);
+  // Viewport matrices capture each page more than once — dedupe by path
+  return [...new Set(
+    manifest.screenshots
+      .filter((s) => !s.interactionId)
+      .map((s) => s.page),
+  )];
 }
 
-function deleteAllScreenshots(): void {
-  const appDir = getAppDir(getCurrentApp());
+/**
+ * What a fresh run keeps in captures/{app}: approved baselines (and their
+ * approve/reject history), the trend history, the compare cache and job log
+ * archives. Runs and diffs go through resetRuns(); progress and logs start over.
+ */
+const FRESH_RUN_KEEP = new Set(["baselines", "history.json", "cache", "jobs", "diffs"]);
+
+function deleteAllScreenshots(appName: string): void {
+  // Tagged and baseline-source runs survive, as they do every retention prune
+  const { removed, kept } = resetRuns(appName);
+  const keptEnvs = new Set(kept.map((run) => run.environment));
+
+  const appDir = getAppDir(appName);
   if (fs.existsSync(appDir)) {
-    fs.rmSync(appDir, { recursive: true });
+    for (const entry of fs.readdirSync(appDir)) {
+      if (!FRESH_RUN_KEEP.has(entry) && !keptEnvs.has(entry)) fs.rmSync(path.join(appDir, entry), { recursive: true, force: true });
+    }
+  }
+  deleteProgress(appName);
+  log.action(`Cleared ${removed.length} run(s), their diffs, progress, and logs (baselines, history and cache kept)`);
+  for (const run of kept) {
+    log.info(`Kept ${run.environment}/${run.runId} (${run.reason === "tagged" ? `tagged ${run.tags!.join(", ")}` : "baseline source"})`);
   }
-  deleteProgress();
-  log.action("Cleared all captures, progress, and logs");
 }
 
 function printProgressSummary(manifest: ProgressManifest): void {
@@ -126,9 +145,8 @@ function printLogSummary(interactionLog: InteractionLog): void {
   console.log("");
 }
 
-function determineRunMode(existing: ProgressManifest | null, existingLog: InteractionLog | null): RunMode {
+function determineRunMode(appName: string, existing: ProgressManifest | null, existingLog: InteractionLog | null): RunMode {
   // Always show the main action menu
-  const appName = getCurrentApp();
   const appRuns = listRuns(appName);
   const totalRuns = getTotalRuns();
 
@@ -175,32 +193,32 @@ function determineRunMode(existing: ProgressManifest | null, existingLog: Intera
   return "fresh";
 }
 
-async function runFresh(): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
-  deleteAllScreenshots();
+async function runFresh(appName: string): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
+  deleteAllScreenshots(appName);
   log.step("Step 1: Capturing screenshots...");
-  const { pages, log: interactionLog, runIds } = await captureAll();
+  const { pages, log: interactionLog, runIds } = await captureAll(appName);
   return { pages, log: interactionLog, runIds };
 }
 
-async function runResume(manifest: ProgressManifest, interactionLog: InteractionLog | null): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
+async function runResume(appName: string, manifest: ProgressManifest, interactionLog: InteractionLog | null): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
   log.step("Step 1: Resuming screenshot capture...");
-  const result = await captureAll(manifest, interactionLog ?? undefined);
+  const result = await captureAll(appName, manifest, interactionLog ?? undefined);
   return { pages: result.pages, log: result.log, runIds: result.runIds };
 }
 
-async function runRetryFailed(manifest: ProgressManifest, existingLog: InteractionLog): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
+async function runRetryFailed(appName: string, manifest: ProgressManifest, existingLog: InteractionLog): Promise<{ pages: string[]; log: InteractionLog; runIds: Record<string, string> }> {
   log.step("Step 1: Retrying failed interactions...");
-  const result = await captureAll(manifest, existingLog);
+  const result = await captureAll(appName, manifest, existingLog);
   return { pages: result.pages, log: result.log, runIds: result.runIds };
 }
 
-function runCompareOnly(manifest: ProgressManifest | null): { pages: string[]; log: InteractionLog | null } {
+function runCompareOnly(appName: string, manifest: ProgressManifest | null): { pages: string[]; log: InteractionLog | null } {
   log.step("Step 1: Skipping capture (compare-only mode)");
   if (manifest && manifest.discoveredPages.length > 0) {
     return { pages: manifest.discoveredPages, log: null };
   }
   // Fallback: discover pages from files on disk
-  const pages = discoverPagesFromDisk();
+  const pages = discoverPagesFromDisk(appName);
   if (pages.length === 0) {
     log.error("No screenshots found on disk. Cannot compare.");
     process.exit(1);
@@ -209,8 +227,7 @@ function runCompareOnly(manifest: ProgressManifest | null): { pages: string[]; l
   return { pages, log: null };
 }
 
-async function runRecorder(): Promise<void> {
-  const appName = getCurrentApp();
+async function runRecorder(appName: string): Promise<void> {
   const envName = selectEnvironment();
 
   const code = await startRecording(appName, envName);
@@ -237,23 +254,22 @@ async function main() {
   console.log(`  ${style.muted(`v${projectConfig.version}`)}\n`);
 
   // Step 0: Select app
-  const selectedApp = selectApp();
-  setCurrentApp(selectedApp);
-  const appConfig = getCurrentAppConfig();
+  const appName = selectApp();
+  const appConfig = getAppConfig(appName);
   
-  printAppSelected(appConfig.displayName, getAppDir(getCurrentApp()), appConfig.pathPrefix);
+  printAppSelected(appConfig.displayName, getAppDir(appName), appConfig.pathPrefix);
 
   // Show Minikube reminder for local environment testing
   printMinikubeReminder();
   printReloadHint();
 
-  const existing = loadProgress();
-  const existingLog = loadLog();
-  const mode = determineRunMode(existing, existingLog.summary.total > 0 ? existingLog : null);
+  const existing = loadProgress(appName);
+  const existingLog = loadLog(appName);
+  const mode = determineRunMode(appName, existing, existingLog.summary.total > 0 ? existingLog : null);
 
   // Handle recorder mode separately
   if (mode === "record") {
-    await runRecorder();
+    await runRecorder(appName);
     return;
   }
 
@@ -263,28 +279,28 @@ async function main() {
 
   switch (mode) {
     case "fresh": {
-      const freshResult = await runFresh();
+      const freshResult = await runFresh(appName);
       pages = freshResult.pages;
       interactionLog = freshResult.log;
       runIds = freshResult.runIds;
       break;
     }
     case "resume": {
-      const resumeResult = await runResume(existing!, existingLog.summary.total > 0 ? existingLog : null);
+      const resumeResult = await runResume(appName, existing!, existingLog.summary.total > 0 ? existingLog : null);
       pages = resumeResult.pages;
       interactionLog = resumeResult.log;
       runIds = resumeResult.runIds;
       break;
     }
     case "retry-failed": {
-      const retryResult = await runRetryFailed(existing!, existingLog);
+      const retryResult = await runRetryFailed(appName, existing!, existingLog);
       pages = retryResult.pages;
       interactionLog = retryResult.log;
       runIds = retryResult.runIds;
       break;
     }
     case "compare-only": {
-      const compareResult = runCompareOnly(existing);
+      const compareResult = runCompareOnly(appName, existing);
       pages = compareResult.pages;
       interactionLog = compareResult.log;
       break;
@@ -293,29 +309,39 @@ async function main() {
 
   // Step 2: Compare screenshots
   log.step("Step 2: Comparing screenshots...");
-  const results = compareScreenshots(pages);
+  const results = await compareScreenshots(appName, pages);
 
   // Step 3: Generate HTML report
   log.step("Step 3: Generating report...");
-  const reportPath = generateReport(results);
+  const reportPath = generateReport(appName, results);
   
   // Step 4: Update main index
   log.step("Step 4: Updating main index...");
   generateMainIndex();
 
-  // Final summary
+  // Final summary — averages cover compared pairs; added/removed/error count as failures
+  const compared = results.filter((r) => r.status === "compared");
   const avgDiff =
-    results.length > 0
-      ? results.reduce((sum, r) => sum + r.diffPercentage, 0) / results.length
+    compared.length > 0
+      ? compared.reduce((sum, r) => sum + r.diffPercentage, 0) / compared.length
       : 0;
   
-  printComparisonSummary(results.length, avgDiff, reportPath);
+  const ssimScores = compared.flatMap((r) => (r.ssim !== undefined ? [r.ssim] : []));
+  const avgSsim = ssimScores.length > 0
+    ? ssimScores.reduce((sum, v) => sum + v, 0) / ssimScores.length
+    : undefined;
+  const severity = getResultSeverity(avgDiff, avgSsim, getCompareSettings(appName));
+  const failures = results.filter((r) => r.severity === "fail").length;
+  const added = results.filter((r) => r.status === "added").length;
+  const removed = results.filter((r) => r.status === "removed").length;
+  const errors = results.filter((r) => r.status === "error").length;
+  printComparisonSummary(compared.length, avgDiff, reportPath, severity, avgSsim, failures, { added, removed, errors });
   
   // Show interaction summary
   if (interactionLog) {
     console.log(`\n  ${style.info("Interactions:")} ${style.success(`${symbols.check} ${interactionLog.summary.success}`)} success, ${style.error(`${symbols.cross} ${interactionLog.summary.failed}`)} failed`);
     if (interactionLog.summary.failed > 0) {
-      console.log(`  ${style.muted(`See: ${getAppDir(getCurrentApp())}/failure-report.md for details`)}`);
+      console.log(`  ${style.muted(`See: ${getAppDir(appName)}/failure-report.md for details`)}`);
     }
   }
   
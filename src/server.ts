@@ -3,7 +3,9 @@
  *
  * Starts a Bun HTTP server with:
  *   - REST API for triggering captures, comparisons, reports, codegen
+ *   - A job queue — every long-running request becomes a job (see core/jobs.ts)
  *   - WebSocket for real-time log streaming to the browser
+ *   - Webhooks when runs and pipelines finish (see core/webhooks.ts)
  *   - Self-contained HTML dashboard served at /
  *
  * Usage: bun run src/server.ts
@@ -16,11 +18,27 @@ import {
   environments,
   APP_LIST,
   APPS,
-  setCurrentApp,
-  getCurrentApp,
+  DEFAULT_APP,
   getAllApps,
+  getBrowsers,
+  DEFAULT_BROWSER,
+  getReportFormats,
+  parseReportFormats,
+  getReportImageMode,
+  parseReportImageMode,
+  parseBrowserName,
+  DEFAULT_PIPELINE_TASKS,
+  getJobConcurrency,
+  getWebhooks,
+  WEBHOOK_EVENTS,
+  type BrowserName,
+  type PipelineTasks,
+  type ReportFormat,
+  type ReportImageMode,
+  type ScheduleDefinition,
 } from "./core/config";
-import { listRuns, getLatestRun, loadRunManifest, getAppDir, getDiffPairDir, deleteRun, cancelRun } from "./core/runs";
+import { listRuns, getLatestRun, loadRunManifest, getAppDir, getCapturesDir, getDiffPairDir, deleteRun, cancelRun, setRunTags } from "./core/runs";
+import { pruneRuns } from "./core/retention";
 import {
   listScripts,
   getScriptContent,
@@ -33,31 +51,55 @@ import {
   isCodegenRunning,
 } from "./core/recorder";
 import { captureAll } from "./core/capture";
-import { compareScreenshots, compareCrossEnv, compareCrossRun } from "./core/compare";
+import {
+  compareScreenshots,
+  compareBrowsers,
+  compareBaseline,
+  compareRuns,
+  compareAgainstBaseline,
+  type ComparisonResult,
+} from "./core/compare";
+import { loadDiffManifest, listDiffManifests, loadDiffResults, getDiffManifestPath } from "./core/diff-manifest";
+import { loadBaseline, approveScreenshots, rejectScreenshots } from "./core/baseline";
 import { generateReport, generateMainIndex } from "./core/report";
+import { toViewerComparison, VIEWER_STYLES, VIEWER_SCRIPT } from "./core/report-viewer";
+import { getTrends, TREND_WINDOW } from "./core/history";
 import {
   addClient,
   removeClient,
-  startIntercepting,
-  stopIntercepting,
-  broadcastStatus,
-  broadcastDone,
   broadcastLog,
+  getLastProgress,
+  getHistory,
 } from "./core/log-stream";
 import {
-  loadProgress,
-  createFreshManifest,
-  deleteProgress,
-} from "./core/progress";
-import { createFreshLog } from "./core/logger";
-
-// ============================================
-// STATE
-// ============================================
-
-let isRunning = false;
-let currentPhase = "idle";
-let shouldStop = false;
+  enqueueJob,
+  getJob,
+  getJobLogs,
+  listJobs,
+  getActiveJobs,
+  hasActiveJob,
+  cancelJob,
+  waitForJob,
+  readJobLog,
+  LOG_PAGE_SIZE,
+  type JobContext,
+  type JobHandler,
+  type JobOutcome,
+  type JobStatus,
+  type JobType,
+} from "./core/jobs";
+import { loadProgress, deleteProgress } from "./core/progress";
+import { notifyWebhooks, sendTestWebhook, listWebhookDeliveries } from "./core/webhooks";
+import {
+  listSchedules,
+  listScheduledRuns,
+  findSchedule,
+  addSchedule,
+  removeSchedule,
+  runSchedule,
+  startScheduler,
+  getScheduleTasks,
+} from "./core/scheduler";
 
 // ============================================
 // DASHBOARD HTML
@@ -65,6 +107,29 @@ let shouldStop = false;
 
 const DASHBOARD_PATH = path.join(import.meta.dir, "ui", "dashboard.html");
 
+/** The comparison viewer's CSS and JS, shared with the HTML report */
+function serveViewerAsset(kind: "css" | "js"): Response {
+  return new Response(kind === "css" ? VIEWER_STYLES : VIEWER_SCRIPT, {
+    headers: { "Content-Type": kind === "css" ? "text/css; charset=utf-8" : "text/javascript; charset=utf-8" },
+  });
+}
+
+/** Screenshots and diff images under the captures folder, for the dashboard's viewer */
+function serveCaptureImage(pathname: string): Response {
+  const root = path.resolve(getCapturesDir());
+  const filePath = path.resolve(root, decodeURIComponent(pathname.slice("/captures/".length)));
+  if (!filePath.startsWith(root + path.sep) || path.extname(filePath) !== ".png" || !existsSync(filePath)) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(readFileSync(filePath), { headers: { "Content-Type": "image/png" } });
+}
+
+/** "/captures/auth/develop/260217-001/login.png" for a file under the captures folder */
+function captureUrl(file: string): string {
+  const relative = path.relative(getCapturesDir(), file).split(path.sep).map(encodeURIComponent).join("/");
+  return `/captures/${relative}`;
+}
+
 function serveDashboard(): Response {
   if (!existsSync(DASHBOARD_PATH)) {
     return new Response("Dashboard HTML not found. Build it first.", { status: 500 });
@@ -87,6 +152,24 @@ function errorResponse(message: string, status = 400): Response {
   return Response.json({ error: message }, { status });
 }
 
+/**
+ * Queue a job and answer with it — 400 when the app is unknown
+ */
+function startJob(
+  message: string,
+  type: JobType,
+  app: string,
+  handler: JobHandler,
+  params: Record<string, unknown> = {},
+): Response {
+  try {
+    const job = enqueueJob(type, app, handler, { params });
+    return jsonResponse({ message: job.status === "queued" ? `${message} (queued)` : message, app, ...params, job });
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
+}
+
 /** GET /api/config */
 function handleGetConfig(): Response {
   const apps = getAllApps().map((a) => ({
@@ -98,8 +181,10 @@ function handleGetConfig(): Response {
   return jsonResponse({
     version: projectConfig.version,
     environments: environments.map((e) => ({ name: e.name, baseUrl: e.baseUrl })),
+    browsers: getBrowsers(),
     apps,
-    currentApp: getCurrentApp(),
+    defaultApp: DEFAULT_APP,
+    jobConcurrency: getJobConcurrency(),
   });
 }
 
@@ -120,10 +205,44 @@ async function handleDeleteRun(req: Request): Promise<Response> {
   return jsonResponse({ message: "Run deleted", app: body.app, env: body.env, runId: body.runId });
 }
 
+/** POST /api/runs/tag — replace a run's tags (an empty list removes them) */
+async function handleTagRun(req: Request): Promise<Response> {
+  const body = (await req.json()) as { app: string; env: string; runId: string; tags?: string[] };
+  if (!body.app || !body.env || !body.runId) return errorResponse("Missing app, env, or runId");
+  if (body.tags !== undefined && !Array.isArray(body.tags)) return errorResponse("tags must be an array of strings");
+
+  const tags = setRunTags(body.app, body.env, body.runId, (body.tags ?? []).map(String));
+  if (!tags) return errorResponse("Run not found", 404);
+  return jsonResponse({ app: body.app, env: body.env, runId: body.runId, tags });
+}
+
+/**
+ * POST /api/runs/prune — apply the retention rules to one app (or all);
+ * `dryRun` lists what would be deleted
+ */
+async function handlePruneRuns(req: Request): Promise<Response> {
+  const body = (await req.json().catch(() => ({}))) as { app?: string; dryRun?: boolean };
+  if (body.app && !APP_LIST.includes(body.app)) {
+    return errorResponse(`Unknown app: "${body.app}". Available: ${APP_LIST.join(", ")}`);
+  }
+
+  const dryRun = body.dryRun === true;
+  const busy = body.app ? hasActiveJob(body.app) : getActiveJobs().length > 0;
+  if (!dryRun && busy) {
+    return errorResponse(`Can't prune while ${body.app ? `a ${body.app} job is` : "jobs are"} queued or running`, 409);
+  }
+
+  const result = pruneRuns(body.app, dryRun);
+  const cacheEntries = result.cache.reduce((sum, c) => sum + c.ids.length, 0);
+  const jobLogs = result.jobs.reduce((sum, j) => sum + j.ids.length, 0);
+  if (!dryRun && (result.runs.length > 0 || result.diffs.length > 0 || cacheEntries > 0 || jobLogs > 0)) {
+    broadcastLog(`\n🧹 Pruned ${result.runs.length} run(s), ${result.diffs.length} diff folder(s), ${cacheEntries} cache entries and ${jobLogs} job log(s)${body.app ? ` for ${body.app}` : ""}`);
+  }
+  return jsonResponse(result);
+}
+
 /** POST /api/runs/rerun — re-run capture for a specific app+env (cancels incomplete run first) */
 async function handleRerunCapture(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
-
   const body = (await req.json()) as { app: string; env: string; runId?: string };
   if (!body.app || !body.env) return errorResponse("Missing app or env");
 
@@ -132,252 +251,242 @@ async function handleRerunCapture(req: Request): Promise<Response> {
     cancelRun(body.app, body.env, body.runId);
   }
 
-  setCurrentApp(body.app);
-  isRunning = true;
-  shouldStop = false;
-  currentPhase = "capturing";
-
-  startIntercepting();
-  broadcastStatus({ phase: "capturing", app: body.app });
-
-  (async () => {
-    try {
-      broadcastLog(`\n═══ Re-running capture for ${body.app}/${body.env} ═══`);
-      const result = await captureAll(undefined, undefined, () => shouldStop);
-      broadcastDone({
-        success: true,
-        phase: "capture",
-        detail: `Re-capture complete for ${body.env}`,
-      });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "capture", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      shouldStop = false;
-      stopIntercepting();
-    }
-  })();
-
-  return jsonResponse({ message: "Re-run started", app: body.app, env: body.env });
+  return startJob("Re-run started", "capture", body.app, async (ctx) => {
+    broadcastLog(`\n═══ Re-running capture for ${body.app}/${body.env} ═══`);
+    const result = await captureAll(body.app, undefined, undefined, ctx.isCancelled, [body.env]);
+    return { success: true, detail: `Re-capture complete for ${body.env}`, runIds: result.runIds };
+  }, { env: body.env });
 }
 
 /** GET /api/scripts?app=xxx */
 function handleGetScripts(url: URL): Response {
-  const app = url.searchParams.get("app") ?? getCurrentApp();
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
   const scripts = listScripts(app);
   return jsonResponse({ scripts });
 }
 
-/** GET /api/status */
+/** GET /api/status — whether anything runs, plus the queued and running jobs */
 function handleGetStatus(): Response {
+  const active = getActiveJobs();
+  const running = active.filter((j) => j.status === "running");
   return jsonResponse({
-    isRunning,
-    currentPhase,
-    currentApp: getCurrentApp(),
+    isRunning: running.length > 0,
+    currentPhase: running[0]?.phase ?? "idle",
+    progress: getLastProgress(),
+    jobs: active,
   });
 }
 
 /** POST /api/capture */
 async function handleCapture(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
-
   const body = (await req.json()) as { app?: string };
-  const app = body.app ?? getCurrentApp();
-
-  setCurrentApp(app);
-  isRunning = true;
-  currentPhase = "capturing";
+  const app = body.app ?? DEFAULT_APP;
 
-  // Run capture in background
-  startIntercepting();
-  broadcastStatus({ phase: "capturing", app });
+  return startJob("Capture started", "capture", app, async (ctx) => {
+    deleteProgress(app);
+    const result = await captureAll(app, undefined, undefined, ctx.isCancelled);
+    return { success: true, detail: `${Object.keys(result.runIds).length} environments captured`, runIds: result.runIds };
+  });
+}
 
-  // Don't await — let it run async and stream logs
-  (async () => {
-    try {
-      deleteProgress();
-      const result = await captureAll();
-      broadcastDone({ success: true, phase: "capture", detail: `${Object.keys(result.runIds).length} environments captured` });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "capture", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
+type CompareMode = "cross-env" | "cross-browser" | "baseline";
 
-  return jsonResponse({ message: "Capture started", app });
+/**
+ * Cross-env pairs each browser's runs; cross-browser compares engines within one env;
+ * baseline compares one env's latest runs against its approved baseline
+ */
+function runComparison(app: string, mode: CompareMode = "cross-env", env?: string): Promise<ComparisonResult[]> {
+  if (mode === "cross-browser") return compareBrowsers(app, env);
+  if (mode === "baseline") return compareBaseline(app, env);
+  return compareScreenshots(app, []);
 }
 
 /** POST /api/compare */
 async function handleCompare(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
-
-  const body = (await req.json()) as { app?: string };
-  const app = body.app ?? getCurrentApp();
-
-  setCurrentApp(app);
-  isRunning = true;
-  currentPhase = "comparing";
-
-  startIntercepting();
-  broadcastStatus({ phase: "comparing", app });
+  const body = (await req.json()) as { app?: string; mode?: CompareMode; env?: string };
+  const app = body.app ?? DEFAULT_APP;
 
-  (async () => {
-    try {
-      const results = compareScreenshots([]);
-      broadcastDone({ success: true, phase: "compare", detail: `${results.length} pages compared` });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "compare", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
-
-  return jsonResponse({ message: "Comparison started", app });
+  return startJob("Comparison started", "compare", app, async () => {
+    const results = await runComparison(app, body.mode, body.env);
+    return { success: true, detail: `${results.length} pages compared` };
+  }, { mode: body.mode ?? "cross-env" });
 }
 
 /** POST /api/report */
 async function handleReport(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
-
-  const body = (await req.json()) as { app?: string };
-  const app = body.app ?? getCurrentApp();
+  const body = (await req.json()) as {
+    app?: string;
+    mode?: CompareMode;
+    env?: string;
+    /** Rebuild from these diffs' diff-manifest.json instead of comparing */
+    diffLabels?: string[];
+    /** Files to write (html, json, junit, markdown) — defaults to `report.formats` */
+    formats?: string[];
+    /** "linked" or "embedded" HTML report images — defaults to `report.images` */
+    images?: string;
+  };
+  const app = body.app ?? DEFAULT_APP;
 
-  setCurrentApp(app);
-  isRunning = true;
-  currentPhase = "reporting";
+  let formats: ReportFormat[];
+  let images: ReportImageMode;
+  try {
+    formats = body.formats ? parseReportFormats(body.formats) : getReportFormats();
+    images = body.images ? parseReportImageMode(body.images) : getReportImageMode();
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
 
-  startIntercepting();
-  broadcastStatus({ phase: "reporting", app });
+  if (body.diffLabels && body.diffLabels.length > 0) {
+    const diffLabels = body.diffLabels;
+    const missing = diffLabels.filter((label) => !existsSync(getDiffManifestPath(app, label)));
+    if (missing.length > 0) return errorResponse(`No diff manifest for ${app}/${missing.join(", ")}`, 404);
 
-  (async () => {
-    try {
-      const results = compareScreenshots([]);
-      const reportPath = generateReport(results);
+    // Decoding images and writing thumbnails takes a while — queued like any other report
+    return startJob("Report rebuild from diff manifests started", "report", app, async () => {
+      const reportPath = generateReport(app, loadDiffResults(app, diffLabels), formats, images);
       generateMainIndex();
-      broadcastDone({ success: true, phase: "report", detail: reportPath });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "report", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
+      return { success: true, detail: reportPath };
+    }, { diffLabels, formats, images });
+  }
 
-  return jsonResponse({ message: "Report generation started", app });
+  return startJob("Report generation started", "report", app, async () => {
+    const results = await runComparison(app, body.mode, body.env);
+    const reportPath = generateReport(app, results, formats, images);
+    generateMainIndex();
+    return { success: true, detail: reportPath };
+  }, { mode: body.mode ?? "cross-env", formats, images });
 }
 
-/** POST /api/pipeline — task-based pipeline with stop/resume support */
-async function handlePipeline(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
+/** What a pipeline produced so far — handed to the webhooks when it ends */
+interface PipelineState {
+  capture: Awaited<ReturnType<typeof captureAll>> | null;
+  results: ComparisonResult[] | null;
+  reportPath: string | null;
+}
 
-  const body = (await req.json()) as {
-    app?: string;
-    tasks?: { capture?: boolean; scripts?: string[]; compare?: boolean; report?: boolean };
-    resume?: boolean;
-  };
-  const app = body.app ?? getCurrentApp();
-  const tasks = body.tasks ?? { capture: true, scripts: [], compare: true, report: true };
-  const resume = body.resume ?? false;
+/** The pipeline's steps in order — fills `state` as it goes */
+async function runPipelineTasks(
+  ctx: JobContext,
+  state: PipelineState,
+  app: string,
+  tasks: PipelineTasks,
+  resume: boolean,
+  envNames?: string[],
+): Promise<JobOutcome> {
+  let stepNum = 0;
+  const totalSteps = [tasks.capture, (tasks.scripts && tasks.scripts.length > 0), tasks.compare, tasks.report].filter(Boolean).length;
+
+  const stopped = (after: string) => ({ success: false, detail: `Cancelled after ${after}`, runIds: state.capture?.runIds });
+
+  // Step: Capture
+  if (tasks.capture) {
+    stepNum++;
+    ctx.setPhase("capturing");
+    broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Capturing screenshots${resume ? " (resuming)" : ""} ═══`);
+
+    if (!resume) deleteProgress(app);
+    state.capture = await captureAll(app, undefined, undefined, ctx.isCancelled, envNames, ctx.job.trigger);
+  }
 
-  setCurrentApp(app);
-  isRunning = true;
-  shouldStop = false;
-  currentPhase = "pipeline";
+  if (ctx.isCancelled()) return stopped("capture");
 
-  startIntercepting();
-  broadcastStatus({ phase: "pipeline", app });
+  // Step: Scripts
+  if (tasks.scripts && tasks.scripts.length > 0) {
+    stepNum++;
+    ctx.setPhase("script");
+    broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Running ${tasks.scripts.length} script(s) ═══`);
+    await executeSelectedScripts(app, tasks.scripts);
+  }
 
-  (async () => {
-    let stepNum = 0;
-    const totalSteps = [tasks.capture, (tasks.scripts && tasks.scripts.length > 0), tasks.compare, tasks.report].filter(Boolean).length;
-    let captureResult: { runIds: Record<string, string> } | null = null;
+  if (ctx.isCancelled()) return stopped("scripts");
 
-    try {
-      // Step: Capture
-      if (tasks.capture && !shouldStop) {
-        stepNum++;
-        currentPhase = "capturing";
-        broadcastStatus({ phase: "capturing", app });
-        broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Capturing screenshots${resume ? " (resuming)" : ""} ═══`);
-
-        if (!resume) deleteProgress();
-        captureResult = await captureAll(undefined, undefined, () => shouldStop);
-      }
-
-      if (shouldStop) { broadcastDone({ success: false, phase: "pipeline", detail: "Stopped by user after capture" }); return; }
+  // Step: Compare
+  if (tasks.compare) {
+    stepNum++;
+    ctx.setPhase("comparing");
+    broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Comparing screenshots ═══`);
+    state.results = await compareScreenshots(app, [], envNames);
+  }
 
-      // Step: Scripts
-      if (tasks.scripts && tasks.scripts.length > 0 && !shouldStop) {
-        stepNum++;
-        currentPhase = "script";
-        broadcastStatus({ phase: "script", app });
-        broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Running ${tasks.scripts.length} script(s) ═══`);
-        await executeSelectedScripts(app, tasks.scripts);
-      }
+  if (ctx.isCancelled()) return stopped("compare");
 
-      if (shouldStop) { broadcastDone({ success: false, phase: "pipeline", detail: "Stopped by user after scripts" }); return; }
+  // Step: Report
+  if (tasks.report) {
+    stepNum++;
+    ctx.setPhase("reporting");
+    broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Generating report ═══`);
+    // Reuse the compare step's results; otherwise unchanged pairs come from the compare cache
+    state.results ??= await compareScreenshots(app, [], envNames);
+    state.reportPath = generateReport(app, state.results);
+    generateMainIndex();
+  }
 
-      // Step: Compare
-      if (tasks.compare && !shouldStop) {
-        stepNum++;
-        currentPhase = "comparing";
-        broadcastStatus({ phase: "comparing", app });
-        broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Comparing screenshots ═══`);
-        compareScreenshots([]);
-      }
+  const envCount = state.capture ? Object.keys(state.capture.runIds).length : 0;
+  return {
+    success: true,
+    detail: `${totalSteps} tasks completed${envCount > 0 ? `, ${envCount} envs captured` : ""}`,
+    runIds: state.capture?.runIds,
+  };
+}
 
-      if (shouldStop) { broadcastDone({ success: false, phase: "pipeline", detail: "Stopped by user after compare" }); return; }
-
-      // Step: Report
-      if (tasks.report && !shouldStop) {
-        stepNum++;
-        currentPhase = "reporting";
-        broadcastStatus({ phase: "reporting", app });
-        broadcastLog(`\n═══ Step ${stepNum}/${totalSteps}: Generating report ═══`);
-        const results = compareScreenshots([]);
-        const reportPath = generateReport(results);
-        generateMainIndex();
-      }
+/**
+ * Pipeline job — shared by POST /api/pipeline and the scheduler. Cancelling
+ * the job stops it between tasks (and between pages while capturing).
+ * Sends pipeline.completed or pipeline.failed to the webhooks when it ends.
+ */
+function pipelineJob(app: string, tasks: PipelineTasks, resume: boolean, envNames?: string[]): JobHandler {
+  return async (ctx) => {
+    const state: PipelineState = { capture: null, results: null, reportPath: null };
+    const notify = (outcome: JobOutcome) => notifyWebhooks(outcome.success ? "pipeline.completed" : "pipeline.failed", {
+      app,
+      envs: envNames ?? environments.map((e) => e.name),
+      runIds: outcome.runIds,
+      trigger: ctx.job.trigger,
+      jobId: ctx.job.id,
+      detail: outcome.detail,
+      results: state.results ?? undefined,
+      interactionLog: state.capture?.log,
+      reportPath: state.reportPath,
+    });
 
-      const envCount = captureResult ? Object.keys(captureResult.runIds).length : 0;
-      broadcastDone({
-        success: true,
-        phase: "pipeline",
-        detail: `${totalSteps} tasks completed${envCount > 0 ? `, ${envCount} envs captured` : ""}`,
-      });
+    try {
+      const outcome = await runPipelineTasks(ctx, state, app, tasks, resume, envNames);
+      notify(outcome);
+      return outcome;
     } catch (err: any) {
-      broadcastDone({ success: false, phase: "pipeline", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      shouldStop = false;
-      stopIntercepting();
+      notify({ success: false, detail: err.message, runIds: state.capture?.runIds });
+      throw err;
     }
-  })();
+  };
+}
 
-  return jsonResponse({ message: "Pipeline started", app, tasks });
+/** POST /api/pipeline — task-based pipeline with stop/resume support */
+async function handlePipeline(req: Request): Promise<Response> {
+  const body = (await req.json()) as {
+    app?: string;
+    tasks?: PipelineTasks;
+    resume?: boolean;
+  };
+  const app = body.app ?? DEFAULT_APP;
+  const tasks = body.tasks ?? DEFAULT_PIPELINE_TASKS;
+
+  return startJob("Pipeline started", "pipeline", app, pipelineJob(app, tasks, body.resume ?? false), { tasks });
 }
 
-/** POST /api/pipeline/stop — signal the pipeline to stop between tasks */
-function handlePipelineStop(): Response {
-  if (!isRunning) return errorResponse("No pipeline running", 400);
-  shouldStop = true;
-  broadcastLog("\n⚠ Stop requested — pipeline will halt after the current task completes...");
-  return jsonResponse({ message: "Stop signal sent" });
+/** POST /api/pipeline/stop — cancel the queued and running pipelines (of one app, if given) */
+async function handlePipelineStop(req: Request): Promise<Response> {
+  const body = (await req.json().catch(() => ({}))) as { app?: string };
+  const pipelines = getActiveJobs().filter((j) => j.type === "pipeline" && (!body.app || j.app === body.app));
+  if (pipelines.length === 0) return errorResponse("No pipeline running", 400);
+
+  for (const job of pipelines) cancelJob(job.id);
+  return jsonResponse({ message: "Stop signal sent", jobIds: pipelines.map((j) => j.id) });
 }
 
 /** GET /api/progress?app=xxx — check if resumable progress exists */
 function handleGetProgress(url: URL): Response {
-  const app = url.searchParams.get("app") ?? getCurrentApp();
-  setCurrentApp(app);
-  const progress = loadProgress();
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  const progress = loadProgress(app);
   if (!progress) {
     return jsonResponse({ hasProgress: false });
   }
@@ -410,7 +519,7 @@ async function handleReportIndex(_req: Request): Promise<Response> {
 
 /** GET /api/scripts/read?app=xxx&name=yyy */
 function handleGetScriptContent(url: URL): Response {
-  const app = url.searchParams.get("app") ?? getCurrentApp();
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
   const name = url.searchParams.get("name");
   if (!name) return errorResponse("Missing script name");
 
@@ -422,7 +531,7 @@ function handleGetScriptContent(url: URL): Response {
 /** POST /api/scripts/save */
 async function handleSaveScript(req: Request): Promise<Response> {
   const body = (await req.json()) as { app?: string; name: string; code: string; description?: string };
-  const app = body.app ?? getCurrentApp();
+  const app = body.app ?? DEFAULT_APP;
   if (!body.name || !body.code) return errorResponse("Missing name or code");
 
   const filepath = saveRawScript(app, body.code, body.name, body.description);
@@ -432,7 +541,7 @@ async function handleSaveScript(req: Request): Promise<Response> {
 /** PUT /api/scripts/update */
 async function handleUpdateScript(req: Request): Promise<Response> {
   const body = (await req.json()) as { app?: string; name: string; code?: string; description?: string };
-  const app = body.app ?? getCurrentApp();
+  const app = body.app ?? DEFAULT_APP;
   if (!body.name) return errorResponse("Missing script name");
 
   const ok = updateScript(app, body.name, body.code, body.description);
@@ -443,7 +552,7 @@ async function handleUpdateScript(req: Request): Promise<Response> {
 /** DELETE /api/scripts/delete */
 async function handleDeleteScript(req: Request): Promise<Response> {
   const body = (await req.json()) as { app?: string; name: string };
-  const app = body.app ?? getCurrentApp();
+  const app = body.app ?? DEFAULT_APP;
   if (!body.name) return errorResponse("Missing script name");
 
   const ok = deleteScript(app, body.name);
@@ -453,33 +562,14 @@ async function handleDeleteScript(req: Request): Promise<Response> {
 
 /** POST /api/scripts/run */
 async function handleRunScript(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
-
   const body = (await req.json()) as { app?: string; name: string };
-  const app = body.app ?? getCurrentApp();
+  const app = body.app ?? DEFAULT_APP;
   if (!body.name) return errorResponse("Missing script name");
 
-  setCurrentApp(app);
-  isRunning = true;
-  currentPhase = "script";
-
-  startIntercepting();
-  broadcastStatus({ phase: "script", app });
-
-  (async () => {
-    try {
-      const success = await runScript(app, body.name);
-      broadcastDone({ success, phase: "script", detail: success ? `${body.name} completed` : `${body.name} failed` });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "script", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
-
-  return jsonResponse({ message: "Script execution started", app, name: body.name });
+  return startJob("Script execution started", "script", app, async () => {
+    const success = await runScript(app, body.name);
+    return { success, detail: success ? `${body.name} completed` : `${body.name} failed` };
+  }, { name: body.name });
 }
 
 /** GET /api/reports?app=xxx */
@@ -516,56 +606,37 @@ function handleGetReports(url: URL): Response {
   return jsonResponse({ mainIndex, reports });
 }
 
-/** POST /api/codegen */
+/** POST /api/codegen — one recording session at a time (it opens a browser window) */
 async function handleCodegen(req: Request): Promise<Response> {
-  if (isRunning) return errorResponse("A process is already running", 409);
+  if (isCodegenRunning() || getActiveJobs().some((j) => j.type === "codegen")) {
+    return errorResponse("A codegen session is already open", 409);
+  }
 
   const body = (await req.json()) as { app?: string; env?: string; name?: string };
-  const app = body.app ?? getCurrentApp();
+  const app = body.app ?? DEFAULT_APP;
   const env = body.env ?? environments[0]?.name ?? "develop";
 
-  setCurrentApp(app);
-  isRunning = true;
-  currentPhase = "codegen";
-
-  startIntercepting();
-  broadcastStatus({ phase: "codegen", app, env });
-
   const { startRecording, saveRecordedScript } = await import("./core/recorder");
 
-  (async () => {
-    try {
-      broadcastLog(`Starting Playwright Codegen for ${app} (${env})...`);
-      broadcastLog("A browser window will open. Interact with it, then close when done.");
-
-      const code = await startRecording(app, env);
-      if (code) {
-        const filepath = saveRecordedScript(app, code, body.name);
-        broadcastDone({ success: true, phase: "codegen", detail: `Script saved to ${filepath}` });
-      } else {
-        broadcastDone({ success: false, phase: "codegen", detail: "No actions were recorded" });
-      }
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "codegen", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
-
-  return jsonResponse({ message: "Codegen started", app, env });
+  return startJob("Codegen started", "codegen", app, async (ctx) => {
+    ctx.onCancel(stopRecording);
+    broadcastLog(`Starting Playwright Codegen for ${app} (${env})...`);
+    broadcastLog("A browser window will open. Interact with it, then close when done.");
+
+    const code = await startRecording(app, env);
+    if (ctx.isCancelled()) return { success: false, detail: "Recording stopped by user" };
+    if (!code) return { success: false, detail: "No actions were recorded" };
+    const filepath = saveRecordedScript(app, code, body.name);
+    return { success: true, detail: `Script saved to ${filepath}` };
+  }, { env });
 }
 
 /** POST /api/codegen/stop — kill the active codegen process */
 async function handleCodegenStop(_req: Request): Promise<Response> {
-  if (currentPhase !== "codegen") return errorResponse("No codegen process running", 400);
-  stopRecording();
-  broadcastDone({ success: false, phase: "codegen", detail: "Recording stopped by user" });
-  isRunning = false;
-  currentPhase = "idle";
-  stopIntercepting();
-  return jsonResponse({ message: "Codegen stopped" });
+  const job = getActiveJobs().find((j) => j.type === "codegen");
+  if (!job) return errorResponse("No codegen process running", 400);
+  cancelJob(job.id);
+  return jsonResponse({ message: "Codegen stopped", jobId: job.id });
 }
 
 /** POST /api/compare/custom — compare two specific runs */
@@ -576,68 +647,304 @@ async function handleCompareCustom(req: Request): Promise<Response> {
     runId1: string;
     env2: string;
     runId2: string;
+    /** Recompute even if diffs exist (e.g., after changing mask regions) */
+    force?: boolean;
   };
 
   if (!body.app || !body.env1 || !body.runId1 || !body.env2 || !body.runId2) {
     return errorResponse("Missing required fields: app, env1, runId1, env2, runId2");
   }
 
-  // Determine diff label and check if it already exists
+  // Determine diff label and check if it already exists (mirrors the labels in core/compare.ts)
+  const browser1 = loadRunManifest(body.app, body.env1, body.runId1)?.browser ?? DEFAULT_BROWSER;
+  const browser2 = loadRunManifest(body.app, body.env2, body.runId2)?.browser ?? DEFAULT_BROWSER;
   const isCrossEnv = body.env1 !== body.env2;
-  const diffLabel = isCrossEnv
-    ? `${body.env1}-vs-${body.env2}`
-    : `${body.env1}-${body.runId1}-vs-${body.runId2}`;
+  const isCrossBrowser = !isCrossEnv && browser1 !== browser2;
+  let diffLabel: string;
+  if (isCrossEnv) {
+    diffLabel = browser1 === browser2
+      ? `${body.env1}-vs-${body.env2}${browser1 === DEFAULT_BROWSER ? "" : `-${browser1}`}`
+      : `${body.env1}-${browser1}-vs-${body.env2}-${browser2}`;
+  } else if (isCrossBrowser) {
+    diffLabel = `${body.env1}-${browser1}-vs-${browser2}`;
+  } else {
+    diffLabel = `${body.env1}-${body.runId1}-vs-${body.runId2}`;
+  }
   const diffDir = getDiffPairDir(body.app, diffLabel);
 
-  // Check if diffs already exist (has .png files in it)
-  if (existsSync(diffDir)) {
-    const existing = readdirSync(diffDir).filter(f => f.endsWith(".png"));
-    if (existing.length > 0) {
-      return jsonResponse({
-        message: "Diff already exists",
-        cached: true,
-        diffLabel,
-        diffDir,
-        fileCount: existing.length,
-      });
-    }
+  // Reuse the recorded comparison when it was made from the same two runs
+  const existing = loadDiffManifest(body.app, diffLabel);
+  const sameRuns = existing?.sources[0].runId === body.runId1 && existing?.sources[1].runId === body.runId2;
+  if (!body.force && existing && sameRuns) {
+    return jsonResponse({
+      message: "Diff already exists",
+      cached: true,
+      diffLabel,
+      diffDir,
+      comparedAt: existing.comparedAt,
+      summary: existing.summary,
+    });
   }
 
-  // Run the comparison (blocking but fast — it's just pixel math)
-  if (isRunning) return errorResponse("A process is already running", 409);
+  // Run the comparison (diffs run on worker threads, so the server stays responsive)
+  return startJob("Custom comparison started", "compare", body.app, async () => {
+    const results = await compareRuns(body.app, body.env1, body.runId1, body.env2, body.runId2);
+    const reportPath = generateReport(body.app, results);
+    generateMainIndex();
+    return { success: true, detail: `${results.length} pages compared (${diffLabel}), report: ${reportPath}` };
+  }, { diffLabel, cached: false });
+}
+
+/** GET /api/diffs?app=xxx — recorded comparisons (diff-manifest.json without results) */
+function handleGetDiffs(url: URL): Response {
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  return jsonResponse({ diffs: listDiffManifests(app) });
+}
 
-  setCurrentApp(body.app);
-  isRunning = true;
-  currentPhase = "comparing";
+/** GET /api/diffs/manifest?app=xxx&label=yyy — one comparison's full manifest */
+function handleGetDiffManifest(url: URL): Response {
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  const label = url.searchParams.get("label");
+  if (!label) return errorResponse("Missing diff label");
 
-  startIntercepting();
-  broadcastStatus({ phase: "comparing", app: body.app });
+  const manifest = loadDiffManifest(app, label);
+  if (!manifest) return errorResponse("Diff manifest not found", 404);
+  return jsonResponse({ manifest });
+}
 
-  (async () => {
-    try {
-      let results;
-      if (isCrossEnv) {
-        results = compareCrossEnv(body.app, body.env1, body.runId1, body.env2, body.runId2);
-      } else {
-        results = compareCrossRun(body.app, body.env1, body.runId1, body.runId2);
-      }
-      const reportPath = generateReport(results);
-      generateMainIndex();
-      broadcastDone({
-        success: true,
-        phase: "compare",
-        detail: `${results.length} pages compared (${diffLabel}), report: ${reportPath}`,
-      });
-    } catch (err: any) {
-      broadcastDone({ success: false, phase: "compare", detail: err.message });
-    } finally {
-      isRunning = false;
-      currentPhase = "idle";
-      stopIntercepting();
-    }
-  })();
+/** GET /api/diffs/viewer?app=xxx&label=yyy — a comparison's results for the comparison viewer */
+function handleGetDiffViewer(url: URL): Response {
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  const label = url.searchParams.get("label");
+  if (!label) return errorResponse("Missing diff label");
+
+  const manifest = loadDiffManifest(app, label);
+  if (!manifest) return errorResponse("Diff manifest not found", 404);
+  const comparisons = manifest.results
+    .filter((r) => r.status === "compared")
+    .map((r) => toViewerComparison(r, captureUrl));
+  return jsonResponse({ label, app, comparedAt: manifest.comparedAt, comparisons });
+}
 
-  return jsonResponse({ message: "Custom comparison started", diffLabel, cached: false });
+/** GET /api/trends?app=xxx&window=20 — diff trends per track and page, with flaky/regression flags */
+function handleGetTrends(url: URL): Response {
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  const window = parseInt(url.searchParams.get("window") ?? "", 10);
+  return jsonResponse(getTrends(app, window > 0 ? window : TREND_WINDOW));
+}
+
+// ============================================
+// BASELINES
+// ============================================
+
+/** GET /api/baseline?app=xxx&env=xxx&browser=xxx */
+function handleGetBaseline(url: URL): Response {
+  const app = url.searchParams.get("app") ?? DEFAULT_APP;
+  const env = url.searchParams.get("env") ?? environments[0]?.name;
+  if (!env) return errorResponse("Missing env");
+  let browser: BrowserName;
+  try {
+    browser = parseBrowserName(url.searchParams.get("browser") ?? DEFAULT_BROWSER);
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
+  return jsonResponse({ baseline: loadBaseline(app, env, browser) });
+}
+
+interface BaselineReviewBody {
+  app: string;
+  env: string;
+  runId: string;
+  /** Screenshot filenames — omit to review the whole run */
+  files?: string[];
+  reviewer: string;
+  note?: string;
+}
+
+/** POST /api/baseline/approve — copy screenshots from a run into the baseline */
+async function handleBaselineApprove(req: Request): Promise<Response> {
+  const body = (await req.json()) as BaselineReviewBody;
+  if (!body.app || !body.env || !body.runId || !body.reviewer) {
+    return errorResponse("Missing required fields: app, env, runId, reviewer");
+  }
+
+  try {
+    const entries = approveScreenshots(body.app, body.env, body.runId, body.reviewer, body.note, body.files);
+    return jsonResponse({ message: `${entries.length} screenshot(s) approved`, entries });
+  } catch (err: any) {
+    return errorResponse(err.message, 404);
+  }
+}
+
+/** POST /api/baseline/reject — record a rejection without touching the baseline */
+async function handleBaselineReject(req: Request): Promise<Response> {
+  const body = (await req.json()) as BaselineReviewBody;
+  if (!body.app || !body.env || !body.runId || !body.reviewer) {
+    return errorResponse("Missing required fields: app, env, runId, reviewer");
+  }
+
+  try {
+    const decisions = rejectScreenshots(body.app, body.env, body.runId, body.reviewer, body.note, body.files);
+    return jsonResponse({ message: `${decisions.length} screenshot(s) rejected`, decisions });
+  } catch (err: any) {
+    return errorResponse(err.message, 404);
+  }
+}
+
+/** POST /api/baseline/compare — compare a run (or the latest runs) against the baseline */
+async function handleBaselineCompare(req: Request): Promise<Response> {
+  const body = (await req.json()) as { app?: string; env?: string; runId?: string };
+  const app = body.app ?? DEFAULT_APP;
+  const env = body.env ?? environments[0]?.name;
+  if (!env) return errorResponse("Missing env");
+
+  return startJob("Baseline comparison started", "compare", app, async () => {
+    const results = body.runId ? await compareAgainstBaseline(app, env, body.runId) : await compareBaseline(app, env);
+    const reportPath = generateReport(app, results);
+    generateMainIndex();
+    return { success: true, detail: `${results.length} pages compared against the ${env} baseline, report: ${reportPath}` };
+  }, { mode: "baseline", env, runId: body.runId });
+}
+
+// ============================================
+// JOBS
+// ============================================
+
+const JOB_STATUSES: readonly JobStatus[] = ["queued", "running", "completed", "failed", "cancelled"];
+
+/** GET /api/jobs?app=xxx&status=yyy — jobs, newest first */
+function handleGetJobs(url: URL): Response {
+  const status = url.searchParams.get("status") ?? undefined;
+  if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+    return errorResponse(`Unknown job status: "${status}". Available: ${JOB_STATUSES.join(", ")}`);
+  }
+  const jobs = listJobs({ app: url.searchParams.get("app") ?? undefined, status: status as JobStatus | undefined });
+  return jsonResponse({ jobs, concurrency: getJobConcurrency() });
+}
+
+/** GET /api/jobs/:id?since=n — one job with its log (from line n) */
+function handleGetJob(id: string, url: URL): Response {
+  const job = getJob(id);
+  if (!job) return errorResponse("Job not found", 404);
+  const since = parseInt(url.searchParams.get("since") ?? "0", 10) || 0;
+  return jsonResponse({ job, logs: getJobLogs(id, since) ?? [] });
+}
+
+/**
+ * GET /api/jobs/:id/log?since=n&limit=m — a page of the job's archived log,
+ * also for jobs from earlier server sessions. `format=text` returns the
+ * whole log as plain text without terminal colors.
+ */
+function handleGetJobLog(id: string, url: URL): Response {
+  const since = parseInt(url.searchParams.get("since") ?? "0", 10) || 0;
+  const limit = parseInt(url.searchParams.get("limit") ?? "", 10) || LOG_PAGE_SIZE;
+  if (url.searchParams.get("format") === "text") {
+    const page = readJobLog(id, 0, Infinity);
+    if (!page) return errorResponse("Job not found", 404);
+    // Terminal colors are kept in the archive for the dashboard; drop them here
+    const text = page.lines.map((l) => l.line.replace(/\x1b\[[0-9;]*m/g, "")).join("\n");
+    return new Response(text + "\n", {
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  const page = readJobLog(id, since, Math.max(1, limit));
+  if (!page) return errorResponse("Job not found", 404);
+  return jsonResponse(page);
+}
+
+/** POST /api/jobs/:id/cancel — drop a queued job or stop a running one */
+function handleCancelJob(id: string): Response {
+  try {
+    const job = cancelJob(id);
+    if (!job) return errorResponse("Job not found", 404);
+    return jsonResponse({ message: job.status === "cancelled" ? "Job cancelled" : "Cancel requested", job });
+  } catch (err: any) {
+    return errorResponse(err.message, 409);
+  }
+}
+
+// ============================================
+// SCHEDULES
+// ============================================
+
+/** Scheduler runner — queues the schedule's pipeline and waits for it, or null while the app has a job */
+async function runScheduledPipeline(schedule: ScheduleDefinition) {
+  if (hasActiveJob(schedule.app)) {
+    broadcastLog(`\n⚠ Skipping scheduled run "${schedule.name}" — a ${schedule.app} job is already queued or running`);
+    return null;
+  }
+  const { id } = enqueueJob("pipeline", schedule.app, pipelineJob(schedule.app, getScheduleTasks(schedule), false, schedule.envs), {
+    params: { schedule: schedule.name, tasks: getScheduleTasks(schedule) },
+    trigger: "scheduled",
+  });
+  const job = await waitForJob(id);
+  return { success: job.status === "completed", detail: job.detail ?? "", runIds: job.runIds ?? {}, jobId: id };
+}
+
+/** GET /api/schedules — every schedule with its next run, plus recent scheduled runs */
+function handleGetSchedules(): Response {
+  return jsonResponse({ schedules: listSchedules(), history: listScheduledRuns(20) });
+}
+
+/** POST /api/schedules — create a schedule */
+async function handleCreateSchedule(req: Request): Promise<Response> {
+  const body = (await req.json()) as ScheduleDefinition;
+  try {
+    const schedule = addSchedule(body);
+    return jsonResponse({ message: "Schedule created", schedule }, 201);
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
+}
+
+/** DELETE /api/schedules — remove an API-created schedule */
+async function handleDeleteSchedule(req: Request): Promise<Response> {
+  const body = (await req.json()) as { name: string };
+  if (!body.name) return errorResponse("Missing schedule name");
+
+  try {
+    if (!removeSchedule(body.name)) return errorResponse("Schedule not found", 404);
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
+  return jsonResponse({ message: "Schedule deleted", name: body.name });
+}
+
+/** POST /api/schedules/run — start a schedule now instead of waiting for its next time */
+async function handleRunSchedule(req: Request): Promise<Response> {
+  const body = (await req.json()) as { name: string };
+  const schedule = body.name ? findSchedule(body.name) : undefined;
+  if (!schedule) return errorResponse("Schedule not found", 404);
+
+  void runSchedule(schedule);
+  return jsonResponse({ message: "Scheduled run started", name: schedule.name, app: schedule.app });
+}
+
+// ============================================
+// WEBHOOKS
+// ============================================
+
+/** GET /api/webhooks — configured webhooks and recent deliveries */
+function handleGetWebhooks(): Response {
+  const webhooks = getWebhooks().map((hook) => ({
+    url: hook.url,
+    events: hook.events ?? WEBHOOK_EVENTS,
+    apps: hook.apps ?? null,
+    signed: Boolean(hook.secretEnv),
+  }));
+  return jsonResponse({ webhooks, deliveries: listWebhookDeliveries() });
+}
+
+/** POST /api/webhooks/test — send a "ping" to every webhook (or one url) and wait for the deliveries */
+async function handleTestWebhooks(req: Request): Promise<Response> {
+  const body = (await req.json().catch(() => ({}))) as { app?: string; url?: string };
+  try {
+    const deliveries = await sendTestWebhook(body.app ?? DEFAULT_APP, body.url);
+    return jsonResponse({ ok: deliveries.every((d) => d.ok), deliveries });
+  } catch (err: any) {
+    return errorResponse(err.message);
+  }
 }
 
 // ============================================
@@ -662,13 +969,17 @@ const server = Bun.serve({
       return serveDashboard();
     }
 
+    if (url.pathname === "/viewer.css") return serveViewerAsset("css");
+    if (url.pathname === "/viewer.js") return serveViewerAsset("js");
+    if (url.pathname.startsWith("/captures/")) return serveCaptureImage(url.pathname);
+
     // Serve report files from output/reports/
     if (url.pathname.startsWith("/reports/")) {
       const filePath = path.join("output", url.pathname);
       if (existsSync(filePath)) {
         const content = readFileSync(filePath);
         const ext = path.extname(filePath);
-        const contentType = ext === ".html" ? "text/html" : ext === ".json" ? "application/json" : "application/octet-stream";
+        const contentType = ext === ".html" ? "text/html" : ext === ".json" ? "application/json" : ext === ".png" ? "image/png" : "application/octet-stream";
         return new Response(content, { headers: { "Content-Type": contentType } });
       }
       return new Response("Not found", { status: 404 });
@@ -679,6 +990,8 @@ const server = Bun.serve({
     if (url.pathname === "/api/runs" && req.method === "GET") return handleGetRuns(url);
     if (url.pathname === "/api/runs/delete" && req.method === "DELETE") return handleDeleteRun(req);
     if (url.pathname === "/api/runs/rerun" && req.method === "POST") return handleRerunCapture(req);
+    if (url.pathname === "/api/runs/tag" && req.method === "POST") return handleTagRun(req);
+    if (url.pathname === "/api/runs/prune" && req.method === "POST") return handlePruneRuns(req);
     if (url.pathname === "/api/scripts" && req.method === "GET") return handleGetScripts(url);
     if (url.pathname === "/api/scripts/read" && req.method === "GET") return handleGetScriptContent(url);
     if (url.pathname === "/api/scripts/save" && req.method === "POST") return handleSaveScript(req);
@@ -692,22 +1005,44 @@ const server = Bun.serve({
     if (url.pathname === "/api/report/index" && req.method === "POST") return handleReportIndex(req);
     if (url.pathname === "/api/report" && req.method === "POST") return handleReport(req);
     if (url.pathname === "/api/pipeline" && req.method === "POST") return handlePipeline(req);
-    if (url.pathname === "/api/pipeline/stop" && req.method === "POST") return handlePipelineStop();
+    if (url.pathname === "/api/pipeline/stop" && req.method === "POST") return handlePipelineStop(req);
     if (url.pathname === "/api/progress" && req.method === "GET") return handleGetProgress(url);
     if (url.pathname === "/api/codegen" && req.method === "POST") return handleCodegen(req);
     if (url.pathname === "/api/codegen/stop" && req.method === "POST") return handleCodegenStop(req);
     if (url.pathname === "/api/compare/custom" && req.method === "POST") return handleCompareCustom(req);
+    if (url.pathname === "/api/diffs" && req.method === "GET") return handleGetDiffs(url);
+    if (url.pathname === "/api/diffs/manifest" && req.method === "GET") return handleGetDiffManifest(url);
+    if (url.pathname === "/api/diffs/viewer" && req.method === "GET") return handleGetDiffViewer(url);
+    if (url.pathname === "/api/trends" && req.method === "GET") return handleGetTrends(url);
+    if (url.pathname === "/api/baseline" && req.method === "GET") return handleGetBaseline(url);
+    if (url.pathname === "/api/baseline/approve" && req.method === "POST") return handleBaselineApprove(req);
+    if (url.pathname === "/api/baseline/reject" && req.method === "POST") return handleBaselineReject(req);
+    if (url.pathname === "/api/baseline/compare" && req.method === "POST") return handleBaselineCompare(req);
+    if (url.pathname === "/api/jobs" && req.method === "GET") return handleGetJobs(url);
+    const jobRoute = url.pathname.match(/^\/api\/jobs\/([\w-]+)(\/cancel|\/log)?$/);
+    if (jobRoute && !jobRoute[2] && req.method === "GET") return handleGetJob(jobRoute[1]!, url);
+    if (jobRoute && jobRoute[2] === "/log" && req.method === "GET") return handleGetJobLog(jobRoute[1]!, url);
+    if (jobRoute && jobRoute[2] === "/cancel" && req.method === "POST") return handleCancelJob(jobRoute[1]!);
+    if (url.pathname === "/api/schedules" && req.method === "GET") return handleGetSchedules();
+    if (url.pathname === "/api/schedules" && req.method === "POST") return handleCreateSchedule(req);
+    if (url.pathname === "/api/schedules" && req.method === "DELETE") return handleDeleteSchedule(req);
+    if (url.pathname === "/api/schedules/run" && req.method === "POST") return handleRunSchedule(req);
+    if (url.pathname === "/api/webhooks" && req.method === "GET") return handleGetWebhooks();
+    if (url.pathname === "/api/webhooks/test" && req.method === "POST") return handleTestWebhooks(req);
 
     return new Response("Not found", { status: 404 });
   },
   websocket: {
     open(ws) {
       addClient(ws);
+      const running = getActiveJobs().filter((j) => j.status === "running");
       ws.send(JSON.stringify({
         type: "connected",
-        data: { version: projectConfig.version, isRunning, currentPhase },
+        data: { version: projectConfig.version, isRunning: running.length > 0, currentPhase: running[0]?.phase ?? "idle" },
         ts: Date.now(),
       }));
+      // Replay what was logged before this client connected
+      ws.send(JSON.stringify({ type: "history", data: getHistory(), ts: Date.now() }));
     },
     message(_ws, _message) {
       // Client messages not used yet — reserved for future interactive commands
@@ -723,4 +1058,16 @@ console.log(`  ${"-".repeat(40)}`);
 console.log(`  Local:   http://localhost:${server.port}`);
 console.log(`  Version: ${projectConfig.version}`);
 console.log(`  Apps:    ${APP_LIST.join(", ")}`);
+console.log(`  Jobs:    ${getJobConcurrency()} at a time`);
+if (getWebhooks().length > 0) console.log(`  Hooks:   ${getWebhooks().map((h) => h.url).join(", ")}`);
 console.log(`  ${"-".repeat(40)}\n`);
+
+startScheduler(runScheduledPipeline);
+const schedules = listSchedules().filter((s) => s.nextRun);
+if (schedules.length > 0) {
+  console.log(`  Schedules:`);
+  for (const s of schedules) {
+    console.log(`    ${s.name} (${s.cron}) — next: ${new Date(s.nextRun!).toLocaleString()}`);
+  }
+  console.log("");
+}
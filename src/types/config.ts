@@ -23,6 +23,24 @@ export interface ProjectConfig {
   /** Timeout settings (ms) */
   timeouts: TimeoutConfig;
 
+  /** Diff engine settings and severity cut-offs (defaults apply when omitted) */
+  compare?: Partial<CompareSettings>;
+
+  /** Report output options (defaults apply when omitted) */
+  report?: Partial<ReportOptions>;
+
+  /** Pipelines the dashboard server runs on a cron schedule */
+  schedules?: ScheduleDefinition[];
+
+  /** Dashboard job queue (defaults apply when omitted) */
+  jobs?: Partial<JobsConfig>;
+
+  /** Endpoints notified with a signed JSON POST when runs and pipelines finish */
+  webhooks?: WebhookDefinition[];
+
+  /** Which runs `prune` keeps (defaults apply when omitted) */
+  retention?: Partial<RetentionConfig>;
+
   /** Number of login retry attempts */
   loginRetries: number;
 
@@ -49,6 +67,11 @@ export interface EnvironmentDefinition {
 export interface CaptureOptions {
   /** Viewport configuration — use a preset name or custom dimensions */
   viewport: ViewportPreset | ViewportCustom;
+  /**
+   * Viewport matrix — when set, every page is captured once per viewport
+   * (overrides `viewport`). Filenames get an `@{viewport}` suffix.
+   */
+  viewports?: Array<ViewportPreset | ViewportCustom>;
   /** Capture full scrollable page (default: true) */
   fullPage: boolean;
   /** Image format (default: "png") */
@@ -57,8 +80,30 @@ export interface CaptureOptions {
   settleDelay: number;
   /** Run browser in headless mode (default: true) */
   headless?: boolean;
+  /**
+   * Playwright engines to capture with (default: ["chromium"]).
+   * Each browser gets its own run per app+env.
+   */
+  browsers?: BrowserName[];
+  /** Freeze Date/time via Playwright's clock API so relative dates are stable (default: false) */
+  freezeClock?: boolean;
+  /** ISO timestamp the clock is frozen at (default: "2026-01-01T09:00:00.000Z") */
+  clockTime?: string;
+  /** Inject CSS that disables animations, transitions and Material ripples (default: false) */
+  disableAnimations?: boolean;
+  /** Make text carets transparent so blinking cursors never show up (default: false) */
+  hideCaret?: boolean;
+  /** Wait for `document.fonts.ready` before each screenshot (default: false) */
+  waitForFonts?: boolean;
+  /** Replace Math.random with a seeded generator (default: false) */
+  seedRandom?: boolean;
 }
 
+/**
+ * Playwright browser engines available for capture
+ */
+export type BrowserName = "chromium" | "firefox" | "webkit";
+
 export interface ViewportPreset {
   preset: string;
 }
@@ -66,6 +111,18 @@ export interface ViewportPreset {
 export interface ViewportCustom {
   width: number;
   height: number;
+  /** Name used in filenames and reports (default: "{width}x{height}") */
+  name?: string;
+}
+
+/**
+ * Viewport resolved from a preset or custom definition
+ */
+export interface ResolvedViewport {
+  /** Preset name or custom name (e.g., "mobile", "1920x1080") */
+  name: string;
+  width: number;
+  height: number;
 }
 
 /**
@@ -79,6 +136,190 @@ export interface TimeoutConfig {
   contentReady: number;
 }
 
+/**
+ * RGB color used by the diff engine
+ */
+export type RGBColor = [number, number, number];
+
+/**
+ * Diff engine settings — pixelmatch options plus severity cut-offs
+ */
+export interface CompareSettings {
+  /** Per-pixel color distance tolerance, 0–1; lower is stricter (default: 0.1) */
+  threshold: number;
+  /** Count anti-aliased pixels as differences (default: false) */
+  includeAA: boolean;
+  /** Opacity of unchanged pixels in the diff image, 0–1 (default: 0.1) */
+  alpha: number;
+  /** Color of changed pixels in the diff image (default: [255, 0, 0]) */
+  diffColor: RGBColor;
+  /** Color of pixels that got darker — defaults to diffColor */
+  diffColorAlt?: RGBColor;
+  /** Color of anti-aliased pixels in the diff image (default: [255, 255, 0]) */
+  aaColor: RGBColor;
+  /** Diff % at or above which a result is a warning (default: 1) */
+  warnThreshold: number;
+  /** Diff % at or above which a result is a failure (default: 5) */
+  failThreshold: number;
+  /** Also compute SSIM and an SSIM heatmap for every screenshot (default: false) */
+  ssim: boolean;
+  /** Metric that drives pass/warn/fail — "ssim" implies `ssim: true` (default: "pixel") */
+  metric: CompareMetric;
+  /** SSIM below which a result is a warning when metric is "ssim" (default: 0.98) */
+  ssimWarnBelow: number;
+  /** SSIM below which a result is a failure when metric is "ssim" (default: 0.9) */
+  ssimFailBelow: number;
+  /** Changed pixels closer than this (px) are merged into one diff region (default: 16) */
+  regionMergeDistance: number;
+  /** Largest number of diff regions kept per screenshot (default: 20) */
+  maxRegions: number;
+  /**
+   * Row alignment before diffing (default: "none"). "bands" lines up matching
+   * rows so inserted/removed content doesn't shift everything below it.
+   */
+  alignment: "none" | "bands";
+  /**
+   * Which environments are diffed when more than two are configured (default:
+   * "reference"). Project/app level only — ignored in per-page overrides.
+   */
+  envPairing: EnvPairing;
+  /** Environment every other one is diffed against in "reference" mode (default: the first) */
+  referenceEnv?: string;
+  /**
+   * Worker threads used to diff screenshots in parallel (default: CPU cores − 1,
+   * at least 1). Project/app level only.
+   */
+  workers: number;
+}
+
+/**
+ * Comparison metric — raw pixel percentage or structural similarity
+ */
+export type CompareMetric = "pixel" | "ssim";
+
+/**
+ * Environment pairing — one reference env vs each of the others, or every pair
+ */
+export type EnvPairing = "reference" | "all-pairs";
+
+/**
+ * Per-app compare overrides, with optional per-page overrides keyed by page path
+ */
+export interface CompareOverrides extends Partial<CompareSettings> {
+  pages?: Record<string, Partial<CompareSettings>>;
+}
+
+/**
+ * Severity of a diff percentage against the warn/fail cut-offs
+ */
+export type DiffSeverity = "pass" | "warn" | "fail";
+
+/**
+ * Report file format — html (index.html), json (report.json),
+ * junit (junit.xml) or markdown (summary.md)
+ */
+export type ReportFormat = "html" | "json" | "junit" | "markdown";
+
+/**
+ * Report output options
+ */
+export interface ReportOptions {
+  /** Files written by generateReport() when the caller doesn't choose (default: ["html"]) */
+  formats: ReportFormat[];
+  /** How the HTML report includes screenshots (default: "linked") */
+  images: ReportImageMode;
+  /** Width of the card thumbnails in linked mode, in px (default: 480) */
+  thumbnailWidth: number;
+}
+
+/**
+ * "linked" — images are hardlinked into the report's assets/ folder with
+ * reduced-size thumbnails and loaded lazily; "embedded" — images are inlined
+ * as base64 so index.html is a single self-contained file (e.g., for email)
+ */
+export type ReportImageMode = "linked" | "embedded";
+
+/**
+ * Pipeline steps to run — the shape `/api/pipeline` takes
+ */
+export interface PipelineTasks {
+  capture?: boolean;
+  /** Recorded scripts to run after the capture */
+  scripts?: string[];
+  compare?: boolean;
+  report?: boolean;
+}
+
+/**
+ * A pipeline started by the dashboard server on a cron schedule
+ */
+export interface ScheduleDefinition {
+  /** Unique name of letters, digits, "_", "." and "-" (e.g., "nightly-auth") */
+  name: string;
+  /** 5-field cron expression in the server's local time (e.g., "0 2 * * 1-5") */
+  cron: string;
+  /** App to run */
+  app: string;
+  /** Environments to capture and compare (default: all) */
+  envs?: string[];
+  /** Steps to run — steps left out default to capture, compare and report */
+  tasks?: PipelineTasks;
+  /** Set to false to keep the schedule without running it */
+  enabled?: boolean;
+}
+
+/**
+ * Dashboard job queue settings
+ */
+export interface JobsConfig {
+  /** Jobs that run at the same time across apps (default: 2) — one job per app runs at a time */
+  concurrency: number;
+}
+
+/**
+ * Retention rules for `prune`. Running, tagged and baseline-source runs are
+ * always kept; completed runs are kept by `keepLast` or `keepDays`; failed
+ * and cancelled runs only for `failedGraceDays`. Compare cache entries and
+ * job log archives expire on their own after `cacheDays` and `jobDays`.
+ */
+export interface RetentionConfig {
+  /** Completed runs kept per app, env and browser, newest first (default: 10) */
+  keepLast: number;
+  /** Completed runs started within this many days are kept (default: 14) */
+  keepDays: number;
+  /** Failed and cancelled runs are deleted once older than this many days (default: 2) */
+  failedGraceDays: number;
+  /** Compare cache entries not used for this many days are deleted (default: 30) */
+  cacheDays: number;
+  /** Job log archives are deleted once untouched for this many days (default: 30) */
+  jobDays: number;
+}
+
+/**
+ * Events a webhook can subscribe to
+ */
+export type WebhookEvent = "run.completed" | "run.failed" | "pipeline.completed" | "pipeline.failed";
+
+/**
+ * An endpoint that receives run and pipeline events
+ */
+export interface WebhookDefinition {
+  /** Receiver URL (e.g., "https://hooks.example.com/ui-police") */
+  url: string;
+  /** Events to send (default: all) */
+  events?: WebhookEvent[];
+  /** Only send events of these apps (default: all) */
+  apps?: string[];
+  /** Environment variable holding the HMAC-SHA256 secret — payloads are unsigned when omitted */
+  secretEnv?: string;
+  /** Retries after a failed attempt (default: 3) */
+  retries?: number;
+  /** Wait before the first retry, doubled for each one after (default: 1000 ms) */
+  backoffMs?: number;
+  /** Give up on an attempt after this long (default: 10000 ms) */
+  timeoutMs?: number;
+}
+
 /**
  * Application definition in the central config
  */
@@ -97,6 +338,22 @@ export interface AppDefinition {
   fallbackPages: string[];
   /** App-specific options (e.g., { registrationMode: "screenshot-only" }) */
   options?: Record<string, unknown>;
+  /** CSS selectors masked in every screenshot of this app (timestamps, avatars, counters) */
+  maskSelectors?: string[];
+  /** Fixed rectangles masked per page path (e.g., { "/admin/dashboard": [{ x: 0, y: 0, width: 300, height: 40 }] }) */
+  maskRegions?: Record<string, MaskRect[]>;
+  /** Compare setting overrides for this app (and individual pages) */
+  compare?: CompareOverrides;
+}
+
+/**
+ * Rectangle to ignore when comparing, in screenshot pixels from the top-left corner
+ */
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 // ============================================
@@ -115,7 +372,7 @@ export interface GlobalManifest {
 
 /**
  * Summary entry for a single run in the global manifest.
- * Each run is scoped to ONE app + ONE environment.
+ * Each run is scoped to ONE app + ONE environment + ONE browser.
  */
 export interface RunSummary {
   /** Unique run identifier (e.g., "260217-001") */
@@ -124,19 +381,30 @@ export interface RunSummary {
   app: string;
   /** Environment name */
   environment: string;
+  /** Browser engine used (runs created before cross-browser support load as "chromium") */
+  browser: BrowserName;
   /** ISO 8601 timestamp when the run started */
   timestamp: string;
   /** Run status */
   status: "running" | "completed" | "failed" | "cancelled";
+  /** How the run was started (absent for runs recorded before schedules) */
+  trigger?: RunTrigger;
+  /** Labels set with setRunTags() — tagged runs are never pruned */
+  tags?: string[];
 }
 
+/**
+ * How a run was started
+ */
+export type RunTrigger = "manual" | "script" | "scheduled";
+
 // ============================================
 // PER-RUN MANIFEST (captures/{app}/{env}/{YYMMDD-NNN}/run-manifest.json)
 // ============================================
 
 /**
  * Detailed manifest for a single capture run.
- * A run captures ONE app × ONE environment.
+ * A run captures ONE app × ONE environment × ONE browser.
  */
 export interface RunManifest {
   /** Unique run identifier (e.g., "260217-001") */
@@ -147,14 +415,18 @@ export interface RunManifest {
   environment: string;
   /** Base URL used for this environment */
   baseUrl: string;
+  /** Browser engine used for this run */
+  browser: BrowserName;
   /** ISO 8601 timestamp when the run started */
   timestamp: string;
   /** Human-readable duration (e.g., "1m 45s") */
   duration: string;
   /** How the run was triggered */
-  trigger: "manual" | "script" | "scheduled";
+  trigger: RunTrigger;
   /** Run status */
   status: "running" | "completed" | "failed" | "cancelled";
+  /** Labels (e.g., "release-1.4") — tagged runs are never pruned */
+  tags?: string[];
   /** UI Police version used for this run */
   version: string;
   /** Number of pages captured */
@@ -179,10 +451,70 @@ export interface ScreenshotEntry {
   file: string;
   /** Viewport dimensions used (e.g., "1920x1080") */
   viewport: string;
+  /** Viewport name when captured as part of a viewport matrix (e.g., "mobile") */
+  viewportName?: string;
+  /** Browser engine that captured this screenshot */
+  browser: BrowserName;
   /** If this is an interaction screenshot, the interaction ID */
   interactionId?: string;
   /** Human-readable description for interactions */
   description?: string;
+  /** SHA-256 of the PNG file — lets comparisons skip unchanged pairs */
+  hash?: string;
+}
+
+// ============================================
+// BASELINES (captures/{app}/baselines/{env}[-{browser}]/baseline.json)
+// ============================================
+
+/**
+ * Approved ("accepted") screenshots for ONE app × ONE environment × ONE browser.
+ * Viewports are kept apart by the `@{viewport}` filename suffix.
+ */
+export interface BaselineManifest {
+  app: string;
+  environment: string;
+  browser: BrowserName;
+  /** ISO 8601 timestamp of the last approval */
+  updatedAt: string;
+  /** Approved screenshots keyed by filename */
+  entries: Record<string, BaselineEntry>;
+  /** Every approve/reject decision, oldest first */
+  history: BaselineDecision[];
+}
+
+/**
+ * A screenshot currently accepted into the baseline
+ */
+export interface BaselineEntry {
+  /** Filename within the baseline directory (same as in the source run) */
+  file: string;
+  /** Page path (e.g., "/login") */
+  page: string;
+  interactionId?: string;
+  /** Viewport tag (viewport matrix only) */
+  viewport?: string;
+  /** Run the approved screenshot was copied from */
+  sourceRunId: string;
+  /** SHA-256 of the PNG file */
+  hash?: string;
+  approvedBy: string;
+  /** ISO 8601 timestamp */
+  approvedAt: string;
+  note?: string;
+}
+
+/**
+ * A reviewer's decision on a screenshot from a run
+ */
+export interface BaselineDecision {
+  action: "approved" | "rejected";
+  file: string;
+  runId: string;
+  reviewer: string;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  note?: string;
 }
 
 // ============================================
@@ -213,6 +545,8 @@ export interface Interaction {
   closeAfter?: "click" | "escape" | "none";
   /** Optional: click a submit button after filling (for validation-error captures) */
   clickAfterFill?: string;
+  /** Optional: extra CSS selectors masked in this interaction's screenshot */
+  maskSelectors?: string[];
 }
 
 /**
@@ -242,6 +576,10 @@ export interface AppConfig {
   fallbackPages: string[];
   /** App-specific options */
   options: Record<string, unknown>;
+  /** Selectors masked in every screenshot */
+  maskSelectors: string[];
+  /** Rectangles masked per page path */
+  maskRegions: Record<string, MaskRect[]>;
   /** Interaction groups for this app */
   interactionGroups: InteractionGroup[];
   /** Function to get all interactions flattened */
@@ -4,10 +4,12 @@
  * Naming convention (filenames only — app/env/run encoded in directory):
  *   Base page:    {page-slug}.png
  *   Interaction:  {page-slug}__{interaction-id}.png
+ *   Viewport:     {page-slug}[__{interaction-id}]@{viewport}.png  (viewport matrix only)
  *
  * Examples:
- *   captures/auth/260217-001/develop/login.png
- *   captures/admin/260217-001/develop/admin-users__add-user-button.png
+ *   captures/auth/develop/260217-001/login.png
+ *   captures/admin/develop/260217-001/admin-users__add-user-button.png
+ *   captures/plan/develop/260217-001/plan-dashboard@mobile.png
  */
 
 /**
@@ -31,24 +33,34 @@ export function pageSlug(pagePath: string): string {
   return clean.replace(/^\//, "").replace(/\//g, "-") || "root";
 }
 
+/**
+ * Build the `@{viewport}` filename suffix (empty when no viewport tag)
+ */
+function viewportSuffix(viewport?: string): string {
+  return viewport ? `@${sanitizeForFilename(viewport)}` : "";
+}
+
 /**
  * Build the screenshot filename for a base page
  * e.g., "/admin/dashboard" -> "admin-dashboard.png"
  *        "/login"          -> "login.png"
+ *        ("/login", "mobile") -> "login@mobile.png"
  */
-export function pathToFilename(pagePath: string): string {
-  return `${pageSlug(pagePath)}.png`;
+export function pathToFilename(pagePath: string, viewport?: string): string {
+  return `${pageSlug(pagePath)}${viewportSuffix(viewport)}.png`;
 }
 
 /**
  * Build the screenshot filename for an interaction
  * e.g., ("/admin/users", "add-user-button") -> "admin-users__add-user-button.png"
+ *        ("/admin/users", "add-user-button", "tablet") -> "admin-users__add-user-button@tablet.png"
  */
 export function interactionFilename(
   pagePath: string,
   interactionId: string,
+  viewport?: string,
 ): string {
-  return `${pageSlug(pagePath)}__${interactionId}.png`;
+  return `${pageSlug(pagePath)}__${interactionId}${viewportSuffix(viewport)}.png`;
 }
 
 /**
@@ -57,8 +69,16 @@ export function interactionFilename(
 export function parseFilename(filename: string): {
   pagePath: string;
   interactionId?: string;
+  viewport?: string;
 } {
-  const withoutExt = filename.replace(/\.png$/, "");
+  let withoutExt = filename.replace(/\.png$/, "");
+
+  let viewport: string | undefined;
+  const atIdx = withoutExt.lastIndexOf("@");
+  if (atIdx > 0) {
+    viewport = withoutExt.substring(atIdx + 1);
+    withoutExt = withoutExt.substring(0, atIdx);
+  }
 
   let basePart = withoutExt;
   let interactionId: string | undefined;
@@ -71,5 +91,5 @@ export function parseFilename(filename: string): {
   // Convert slug back to a path: "admin-dashboard" -> "/admin/dashboard"
   const pagePath = "/" + basePart.replace(/-/g, "/");
 
-  return { pagePath, interactionId };
+  return { pagePath, interactionId, viewport };
 }
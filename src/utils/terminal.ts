@@ -3,6 +3,8 @@
  * Uses ANSI escape codes for cross-platform terminal styling
  */
 
+import type { DiffSeverity } from "../types/config";
+
 // ANSI Color codes
 const colors = {
   reset: "\x1b[0m",
@@ -196,6 +198,15 @@ export const log = {
   },
 };
 
+/**
+ * Color for a diff severity (green pass, yellow warn, red fail)
+ */
+export function severityStyle(severity: DiffSeverity): (text: string) => string {
+  if (severity === "pass") return style.success;
+  if (severity === "warn") return style.warning;
+  return style.error;
+}
+
 /**
  * Format duration in human readable format
  */
@@ -207,6 +218,17 @@ export function formatDuration(ms: number): string {
   return `${mins}m ${secs}s`;
 }
 
+/**
+ * Format a byte count (e.g., "1.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+}
+
 /**
  * Banner for startup
  */
@@ -244,7 +266,11 @@ export function printMenu(title: string, options: { key: string; label: string;
 export function printComparisonSummary(
   totalPages: number,
   avgDiff: number,
-  reportPath: string
+  reportPath: string,
+  severity: DiffSeverity,
+  avgSsim?: number,
+  failures: number = 0,
+  missing: { added: number; removed: number; errors?: number } = { added: 0, removed: 0 },
 ) {
   console.log("");
   console.log(style.orange("  ╔═══════════════════════════════════════════╗"));
@@ -252,7 +278,17 @@ export function printComparisonSummary(
   console.log(style.orange("  ╚═══════════════════════════════════════════╝"));
   console.log("");
   console.log(`  ${style.bold("Pages compared:")}  ${style.count(String(totalPages))}`);
-  console.log(`  ${style.bold("Avg difference:")} ${avgDiff < 1 ? style.success(`${avgDiff.toFixed(2)}%`) : avgDiff < 5 ? style.warning(`${avgDiff.toFixed(2)}%`) : style.error(`${avgDiff.toFixed(2)}%`)}`);
+  console.log(`  ${style.bold("Avg difference:")} ${severityStyle(severity)(`${avgDiff.toFixed(2)}%`)}`);
+  if (avgSsim !== undefined) {
+    console.log(`  ${style.bold("Avg SSIM:")}       ${severityStyle(severity)(avgSsim.toFixed(4))}`);
+  }
+  if (failures > 0) {
+    const errors = missing.errors ?? 0;
+    const missingNote = missing.added + missing.removed + errors > 0
+      ? style.muted(` (${missing.added} added, ${missing.removed} removed${errors > 0 ? `, ${errors} not diffed` : ""})`)
+      : "";
+    console.log(`  ${style.bold("Failures:")}       ${style.error(String(failures))}${missingNote}`);
+  }
   console.log(`  ${style.bold("Report:")}         ${style.path(reportPath)}`);
 }
 
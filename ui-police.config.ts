@@ -12,8 +12,8 @@ const config: ProjectConfig = {
 
   // ── Environments ────────────────────────────────────────────────
   // Order matters: the capture pipeline runs them sequentially.
-  // The comparison step pairs the two most recent runs for the
-  // selected app (one per environment).
+  // The comparison step diffs the latest run of each environment
+  // against the reference environment (see compare.envPairing).
   environments: [
     { name: "develop", baseUrl: "https://dev-plan.cariloop.com" },
     { name: "local", baseUrl: "https://local-plan.cariloop.com" },
@@ -24,12 +24,99 @@ const config: ProjectConfig = {
   capture: {
     viewport: { preset: "desktop-hd" },
     // viewport: { width: 1920, height: 1080 },  // custom dimensions
+    // viewports: [                               // capture matrix (overrides viewport)
+    //   { preset: "desktop-hd" },
+    //   { preset: "tablet" },
+    //   { preset: "mobile" },
+    // ],
+    // browsers: ["chromium", "webkit", "firefox"], // extra engines (default: chromium only)
     fullPage: true,
     format: "png",
     settleDelay: 2000,
     headless: true,
+    // Deterministic rendering (all default to false)
+    // freezeClock: true,                         // fixed Date/time after login
+    // clockTime: "2026-01-01T09:00:00.000Z",
+    // disableAnimations: true,                   // no animations, transitions or ripples
+    // hideCaret: true,
+    // waitForFonts: true,
+    // seedRandom: true,                          // seeded Math.random
   },
 
+  // ── Compare (diff engine) ───────────────────────────────────────
+  compare: {
+    threshold: 0.1,         // pixelmatch color tolerance (0–1, lower = stricter)
+    includeAA: false,       // count anti-aliased pixels as differences
+    alpha: 0.1,             // opacity of unchanged pixels in diff images
+    diffColor: [255, 0, 0],
+    aaColor: [255, 255, 0],
+    warnThreshold: 1,       // diff % → yellow
+    failThreshold: 5,       // diff % → red
+    ssim: false,            // also compute SSIM + heatmaps
+    metric: "pixel",        // "ssim" → pass/fail by SSIM (ignores sub-pixel font noise)
+    ssimWarnBelow: 0.98,
+    ssimFailBelow: 0.9,
+    alignment: "none",      // "bands" → shift-tolerant row alignment
+    envPairing: "reference", // 3+ envs: "reference" → ref vs each other, "all-pairs" → every pair
+    // referenceEnv: "develop",  // defaults to the first environment
+    // workers: 4,              // diff worker threads (default: CPU cores − 1)
+  },
+
+  // ── Reports ─────────────────────────────────────────────────────
+  report: {
+    formats: ["html"],      // + "json" (report.json), "junit" (junit.xml), "markdown" (summary.md)
+    images: "linked",       // screenshots in assets/ with thumbnails; "embedded" = single-file HTML (base64)
+    thumbnailWidth: 480,    // px, card thumbnails in linked mode
+  },
+
+  // ── Schedules ───────────────────────────────────────────────────
+  // Pipelines the dashboard server (bun run ui) starts on its own.
+  // Cron fields: minute hour day month weekday, in the server's local time.
+  // More can be added at runtime via POST /api/schedules.
+  // schedules: [
+  //   {
+  //     name: "nightly-auth",
+  //     cron: "0 2 * * 1-5",              // 02:00 on weekdays
+  //     app: "auth",
+  //     envs: ["develop", "local"],       // default: all environments
+  //     tasks: { capture: true, compare: true, report: true },
+  //   },
+  // ],
+
+  // ── Jobs (optional) ─────────────────────────────────────────────
+  // Dashboard operations run as queued jobs. `concurrency` caps how many
+  // run at once across apps (default: 2); one app runs one job at a time.
+  // jobs: {
+  //   concurrency: 2,
+  // },
+
+  // ── Webhooks (optional) ─────────────────────────────────────────
+  // JSON POSTs when a run (one env × browser) or a pipeline finishes.
+  // With `secretEnv`, the body is signed with HMAC-SHA256 using that .env
+  // variable (header X-UI-Police-Signature: sha256=<hex>). Failed deliveries
+  // are retried with exponential backoff.
+  // webhooks: [
+  //   {
+  //     url: "https://hooks.example.com/ui-police",
+  //     events: ["pipeline.completed", "pipeline.failed"],   // default: all
+  //     apps: ["auth"],                                      // default: all
+  //     secretEnv: "UI_POLICE_WEBHOOK_SECRET",
+  //     retries: 3,                                          // default: 3
+  //     backoffMs: 1000,                                     // default: 1000, doubled per retry
+  //   },
+  // ],
+
+  // ── Retention (optional) ────────────────────────────────────────
+  // What `bun run cli prune` (and POST /api/runs/prune) keeps. Running,
+  // tagged and baseline-source runs are always kept.
+  // retention: {
+  //   keepLast: 10,          // completed runs per app × env × browser (default: 10)
+  //   keepDays: 14,          // + completed runs newer than this (default: 14)
+  //   failedGraceDays: 2,    // failed/cancelled runs deleted after this (default: 2)
+  //   cacheDays: 30,         // compare cache entries unused for this long (default: 30)
+  //   jobDays: 30,           // job log archives untouched for this long (default: 30)
+  // },
+
   // ── Timeouts (ms) ───────────────────────────────────────────────
   timeouts: {
     loginNavigation: 45000,
@@ -59,6 +146,14 @@ const config: ProjectConfig = {
         "/admin/reports",
         "/admin/settings",
       ],
+      // maskSelectors: [".last-login", ".avatar"],   // painted over at capture time
+      // maskRegions: {                                // ignored at compare time (screenshot px)
+      //   "/admin/dashboard": [{ x: 0, y: 0, width: 320, height: 48 }],
+      // },
+      // compare: {                                   // per-app / per-page overrides
+      //   failThreshold: 10,
+      //   pages: { "/admin/reports": { threshold: 0.2 } },
+      // },
     },
     {
       name: "auth",